@@ -0,0 +1,68 @@
+/**
+ * Puts the face embedding model for on-device recognition in
+ * public/models/face-embedding.onnx before dev and build.
+ *
+ * The model has to be the one the backend embeds faces with, so it is not
+ * checked in; point FACE_EMBEDDING_MODEL_SOURCE at it (an http(s) URL or a
+ * local path) and optionally pin it with FACE_EMBEDDING_MODEL_SHA256. Without
+ * a source the step is skipped and TakeAttendance shows on-device mode as
+ * unavailable. No default source is pinned: it must match the backend.
+ */
+
+import { createHash } from "node:crypto";
+import { copyFile, mkdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const TARGET = resolve(dirname(fileURLToPath(import.meta.url)), "../public/models/face-embedding.onnx");
+const source = process.env.FACE_EMBEDDING_MODEL_SOURCE;
+const expectedSha256 = process.env.FACE_EMBEDDING_MODEL_SHA256?.toLowerCase();
+
+const exists = (path) => stat(path).then(() => true, () => false);
+
+async function sha256(path) {
+  return createHash("sha256").update(await readFile(path)).digest("hex");
+}
+
+async function download(url, path) {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url} answered ${response.status}`);
+  await writeFile(path, Buffer.from(await response.arrayBuffer()));
+}
+
+async function main() {
+  if (await exists(TARGET)) {
+    if (expectedSha256 && (await sha256(TARGET)) !== expectedSha256) {
+      throw new Error(`${TARGET} doesn't match FACE_EMBEDDING_MODEL_SHA256; delete it to fetch again`);
+    }
+    return;
+  }
+
+  if (!source) {
+    console.warn("FACE_EMBEDDING_MODEL_SOURCE is not set; building without on-device recognition.");
+    return;
+  }
+
+  await mkdir(dirname(TARGET), { recursive: true });
+  const partial = `${TARGET}.partial`;
+  try {
+    if (/^https?:\/\//.test(source)) {
+      await download(source, partial);
+    } else {
+      await copyFile(source, partial);
+    }
+
+    if (expectedSha256 && (await sha256(partial)) !== expectedSha256) {
+      throw new Error(`Model from ${source} doesn't match FACE_EMBEDDING_MODEL_SHA256`);
+    }
+    await rename(partial, TARGET);
+  } finally {
+    await rm(partial, { force: true });
+  }
+  console.log(`Face embedding model saved to ${TARGET}`);
+}
+
+main().catch((error) => {
+  console.error(`Couldn't fetch the face embedding model: ${error.message}`);
+  process.exit(1);
+});
@@ -17,8 +17,11 @@ import RegisterStudent from "./pages/RegisterStudent";
 import FaceTraining from "./pages/FaceTraining";
 import BulkUpload from "./pages/BulkUpload";
 import Classes from "./pages/Classes";
+import AcademicCalendar from "./pages/AcademicCalendar";
 import TakeAttendance from "./pages/TakeAttendance";
 import Analytics from "./pages/Analytics";
+import AuditLog from "./pages/AuditLog";
+import MyAttendance from "./pages/MyAttendance";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
@@ -149,6 +152,14 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/academic-calendar"
+        element={
+          <ProtectedRoute>
+            <AcademicCalendar />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/attendance"
         element={
@@ -165,6 +176,22 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/my-attendance"
+        element={
+          <ProtectedRoute>
+            <MyAttendance />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/audit-log"
+        element={
+          <ProtectedRoute>
+            <AuditLog />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/settings"
         element={
@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Loader2, Save } from "lucide-react";
+
+type AttendanceStatus = "present" | "absent" | "late" | "excused";
+
+interface AttendanceRow {
+  id: string;
+  studentId: string;
+  rollNumber: string;
+  fullName: string;
+  status: AttendanceStatus;
+  originalStatus: AttendanceStatus;
+}
+
+interface EditAttendanceDialogProps {
+  classId: string | null;
+  classLabel?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+const STATUS_OPTIONS: { value: AttendanceStatus; label: string }[] = [
+  { value: "present", label: "Present" },
+  { value: "late", label: "Late" },
+  { value: "absent", label: "Absent" },
+  { value: "excused", label: "Excused" },
+];
+
+export function EditAttendanceDialog({
+  classId,
+  classLabel,
+  open,
+  onOpenChange,
+  onSaved,
+}: EditAttendanceDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<AttendanceRow[]>([]);
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !classId) return;
+
+    const fetchRows = async () => {
+      setLoading(true);
+      setReason("");
+
+      const { data, error } = await supabase
+        .from("attendance")
+        .select(`
+          id,
+          status,
+          student_id,
+          students (
+            full_name,
+            roll_number
+          )
+        `)
+        .eq("class_id", classId);
+
+      if (error) {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+        setRows([]);
+      } else {
+        const formattedRows = (data || [])
+          .map((row) => ({
+            id: row.id,
+            studentId: row.student_id,
+            rollNumber: row.students?.roll_number || "",
+            fullName: row.students?.full_name || "Unknown",
+            status: row.status as AttendanceStatus,
+            originalStatus: row.status as AttendanceStatus,
+          }))
+          .sort((a, b) => a.rollNumber.localeCompare(b.rollNumber));
+        setRows(formattedRows);
+      }
+      setLoading(false);
+    };
+
+    fetchRows();
+  }, [open, classId, toast]);
+
+  const changedRows = rows.filter((row) => row.status !== row.originalStatus);
+  const trimmedReason = reason.trim();
+
+  const updateRowStatus = (rowId: string, status: AttendanceStatus) => {
+    setRows((prev) => prev.map((row) => (row.id === rowId ? { ...row, status } : row)));
+  };
+
+  const saveChanges = async () => {
+    if (!classId || changedRows.length === 0) return;
+
+    if (!trimmedReason) {
+      toast({
+        title: "Reason Required",
+        description: "Please explain why attendance is being changed.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    // Upsert on the (class_id, student_id) key so the log_attendance_change
+    // trigger sees an UPDATE and records the previous/new status with this reason.
+    const { error } = await supabase.from("attendance").upsert(
+      changedRows.map((row) => ({
+        id: row.id,
+        class_id: classId,
+        student_id: row.studentId,
+        status: row.status,
+        marked_by: user?.id,
+        is_manual_override: true,
+        override_reason: trimmedReason,
+      })),
+      { onConflict: "class_id,student_id" },
+    );
+
+    if (error) {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Attendance Updated",
+        description: `${changedRows.length} record(s) corrected.`,
+      });
+      onOpenChange(false);
+      onSaved?.();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit Submitted Attendance</DialogTitle>
+          <DialogDescription>
+            {classLabel ? `${classLabel} — ` : ""}changes are recorded in the audit log
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">
+            No attendance has been submitted for this class yet.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="max-h-[360px] overflow-y-auto space-y-2 pr-1">
+              {rows.map((row) => (
+                <div
+                  key={row.id}
+                  className={`flex items-center justify-between p-3 rounded-lg ${
+                    row.status !== row.originalStatus
+                      ? "bg-warning/5 border border-warning/20"
+                      : "bg-secondary/50"
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{row.fullName}</p>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <span>{row.rollNumber}</span>
+                      {row.status !== row.originalStatus && (
+                        <StatusBadge variant={row.originalStatus} className="px-2 py-0">
+                          was {row.originalStatus}
+                        </StatusBadge>
+                      )}
+                    </div>
+                  </div>
+                  <Select
+                    value={row.status}
+                    onValueChange={(value) => updateRowStatus(row.id, value as AttendanceStatus)}
+                  >
+                    <SelectTrigger className="w-28 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STATUS_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="overrideReason">Reason for change (required)</Label>
+              <Textarea
+                id="overrideReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Student was present but not recognized; medical certificate submitted"
+                rows={3}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={saveChanges}
+            disabled={saving || changedRows.length === 0 || !trimmedReason}
+            className="gap-2"
+          >
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save {changedRows.length > 0 ? `(${changedRows.length})` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+import { RefObject, useEffect, useRef } from "react";
+import { cn } from "@/lib/utils";
+import type { RecognizedFace, UnrecognizedFace } from "@/services/faceRecognitionApi";
+
+export interface OverlayFrame {
+  /** Dimensions of the (downscaled) frame the backend analysed */
+  width: number;
+  height: number;
+  recognized: RecognizedFace[];
+  unrecognized: UnrecognizedFace[];
+}
+
+interface FaceOverlayProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  frame: OverlayFrame | null;
+  className?: string;
+}
+
+const RECOGNIZED_COLOR = "hsl(142, 76%, 36%)";
+const UNRECOGNIZED_COLOR = "hsl(0, 84%, 60%)";
+
+interface BoxTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Map capture-frame pixels to the preview's CSS pixels.
+ * The preview uses `object-cover`, so the video is scaled to fill the box and
+ * the overflow is cropped equally on both sides.
+ */
+function getBoxTransform(
+  frame: OverlayFrame,
+  video: HTMLVideoElement,
+  displayWidth: number,
+  displayHeight: number,
+): BoxTransform | null {
+  const sourceWidth = video.videoWidth || frame.width;
+  const sourceHeight = video.videoHeight || frame.height;
+  if (!sourceWidth || !sourceHeight || !frame.width) return null;
+
+  const coverScale = Math.max(displayWidth / sourceWidth, displayHeight / sourceHeight);
+  const frameToSource = sourceWidth / frame.width;
+
+  return {
+    scale: frameToSource * coverScale,
+    offsetX: (displayWidth - sourceWidth * coverScale) / 2,
+    offsetY: (displayHeight - sourceHeight * coverScale) / 2,
+  };
+}
+
+function drawBox(
+  context: CanvasRenderingContext2D,
+  box: RecognizedFace["bounding_box"],
+  transform: BoxTransform,
+  color: string,
+  label: string,
+) {
+  const x = box.x * transform.scale + transform.offsetX;
+  const y = box.y * transform.scale + transform.offsetY;
+  const width = box.width * transform.scale;
+  const height = box.height * transform.scale;
+
+  context.strokeStyle = color;
+  context.lineWidth = 2;
+  context.strokeRect(x, y, width, height);
+
+  context.font = "600 12px system-ui, sans-serif";
+  const labelWidth = context.measureText(label).width + 8;
+  const labelHeight = 18;
+  const labelY = y - labelHeight >= 0 ? y - labelHeight : y + height;
+
+  context.fillStyle = color;
+  context.fillRect(x - 1, labelY, labelWidth, labelHeight);
+  context.fillStyle = "#fff";
+  context.textBaseline = "middle";
+  context.fillText(label, x + 3, labelY + labelHeight / 2);
+}
+
+export function FaceOverlay({ videoRef, frame, className }: FaceOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const draw = () => {
+      const context = canvas.getContext("2d");
+      if (!context) return;
+
+      const displayWidth = canvas.clientWidth;
+      const displayHeight = canvas.clientHeight;
+      const pixelRatio = window.devicePixelRatio || 1;
+
+      canvas.width = Math.round(displayWidth * pixelRatio);
+      canvas.height = Math.round(displayHeight * pixelRatio);
+      context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      context.clearRect(0, 0, displayWidth, displayHeight);
+
+      const video = videoRef.current;
+      if (!frame || !video) return;
+
+      const transform = getBoxTransform(frame, video, displayWidth, displayHeight);
+      if (!transform) return;
+
+      for (const face of frame.unrecognized) {
+        drawBox(context, face.bounding_box, transform, UNRECOGNIZED_COLOR, "Unknown");
+      }
+      for (const face of frame.recognized) {
+        const label = `${face.student_name} ${Math.round(face.confidence * 100)}%`;
+        drawBox(context, face.bounding_box, transform, RECOGNIZED_COLOR, label);
+      }
+    };
+
+    draw();
+
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [frame, videoRef]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={cn("absolute inset-0 h-full w-full pointer-events-none", className)}
+    />
+  );
+}
@@ -0,0 +1,252 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ColumnMapping,
+  ExistingRollNumber,
+  ImportRow,
+  REQUIRED_STUDENT_FIELDS,
+  STUDENT_FIELD_LABELS,
+  StudentField,
+  guessColumnMapping,
+  mapImportRows,
+  validateImportRows,
+} from "@/lib/studentImport";
+import { fetchExistingRollNumbers } from "@/services/studentImportApi";
+import { AlertTriangle, CheckCircle, Columns3, Loader2, RefreshCw, XCircle } from "lucide-react";
+
+const PREVIEW_LIMIT = 50;
+const UNMAPPED = "none";
+
+interface ImportPreviewCardProps {
+  fileName: string;
+  /** Parsed sheet, header row first */
+  table: string[][];
+  sectionId: string;
+  onConfirm: (rows: ImportRow[]) => void;
+  onCancel: () => void;
+}
+
+export function ImportPreviewCard({ fileName, table, sectionId, onConfirm, onCancel }: ImportPreviewCardProps) {
+  const headers = useMemo(() => table[0] ?? [], [table]);
+  const dataRows = useMemo(() => table.slice(1), [table]);
+
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(headers));
+  const [existing, setExisting] = useState<Map<string, ExistingRollNumber>>(new Map());
+  const [checkingRolls, setCheckingRolls] = useState(false);
+  // Without the check, duplicates and students from other sections would pass validation
+  const [rollCheckError, setRollCheckError] = useState<string | null>(null);
+  const [rollCheckAttempt, setRollCheckAttempt] = useState(0);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+
+  useEffect(() => {
+    setMapping(guessColumnMapping(headers));
+  }, [headers]);
+
+  const rows = useMemo(() => mapImportRows(dataRows, mapping), [dataRows, mapping]);
+
+  const rollNumbers = useMemo(
+    () => Array.from(new Set(rows.map((row) => row.rollNumber).filter(Boolean))),
+    [rows],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setCheckingRolls(true);
+    setRollCheckError(null);
+    fetchExistingRollNumbers(rollNumbers)
+      .then((found) => !cancelled && setExisting(found))
+      .catch((error) => {
+        console.error("Error checking roll numbers:", error);
+        if (!cancelled) {
+          setRollCheckError(error instanceof Error ? error.message : "Couldn't check existing roll numbers");
+        }
+      })
+      .finally(() => !cancelled && setCheckingRolls(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [rollNumbers, rollCheckAttempt]);
+
+  const results = useMemo(
+    () => validateImportRows(rows, existing, sectionId),
+    [rows, existing, sectionId],
+  );
+
+  const missingRequired = REQUIRED_STUDENT_FIELDS.filter((field) => mapping[field] === null);
+  const validRows = results.filter((result) => result.errors.length === 0).map((result) => result.row);
+  const errorCount = results.length - validRows.length;
+  const warningCount = results.filter((result) => result.warnings.length > 0).length;
+  const visible = (problemsOnly
+    ? results.filter((result) => result.errors.length > 0 || result.warnings.length > 0)
+    : results
+  ).slice(0, PREVIEW_LIMIT);
+
+  const setField = (field: StudentField, value: string) =>
+    setMapping((prev) => ({ ...prev, [field]: value === UNMAPPED ? null : Number(value) }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Columns3 className="h-5 w-5" />
+              Map Columns &amp; Preview
+            </CardTitle>
+            <CardDescription>
+              {fileName} · {dataRows.length} row(s). Nothing is saved until training starts.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Discard
+            </Button>
+            <Button
+              onClick={() => onConfirm(validRows)}
+              disabled={missingRequired.length > 0 || validRows.length === 0 || checkingRolls || rollCheckError !== null}
+              className="gap-2"
+            >
+              {checkingRolls ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+              Use {validRows.length} Valid Row(s)
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Column mapping */}
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {(Object.keys(STUDENT_FIELD_LABELS) as StudentField[]).map((field) => (
+            <div key={field} className="space-y-2">
+              <Label>
+                {STUDENT_FIELD_LABELS[field]}
+                {REQUIRED_STUDENT_FIELDS.includes(field) && <span className="text-danger"> *</span>}
+              </Label>
+              <Select
+                value={mapping[field] === null ? UNMAPPED : String(mapping[field])}
+                onValueChange={(value) => setField(field, value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNMAPPED}>— Not mapped —</SelectItem>
+                  {headers.map((header, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {header || `Column ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        {rollCheckError && (
+          <div className="flex items-center justify-between gap-4 p-3 rounded-lg bg-danger/5 border border-danger/20">
+            <p className="text-sm text-danger flex items-center gap-2">
+              <XCircle className="h-4 w-4 shrink-0" />
+              Couldn't check roll numbers against existing students ({rollCheckError}), so duplicates
+              can't be ruled out yet.
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 shrink-0"
+              onClick={() => setRollCheckAttempt((attempt) => attempt + 1)}
+              disabled={checkingRolls}
+            >
+              <RefreshCw className="h-4 w-4" />
+              Retry
+            </Button>
+          </div>
+        )}
+
+        {missingRequired.length > 0 && (
+          <p className="text-sm text-danger">
+            Map {missingRequired.map((field) => STUDENT_FIELD_LABELS[field]).join(" and ")} to continue.
+          </p>
+        )}
+
+        {/* Validation summary */}
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex gap-4 flex-wrap">
+            <Badge variant="default" className="gap-1 bg-green-600">
+              <CheckCircle className="h-3 w-3" />
+              Valid: {validRows.length}
+            </Badge>
+            <Badge variant="destructive" className="gap-1">
+              <XCircle className="h-3 w-3" />
+              Errors: {errorCount}
+            </Badge>
+            <Badge variant="secondary" className="gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              Warnings: {warningCount}
+            </Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="problems-only" checked={problemsOnly} onCheckedChange={setProblemsOnly} />
+            <Label htmlFor="problems-only" className="font-normal">Only rows with problems</Label>
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Row</TableHead>
+                <TableHead>S.No</TableHead>
+                <TableHead>Roll Number</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Branch</TableHead>
+                <TableHead>Gender</TableHead>
+                <TableHead>Issues</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map(({ row, errors, warnings }) => (
+                <TableRow key={row.rowNumber} className={errors.length > 0 ? "bg-danger/5" : undefined}>
+                  <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                  <TableCell>{row.serialNo}</TableCell>
+                  <TableCell className="font-mono text-sm">{row.rollNumber}</TableCell>
+                  <TableCell>{row.studentName}</TableCell>
+                  <TableCell>{row.branch}</TableCell>
+                  <TableCell>{row.gender}</TableCell>
+                  <TableCell className="text-sm">
+                    {errors.map((error) => (
+                      <p key={error} className="text-danger">{error}</p>
+                    ))}
+                    {warnings.map((warning) => (
+                      <p key={warning} className="text-warning">{warning}</p>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {visible.length === 0 && (
+            <p className="p-6 text-center text-sm text-muted-foreground">No rows to show</p>
+          )}
+          {results.length > PREVIEW_LIMIT && visible.length === PREVIEW_LIMIT && (
+            <div className="p-3 text-center text-sm text-muted-foreground bg-muted/50">
+              Showing the first {PREVIEW_LIMIT} rows
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { cancelClass } from "@/services/classLifecycleApi";
+import { Loader2, XCircle } from "lucide-react";
+
+interface CancelClassDialogProps {
+  classId: string | null;
+  classLabel?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCancelled?: () => void;
+}
+
+export function CancelClassDialog({
+  classId,
+  classLabel,
+  open,
+  onOpenChange,
+  onCancelled,
+}: CancelClassDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  const handleCancel = async () => {
+    if (!classId) return;
+    if (!reason.trim()) {
+      toast({
+        title: "Reason Required",
+        description: "Please say why the class is being cancelled.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await cancelClass(classId, reason);
+      toast({ title: "Class Cancelled", description: classLabel });
+      onOpenChange(false);
+      onCancelled?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not cancel class",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Class</DialogTitle>
+          <DialogDescription>
+            {classLabel ? `${classLabel} · ` : ""}A cancelled class can't be re-opened.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="cancel-reason">Reason</Label>
+          <Textarea
+            id="cancel-reason"
+            placeholder="e.g., Teacher on leave"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Keep Class
+          </Button>
+          <Button variant="destructive" onClick={handleCancel} disabled={saving} className="gap-2">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="h-4 w-4" />}
+            Cancel Class
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
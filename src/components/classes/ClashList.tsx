@@ -0,0 +1,34 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { ClassClash } from "@/services/timetableApi";
+import { AlertTriangle } from "lucide-react";
+
+const MAX_LISTED = 6;
+
+export function ClashList({ clashes }: { clashes: ClassClash[] }) {
+  if (clashes.length === 0) return null;
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {clashes.length} clash{clashes.length === 1 ? "" : "es"} found
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1 text-sm">
+          {clashes.slice(0, MAX_LISTED).map((clash) => (
+            <li key={clash.classId}>
+              {clash.classDate} · {clash.startTime.slice(0, 5)}–{clash.endTime.slice(0, 5)} ·{" "}
+              {clash.subjectCode} {clash.subjectName}{" "}
+              <span className="opacity-80">
+                ({clash.clashType === "teacher" ? "teacher is busy" : "section is busy"})
+              </span>
+            </li>
+          ))}
+          {clashes.length > MAX_LISTED && (
+            <li className="opacity-80">…and {clashes.length - MAX_LISTED} more</li>
+          )}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
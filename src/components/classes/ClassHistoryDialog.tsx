@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ClassChange, ClassChangeType, fetchClassChanges } from "@/services/classChangesApi";
+
+const CHANGE_LABELS: Record<ClassChangeType, string> = {
+  rescheduled: "Rescheduled",
+  cancelled: "Cancelled",
+  substitute_assigned: "Teacher changed",
+};
+
+interface ClassHistoryDialogProps {
+  classId: string | null;
+  classLabel?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatSlot = (values: Record<string, string | null>) =>
+  `${values.class_date} ${values.start_time?.slice(0, 5)}–${values.end_time?.slice(0, 5)}`;
+
+function describeChange(change: ClassChange): string {
+  switch (change.changeType) {
+    case "rescheduled":
+      return `${formatSlot(change.oldValues)} → ${formatSlot(change.newValues)}${change.reason ? ` (${change.reason})` : ""}`;
+    case "cancelled":
+      return change.reason || "No reason given";
+    case "substitute_assigned":
+      return `${change.oldValues.teacher_name ?? "Unassigned"} → ${change.newValues.teacher_name ?? "Unknown"}`;
+  }
+}
+
+export function ClassHistoryDialog({ classId, classLabel, open, onOpenChange }: ClassHistoryDialogProps) {
+  const [changes, setChanges] = useState<ClassChange[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !classId) return;
+    setLoading(true);
+    fetchClassChanges(classId)
+      .then(setChanges)
+      .catch((error) => {
+        console.error("Error fetching class changes:", error);
+        setChanges([]);
+      })
+      .finally(() => setLoading(false));
+  }, [open, classId]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change History</DialogTitle>
+          <DialogDescription>{classLabel}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full" />
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No changes recorded</p>
+        ) : (
+          <ul className="space-y-3">
+            {changes.map((change) => (
+              <li key={change.id} className="p-3 rounded-lg bg-secondary/50 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant={change.changeType === "cancelled" ? "destructive" : "secondary"}>
+                    {CHANGE_LABELS[change.changeType]}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(change.changedAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-sm">{describeChange(change)}</p>
+                <p className="text-xs text-muted-foreground">
+                  by {change.changedByName ?? "Unknown"}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
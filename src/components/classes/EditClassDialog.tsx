@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAcademicCalendar } from "@/hooks/useAcademicCalendar";
+import { CALENDAR_EVENT_LABELS, findBlockingEvent } from "@/lib/academicCalendar";
+import { ClashList } from "@/components/classes/ClashList";
+import {
+  ClassClash,
+  ClassClashError,
+  updateClassOccurrence,
+  updateClassSeries,
+} from "@/services/timetableApi";
+import { Loader2, Save } from "lucide-react";
+
+export interface EditableClass {
+  id: string;
+  subjectId: string;
+  teacherId: string | null;
+  seriesId: string | null;
+  classDate: string;
+  startTime: string;
+  endTime: string;
+  label: string;
+}
+
+interface EditClassDialogProps {
+  classInfo: EditableClass | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+type EditScope = "occurrence" | "series";
+
+export function EditClassDialog({ classInfo, open, onOpenChange, onSaved }: EditClassDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [scope, setScope] = useState<EditScope>("occurrence");
+  const [classDate, setClassDate] = useState("");
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [reason, setReason] = useState("");
+  const [clashes, setClashes] = useState<ClassClash[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { events } = useAcademicCalendar();
+
+  useEffect(() => {
+    if (!open || !classInfo) return;
+    setScope("occurrence");
+    setClassDate(classInfo.classDate);
+    setStartTime(classInfo.startTime.slice(0, 5));
+    setEndTime(classInfo.endTime.slice(0, 5));
+    setReason("");
+    setClashes([]);
+  }, [open, classInfo]);
+
+  const handleSave = async () => {
+    if (!classInfo || !user) return;
+    if (endTime <= startTime) {
+      toast({ title: "Invalid Time", description: "End time must be after start time.", variant: "destructive" });
+      return;
+    }
+    const blocking = scope === "occurrence" ? findBlockingEvent(events, classDate) : null;
+    if (blocking) {
+      toast({
+        title: "Date Unavailable",
+        description: `${classDate} is blocked: ${blocking.name} (${CALENDAR_EVENT_LABELS[blocking.kind]}).`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    setClashes([]);
+
+    const slot = {
+      subjectId: classInfo.subjectId,
+      teacherId: classInfo.teacherId ?? user.id,
+      startTime,
+      endTime,
+    };
+
+    try {
+      if (scope === "series" && classInfo.seriesId) {
+        const updated = await updateClassSeries(classInfo.seriesId, slot, classInfo.classDate, reason);
+        toast({ title: "Series Updated", description: `${updated} upcoming class(es) retimed.` });
+      } else {
+        await updateClassOccurrence(classInfo.id, slot, classDate, reason);
+        toast({ title: "Class Updated", description: "This session has been rescheduled." });
+      }
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      if (error instanceof ClassClashError) {
+        setClashes(error.clashes);
+      } else {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Could not update class",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Class</DialogTitle>
+          <DialogDescription>{classInfo?.label}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          {classInfo?.seriesId && (
+            <RadioGroup value={scope} onValueChange={(value) => setScope(value as EditScope)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="occurrence" id="scope-occurrence" />
+                <Label htmlFor="scope-occurrence" className="font-normal">This class only</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="series" id="scope-series" />
+                <Label htmlFor="scope-series" className="font-normal">
+                  This and following classes in the series
+                </Label>
+              </div>
+            </RadioGroup>
+          )}
+
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <Input
+              type="date"
+              value={classDate}
+              disabled={scope === "series"}
+              onChange={(e) => setClassDate(e.target.value)}
+            />
+            {scope === "series" && (
+              <p className="text-xs text-muted-foreground">
+                Series edits change the time only; classes edited individually are left as they are.
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Start Time</Label>
+              <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>End Time</Label>
+              <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reschedule-reason">Reason (optional)</Label>
+            <Input
+              id="reschedule-reason"
+              value={reason}
+              placeholder="Shown to students with the change"
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <ClashList clashes={clashes} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="gap-2">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,349 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAcademicCalendar } from "@/hooks/useAcademicCalendar";
+import { ClashList } from "@/components/classes/ClashList";
+import { WEEKDAY_LABELS, generateOccurrenceDates } from "@/lib/timetable";
+import { CALENDAR_EVENT_LABELS, blockedDatesBetween, findBlockingEvent } from "@/lib/academicCalendar";
+import {
+  ClassClash,
+  ClassClashError,
+  createClass,
+  createClassSeries,
+} from "@/services/timetableApi";
+import { Loader2, X } from "lucide-react";
+
+interface SubjectOption {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface ScheduleClassDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subjects: SubjectOption[];
+  onScheduled?: () => void;
+}
+
+type ScheduleMode = "single" | "weekly";
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const emptyForm = () => ({
+  subjectId: "",
+  date: today(),
+  startTime: "09:00",
+  endTime: "10:00",
+  weekdays: [] as number[],
+  termStart: today(),
+  termEnd: "",
+  excludedDates: [] as string[],
+  holidayInput: "",
+});
+
+export function ScheduleClassDialog({
+  open,
+  onOpenChange,
+  subjects,
+  onScheduled,
+}: ScheduleClassDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<ScheduleMode>("single");
+  const [form, setForm] = useState(emptyForm);
+  const [clashes, setClashes] = useState<ClassClash[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { events, currentTerm } = useAcademicCalendar();
+
+  // Default a new timetable to the current term
+  useEffect(() => {
+    if (open && currentTerm) {
+      setForm((prev) =>
+        prev.termEnd ? prev : { ...prev, termStart: currentTerm.startDate, termEnd: currentTerm.endDate },
+      );
+    }
+  }, [open, currentTerm]);
+
+  // Holidays and blackouts from the academic calendar are always skipped
+  const calendarBlockedDates = useMemo(
+    () =>
+      form.termStart && form.termEnd && form.termEnd >= form.termStart
+        ? blockedDatesBetween(events, form.termStart, form.termEnd)
+        : [],
+    [events, form.termStart, form.termEnd],
+  );
+  const allExcludedDates = useMemo(
+    () => Array.from(new Set([...form.excludedDates, ...calendarBlockedDates])).sort(),
+    [form.excludedDates, calendarBlockedDates],
+  );
+
+  const occurrenceCount =
+    mode === "weekly" && form.termStart && form.termEnd
+      ? form.weekdays.reduce(
+          (count, weekday) =>
+            count + generateOccurrenceDates(weekday, form.termStart, form.termEnd, allExcludedDates).length,
+          0,
+        )
+      : 0;
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setForm(emptyForm());
+      setClashes([]);
+    }
+    onOpenChange(next);
+  };
+
+  const toggleWeekday = (weekday: number, checked: boolean) => {
+    setForm({
+      ...form,
+      weekdays: checked
+        ? [...form.weekdays, weekday].sort((a, b) => a - b)
+        : form.weekdays.filter((day) => day !== weekday),
+    });
+  };
+
+  const addHoliday = () => {
+    if (!form.holidayInput || form.excludedDates.includes(form.holidayInput)) return;
+    setForm({
+      ...form,
+      excludedDates: [...form.excludedDates, form.holidayInput].sort(),
+      holidayInput: "",
+    });
+  };
+
+  const validate = (): string | null => {
+    if (!form.subjectId) return "Please select a subject.";
+    if (form.endTime <= form.startTime) return "End time must be after start time.";
+    if (mode === "single") {
+      const blocking = findBlockingEvent(events, form.date);
+      if (blocking) return `${form.date} is blocked: ${blocking.name} (${CALENDAR_EVENT_LABELS[blocking.kind]}).`;
+    }
+    if (mode === "weekly") {
+      if (form.weekdays.length === 0) return "Pick at least one weekday.";
+      if (!form.termStart || !form.termEnd) return "Set the term start and end dates.";
+      if (form.termEnd < form.termStart) return "Term end must be on or after term start.";
+      if (occurrenceCount === 0) return "No classes fall inside this term.";
+    }
+    return null;
+  };
+
+  const handleSubmit = async () => {
+    const problem = validate();
+    if (problem) {
+      toast({ title: "Missing Information", description: problem, variant: "destructive" });
+      return;
+    }
+    if (!user) return;
+
+    setIsSubmitting(true);
+    setClashes([]);
+
+    const slot = {
+      subjectId: form.subjectId,
+      teacherId: user.id,
+      startTime: form.startTime,
+      endTime: form.endTime,
+    };
+
+    try {
+      if (mode === "single") {
+        await createClass(slot, form.date);
+        toast({ title: "Success", description: "Class scheduled successfully." });
+      } else {
+        const result = await createClassSeries({
+          ...slot,
+          weekdays: form.weekdays,
+          termStart: form.termStart,
+          termEnd: form.termEnd,
+          excludedDates: allExcludedDates,
+        });
+        toast({
+          title: "Timetable Created",
+          description: `${result.classCount} class(es) scheduled across ${result.seriesCount} weekly slot(s).`,
+        });
+      }
+      handleOpenChange(false);
+      onScheduled?.();
+    } catch (error) {
+      if (error instanceof ClassClashError) {
+        setClashes(error.clashes);
+      } else {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Could not schedule class",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schedule New Class</DialogTitle>
+          <DialogDescription>
+            Create a single session or a weekly timetable for the term
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 pt-4">
+          <Tabs value={mode} onValueChange={(value) => { setMode(value as ScheduleMode); setClashes([]); }}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="single">Single class</TabsTrigger>
+              <TabsTrigger value="weekly">Weekly timetable</TabsTrigger>
+            </TabsList>
+
+            <div className="space-y-4 pt-4">
+              <div className="space-y-2">
+                <Label>Subject</Label>
+                <Select
+                  value={form.subjectId}
+                  onValueChange={(value) => setForm({ ...form, subjectId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select subject" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {subjects.map((subject) => (
+                      <SelectItem key={subject.id} value={subject.id}>
+                        {subject.name} ({subject.code})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <TabsContent value="single" className="mt-0">
+                <div className="space-y-2">
+                  <Label>Date</Label>
+                  <Input
+                    type="date"
+                    value={form.date}
+                    onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="weekly" className="mt-0 space-y-4">
+                <div className="space-y-2">
+                  <Label>Weekdays</Label>
+                  <div className="grid grid-cols-4 gap-2">
+                    {WEEKDAY_LABELS.map((label, weekday) => (
+                      <label key={label} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={form.weekdays.includes(weekday)}
+                          onCheckedChange={(checked) => toggleWeekday(weekday, checked === true)}
+                        />
+                        {label.slice(0, 3)}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Term Start</Label>
+                    <Input
+                      type="date"
+                      value={form.termStart}
+                      onChange={(e) => setForm({ ...form, termStart: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Term End</Label>
+                    <Input
+                      type="date"
+                      value={form.termEnd}
+                      onChange={(e) => setForm({ ...form, termEnd: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Extra days off (skipped)</Label>
+                  {calendarBlockedDates.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {calendarBlockedDates.length} holiday/blackout day(s) from the academic calendar are skipped automatically
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <Input
+                      type="date"
+                      value={form.holidayInput}
+                      onChange={(e) => setForm({ ...form, holidayInput: e.target.value })}
+                    />
+                    <Button type="button" variant="outline" onClick={addHoliday}>
+                      Add
+                    </Button>
+                  </div>
+                  {form.excludedDates.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {form.excludedDates.map((date) => (
+                        <Badge key={date} variant="secondary" className="gap-1">
+                          {date}
+                          <button
+                            type="button"
+                            aria-label={`Remove ${date}`}
+                            onClick={() =>
+                              setForm({ ...form, excludedDates: form.excludedDates.filter((d) => d !== date) })
+                            }
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </TabsContent>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Start Time</Label>
+                  <Input
+                    type="time"
+                    value={form.startTime}
+                    onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>End Time</Label>
+                  <Input
+                    type="time"
+                    value={form.endTime}
+                    onChange={(e) => setForm({ ...form, endTime: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          </Tabs>
+
+          <ClashList clashes={clashes} />
+
+          <Button onClick={handleSubmit} className="w-full" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {mode === "single"
+              ? "Schedule Class"
+              : `Schedule ${occurrenceCount} Class${occurrenceCount === 1 ? "" : "es"}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ClashList } from "@/components/classes/ClashList";
+import { ClassClash, ClassClashError } from "@/services/timetableApi";
+import {
+  SubstitutableClass,
+  TeacherOption,
+  assignSubstituteTeacher,
+  fetchTeachers,
+} from "@/services/classChangesApi";
+import { Loader2, UserCog } from "lucide-react";
+
+interface SubstituteTeacherDialogProps {
+  classInfo: SubstitutableClass | null;
+  classLabel?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAssigned?: () => void;
+}
+
+export function SubstituteTeacherDialog({
+  classInfo,
+  classLabel,
+  open,
+  onOpenChange,
+  onAssigned,
+}: SubstituteTeacherDialogProps) {
+  const { toast } = useToast();
+  const [teachers, setTeachers] = useState<TeacherOption[]>([]);
+  const [teacherId, setTeacherId] = useState("");
+  const [clashes, setClashes] = useState<ClassClash[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !classInfo) return;
+    setTeacherId(classInfo.teacherId ?? "");
+    setClashes([]);
+    fetchTeachers()
+      .then(setTeachers)
+      .catch((error) => console.error("Error fetching teachers:", error));
+  }, [open, classInfo]);
+
+  const regularTeacherId = classInfo?.originalTeacherId ?? classInfo?.teacherId;
+
+  const handleAssign = async () => {
+    if (!classInfo || !teacherId) return;
+    if (teacherId === classInfo.teacherId) {
+      onOpenChange(false);
+      return;
+    }
+
+    setSaving(true);
+    setClashes([]);
+    try {
+      await assignSubstituteTeacher(classInfo, teacherId);
+      const name = teachers.find((teacher) => teacher.userId === teacherId)?.fullName;
+      toast({
+        title: teacherId === regularTeacherId ? "Class Handed Back" : "Substitute Assigned",
+        description: name ? `${name} will take this class.` : undefined,
+      });
+      onOpenChange(false);
+      onAssigned?.();
+    } catch (error) {
+      if (error instanceof ClassClashError) {
+        setClashes(error.clashes);
+      } else {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Could not assign teacher",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Substitute Teacher</DialogTitle>
+          <DialogDescription>
+            {classLabel ? `${classLabel} · ` : ""}Students in the section are notified.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <Label>Teacher</Label>
+            <Select value={teacherId} onValueChange={setTeacherId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a teacher" />
+              </SelectTrigger>
+              <SelectContent>
+                {teachers.map((teacher) => (
+                  <SelectItem key={teacher.userId} value={teacher.userId}>
+                    {teacher.fullName}
+                    {teacher.userId === regularTeacherId ? " (regular teacher)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <ClashList clashes={clashes} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleAssign} disabled={saving || !teacherId} className="gap-2">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserCog className="h-4 w-4" />}
+            Assign
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
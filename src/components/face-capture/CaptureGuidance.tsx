@@ -0,0 +1,68 @@
+import { AlertTriangle, CheckCircle, Info, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { FaceQuality } from "@/lib/faceQuality";
+import { isFaceDetectionSupported } from "@/lib/faceDetector";
+
+interface CaptureGuidanceProps {
+  /** Assessment of the most recent capture attempt */
+  quality: FaceQuality | null;
+  /** Prompt before the first capture */
+  initialPrompt: string;
+  className?: string;
+}
+
+/**
+ * One-line guidance under the camera preview: why the last shot was rejected,
+ * or which pose to try next.
+ */
+export function CaptureGuidance({ quality, initialPrompt, className }: CaptureGuidanceProps) {
+  const rejected = quality !== null && !quality.acceptable;
+  const Icon = quality === null ? Info : rejected ? XCircle : CheckCircle;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-between gap-3 rounded-lg border p-3 text-sm",
+        rejected ? "border-danger/30 bg-danger/10 text-danger" : "bg-muted text-foreground",
+        className,
+      )}
+      role="status"
+    >
+      <span className="flex items-center gap-2">
+        <Icon className="h-4 w-4 shrink-0" />
+        {quality?.prompt ?? initialPrompt}
+      </span>
+      {quality || isFaceDetectionSupported() ? (
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          {quality ? `Last shot ${quality.score}/100` : "Quality checks on"}
+        </span>
+      ) : (
+        // Only blur and exposure are checked without a detector
+        <span className="flex items-center gap-1 text-xs font-medium text-warning">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          Face detection unavailable: make sure one face fills the frame
+        </span>
+      )}
+    </div>
+  );
+}
+
+interface QualityScoreBadgeProps {
+  score: number;
+  className?: string;
+}
+
+/** Small score chip for a captured thumbnail */
+export function QualityScoreBadge({ score, className }: QualityScoreBadgeProps) {
+  return (
+    <span
+      className={cn(
+        "absolute bottom-1 left-1 rounded px-1 text-[10px] font-medium text-white",
+        score >= 80 ? "bg-success" : score >= 60 ? "bg-warning" : "bg-danger",
+        className,
+      )}
+    >
+      {score}
+    </span>
+  );
+}
@@ -0,0 +1,83 @@
+import { cn } from "@/lib/utils";
+import { useBackendConnectivity } from "@/hooks/useBackendConnectivity";
+import { BackendStatus } from "@/services/backendConnectivity";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { RefreshCw } from "lucide-react";
+
+const STATUS_LABELS: Record<BackendStatus, string> = {
+  unknown: "Checking face API",
+  online: "Face API online",
+  offline: "Face API offline",
+};
+
+const STATUS_DOTS: Record<BackendStatus, string> = {
+  unknown: "bg-muted-foreground",
+  online: "bg-success",
+  offline: "bg-danger",
+};
+
+interface BackendStatusIndicatorProps {
+  /** Dot only, for the collapsed sidebar and the mobile header */
+  compact?: boolean;
+  className?: string;
+}
+
+export function BackendStatusIndicator({ compact = false, className }: BackendStatusIndicatorProps) {
+  const { status, health, checking, lastCheckedAt, checkNow } = useBackendConnectivity();
+  const label = STATUS_LABELS[status];
+
+  const details: Array<[string, string | undefined]> = [
+    ["Version", health?.version],
+    ["Detection model", health?.detection_model],
+    ["Recognition model", health?.recognition_model],
+    ["Last checked", lastCheckedAt ? new Date(lastCheckedAt).toLocaleTimeString() : undefined],
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size={compact ? "icon" : "sm"}
+          className={cn("gap-2", className)}
+          aria-label={label}
+          title={label}
+        >
+          <span className={cn("h-2 w-2 rounded-full", STATUS_DOTS[status], checking && "animate-pulse")} />
+          {!compact && <span className="text-xs">{label}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div>
+          <p className="font-medium text-sm">{label}</p>
+          {status === "offline" && (
+            <p className="text-xs text-muted-foreground">
+              Training and server recognition are unavailable. Retrying automatically.
+            </p>
+          )}
+        </div>
+        <dl className="grid grid-cols-2 gap-y-1 text-xs">
+          {details
+            .filter(([, value]) => value)
+            .map(([term, value]) => (
+              <div key={term} className="contents">
+                <dt className="text-muted-foreground">{term}</dt>
+                <dd className="text-right">{value}</dd>
+              </div>
+            ))}
+        </dl>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full gap-2"
+          onClick={() => void checkNow()}
+          disabled={checking}
+        >
+          <RefreshCw className={cn("h-3 w-3", checking && "animate-spin")} />
+          Check now
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -3,7 +3,11 @@ import { Link, useLocation, useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
+import { useAttendanceOutbox } from "@/hooks/useAttendanceOutbox";
+import { NotificationBell } from "@/components/layout/NotificationBell";
+import { BackendStatusIndicator } from "@/components/layout/BackendStatusIndicator";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import {
   DropdownMenu,
@@ -27,6 +31,10 @@ import {
   Building2,
   Calendar,
   ChevronRight,
+  CloudOff,
+  RefreshCw,
+  History,
+  CalendarDays,
 } from "lucide-react";
 
 interface NavItem {
@@ -45,8 +53,11 @@ const navItems: NavItem[] = [
   { label: "Face Training", href: "/face-training", icon: UserPlus, roles: ["teacher"] },
   { label: "Bulk Upload", href: "/bulk-upload", icon: ClipboardCheck, roles: ["teacher"] },
   { label: "Classes", href: "/classes", icon: Calendar, roles: ["admin", "teacher"] },
+  { label: "Academic Calendar", href: "/academic-calendar", icon: CalendarDays, roles: ["admin"] },
   { label: "Take Attendance", href: "/attendance", icon: ClipboardCheck, roles: ["teacher"] },
-  { label: "Analytics", href: "/analytics", icon: BarChart3 },
+  { label: "My Attendance", href: "/my-attendance", icon: ClipboardCheck, roles: ["student"] },
+  { label: "Analytics", href: "/analytics", icon: BarChart3, roles: ["admin", "teacher"] },
+  { label: "Audit Log", href: "/audit-log", icon: History, roles: ["admin", "teacher"] },
   { label: "Settings", href: "/settings", icon: Settings, roles: ["admin"] },
 ];
 
@@ -54,6 +65,31 @@ interface DashboardLayoutProps {
   children: ReactNode;
 }
 
+function PendingSyncBadge({ compact = false, className }: { compact?: boolean; className?: string }) {
+  const { pendingCount, isSyncing, isOnline, syncNow } = useAttendanceOutbox();
+
+  if (pendingCount === 0) return null;
+
+  return (
+    <button
+      type="button"
+      className={className}
+      onClick={() => void syncNow()}
+      disabled={isSyncing || !isOnline}
+      title={isOnline ? "Sync pending attendance now" : "Waiting for connection"}
+    >
+      <Badge variant="outline" className="gap-1 border-warning/40 bg-warning/10 text-warning">
+        {isSyncing ? (
+          <RefreshCw className="h-3 w-3 animate-spin" />
+        ) : (
+          <CloudOff className="h-3 w-3" />
+        )}
+        {compact ? pendingCount : `${pendingCount} pending sync`}
+      </Badge>
+    </button>
+  );
+}
+
 export function DashboardLayout({ children }: DashboardLayoutProps) {
   const { user, role, signOut } = useAuth();
   const location = useLocation();
@@ -64,6 +100,8 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
   const filteredNavItems = navItems.filter(
     (item) => !item.roles || (role && item.roles.includes(role))
   );
+  // Students never talk to the face backend
+  const showBackendStatus = role === "admin" || role === "teacher";
 
   const handleSignOut = async () => {
     await signOut();
@@ -108,6 +146,9 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
               </motion.div>
             )}
           </AnimatePresence>
+          {sidebarOpen && (
+            <NotificationBell className="ml-auto text-sidebar-foreground hover:bg-sidebar-accent" />
+          )}
           <Button
             variant="ghost"
             size="icon"
@@ -156,6 +197,17 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
           })}
         </nav>
 
+        {/* Offline attendance awaiting sync */}
+        <PendingSyncBadge compact={!sidebarOpen} className="mx-3 mb-2 self-center" />
+
+        {/* Face backend reachability */}
+        {showBackendStatus && (
+          <BackendStatusIndicator
+            compact={!sidebarOpen}
+            className="mx-3 mb-2 self-center text-sidebar-foreground hover:bg-sidebar-accent"
+          />
+        )}
+
         {/* User section */}
         <div className="p-3 border-t border-sidebar-border">
           <DropdownMenu>
@@ -207,14 +259,19 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
             <GraduationCap className="h-5 w-5 text-primary-foreground" />
           </div>
           <h1 className="font-display font-bold text-foreground">AI Attendance</h1>
+          <PendingSyncBadge compact />
+        </div>
+        <div className="flex items-center gap-1">
+          {showBackendStatus && <BackendStatusIndicator compact />}
+          <NotificationBell />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+          >
+            {mobileMenuOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
+          </Button>
         </div>
-        <Button
-          variant="ghost"
-          size="icon"
-          onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-        >
-          {mobileMenuOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
-        </Button>
       </div>
 
       {/* Mobile Menu */}
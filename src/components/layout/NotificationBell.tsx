@@ -0,0 +1,67 @@
+import { useNavigate } from "react-router-dom";
+import { cn } from "@/lib/utils";
+import { useNotifications } from "@/hooks/useNotifications";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+
+export function NotificationBell({ className }: { className?: string }) {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAllRead } = useNotifications();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("relative", className)}
+          aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : "Notifications"}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 h-4 min-w-4 px-1 rounded-full bg-danger text-[10px] leading-4 text-white">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="font-medium text-sm">Notifications</p>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => void markAllRead()}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">No notifications</p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y">
+            {notifications.map((notification) => (
+              <li key={notification.id}>
+                <button
+                  type="button"
+                  className={cn(
+                    "w-full text-left px-4 py-3 hover:bg-secondary transition-colors",
+                    !notification.readAt && "bg-accent/5",
+                  )}
+                  onClick={() => notification.link && navigate(notification.link)}
+                >
+                  <p className={cn("text-sm", !notification.readAt && "font-medium")}>
+                    {notification.title}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{notification.body}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {new Date(notification.createdAt).toLocaleString()}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
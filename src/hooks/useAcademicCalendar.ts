@@ -0,0 +1,64 @@
+/**
+ * Custom hook for the academic calendar
+ * Terms and blocked dates are cached with React Query and shared across pages
+ */
+
+import { useCallback, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { fetchAcademicTerms, fetchCalendarEvents } from "@/services/academicCalendarApi";
+import { AcademicTerm, CalendarEvent, findTermForDate } from "@/lib/academicCalendar";
+
+const TERMS_QUERY_KEY = ["academic-calendar", "terms"] as const;
+const EVENTS_QUERY_KEY = ["academic-calendar", "events"] as const;
+const CALENDAR_STALE_TIME_MS = 5 * 60 * 1000;
+
+interface UseAcademicCalendarReturn {
+  /** Most recent first */
+  terms: AcademicTerm[];
+  events: CalendarEvent[];
+  /** The term containing today, or null between terms */
+  currentTerm: AcademicTerm | null;
+  isLoading: boolean;
+  /** Refetch after an admin edit */
+  refresh: () => Promise<void>;
+}
+
+export function useAcademicCalendar(): UseAcademicCalendarReturn {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const termsQuery = useQuery({
+    queryKey: TERMS_QUERY_KEY,
+    queryFn: fetchAcademicTerms,
+    enabled: !!user,
+    staleTime: CALENDAR_STALE_TIME_MS,
+  });
+
+  const eventsQuery = useQuery({
+    queryKey: EVENTS_QUERY_KEY,
+    queryFn: fetchCalendarEvents,
+    enabled: !!user,
+    staleTime: CALENDAR_STALE_TIME_MS,
+  });
+
+  const terms = useMemo(() => termsQuery.data ?? [], [termsQuery.data]);
+  const events = useMemo(() => eventsQuery.data ?? [], [eventsQuery.data]);
+
+  const currentTerm = useMemo(
+    () => findTermForDate(terms, new Date().toISOString().split("T")[0]),
+    [terms],
+  );
+
+  const refresh = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: ["academic-calendar"] });
+  }, [queryClient]);
+
+  return {
+    terms,
+    events,
+    currentTerm,
+    isLoading: termsQuery.isLoading || eventsQuery.isLoading,
+    refresh,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Custom hook for the offline attendance outbox
+ * Tracks pending submissions and replays them when connectivity returns
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  countPendingSubmissions,
+  flushOutbox,
+  subscribeToOutbox,
+  FlushResult,
+} from "@/services/attendanceOutbox";
+
+const RETRY_INTERVAL_MS = 30000;
+
+interface UseAttendanceOutboxReturn {
+  pendingCount: number;
+  isSyncing: boolean;
+  isOnline: boolean;
+  syncNow: () => Promise<FlushResult | null>;
+}
+
+export function useAttendanceOutbox(): UseAttendanceOutboxReturn {
+  const { toast } = useToast();
+
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  const refreshCount = useCallback(async () => {
+    try {
+      setPendingCount(await countPendingSubmissions());
+    } catch {
+      setPendingCount(0);
+    }
+  }, []);
+
+  const syncNow = useCallback(async (): Promise<FlushResult | null> => {
+    if (!navigator.onLine) return null;
+
+    setIsSyncing(true);
+    try {
+      const result = await flushOutbox();
+      if (result.synced > 0) {
+        toast({
+          title: "Attendance Synced",
+          description: `${result.synced} offline submission(s) uploaded.`,
+        });
+      }
+      return result;
+    } catch (error) {
+      console.error("Outbox sync failed:", error);
+      return null;
+    } finally {
+      setIsSyncing(false);
+      await refreshCount();
+    }
+  }, [toast, refreshCount]);
+
+  // Keep the pending count in sync with outbox changes
+  useEffect(() => {
+    void refreshCount();
+    return subscribeToOutbox(() => {
+      void refreshCount();
+    });
+  }, [refreshCount]);
+
+  // Replay on reconnect and track connectivity
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      void syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [syncNow]);
+
+  // Periodically retry while there is pending work (covers flaky Wi-Fi that never fires "offline")
+  useEffect(() => {
+    if (pendingCount === 0 || !isOnline) return;
+
+    void syncNow();
+    const intervalId = setInterval(() => {
+      void syncNow();
+    }, RETRY_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [pendingCount, isOnline, syncNow]);
+
+  return {
+    pendingCount,
+    isSyncing,
+    isOnline,
+    syncNow,
+  };
+}
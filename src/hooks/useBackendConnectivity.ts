@@ -0,0 +1,27 @@
+/**
+ * Custom hook for the shared backend connectivity monitor
+ * Re-renders when the face backend goes up or down
+ */
+
+import { useSyncExternalStore } from "react";
+import {
+  BackendConnectivity,
+  checkBackendNow,
+  getConnectivity,
+  subscribeToConnectivity,
+} from "@/services/backendConnectivity";
+
+interface UseBackendConnectivityReturn extends BackendConnectivity {
+  isOnline: boolean;
+  checkNow: () => Promise<void>;
+}
+
+export function useBackendConnectivity(): UseBackendConnectivityReturn {
+  const connectivity = useSyncExternalStore(subscribeToConnectivity, getConnectivity);
+
+  return {
+    ...connectivity,
+    isOnline: connectivity.status === "online",
+    checkNow: checkBackendNow,
+  };
+}
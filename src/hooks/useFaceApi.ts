@@ -3,15 +3,17 @@
  * Provides loading states, error handling, and caching
  */
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { useBackendConnectivity } from "@/hooks/useBackendConnectivity";
+import { isCancelled, isRetryable } from "@/services/apiClient";
+import { checkBackendNow } from "@/services/backendConnectivity";
 import {
   trainSingleStudent,
   trainBulkStudents,
   recognizeFaces,
   trainSectionModel,
   getModelStatus,
-  checkApiHealth,
   FaceTrainingRequest,
   FaceTrainingResponse,
   BulkTrainingRequest,
@@ -33,7 +35,7 @@ interface UseFaceApiReturn {
   trainModel: (sectionId: string) => Promise<TrainModelResponse | null>;
   
   // Recognition
-  recognize: (data: FaceRecognitionRequest) => Promise<FaceRecognitionResponse | null>;
+  recognize: (data: FaceRecognitionRequest, signal?: AbortSignal) => Promise<FaceRecognitionResponse | null>;
   
   // Model status
   modelStatus: ModelStatusResponse | null;
@@ -48,24 +50,14 @@ interface UseFaceApiReturn {
 export function useFaceApi(): UseFaceApiReturn {
   const { toast } = useToast();
   
-  const [isApiAvailable, setIsApiAvailable] = useState(false);
-  const [checkingApi, setCheckingApi] = useState(true);
+  const { status: backendStatus } = useBackendConnectivity();
+  const isApiAvailable = backendStatus === "online";
+  const checkingApi = backendStatus === "unknown";
   const [isTraining, setIsTraining] = useState(false);
   const [isRecognizing, setIsRecognizing] = useState(false);
   const [isTrainingModel, setIsTrainingModel] = useState(false);
   const [modelStatus, setModelStatus] = useState<ModelStatusResponse | null>(null);
 
-  // Check API health on mount
-  useEffect(() => {
-    const checkHealth = async () => {
-      setCheckingApi(true);
-      const available = await checkApiHealth();
-      setIsApiAvailable(available);
-      setCheckingApi(false);
-    };
-    checkHealth();
-  }, []);
-
   // Train single student
   const trainStudent = useCallback(async (data: FaceTrainingRequest): Promise<FaceTrainingResponse | null> => {
     setIsTraining(true);
@@ -124,12 +116,16 @@ export function useFaceApi(): UseFaceApiReturn {
   }, [toast]);
 
   // Recognize faces
-  const recognize = useCallback(async (data: FaceRecognitionRequest): Promise<FaceRecognitionResponse | null> => {
+  const recognize = useCallback(async (data: FaceRecognitionRequest, signal?: AbortSignal): Promise<FaceRecognitionResponse | null> => {
     setIsRecognizing(true);
     try {
-      const result = await recognizeFaces(data);
+      const result = await recognizeFaces(data, { signal });
       return result;
     } catch (error: any) {
+      // Cancelled because the camera stopped; nothing to report
+      if (isCancelled(error)) return null;
+      // The backend may have gone away; don't wait for the next poll to find out
+      if (isRetryable(error)) void checkBackendNow();
       toast({
         title: "Recognition Error",
         description: error.message || "Failed to recognize faces",
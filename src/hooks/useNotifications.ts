@@ -0,0 +1,56 @@
+/**
+ * Custom hook for the signed-in user's in-app notifications
+ * Polled in the background so class changes show up without a reload
+ */
+
+import { useCallback, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  AppNotification,
+  fetchNotifications,
+  markNotificationsRead,
+} from "@/services/notificationsApi";
+
+const NOTIFICATIONS_QUERY_KEY = ["notifications"] as const;
+const NOTIFICATIONS_POLL_MS = 60 * 1000;
+
+interface UseNotificationsReturn {
+  notifications: AppNotification[];
+  unreadCount: number;
+  /** Mark every unread notification as read */
+  markAllRead: () => Promise<void>;
+}
+
+export function useNotifications(): UseNotificationsReturn {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: NOTIFICATIONS_QUERY_KEY,
+    queryFn: () => fetchNotifications(),
+    enabled: !!user,
+    refetchInterval: NOTIFICATIONS_POLL_MS,
+  });
+
+  const notifications = useMemo(() => query.data ?? [], [query.data]);
+  const unread = useMemo(
+    () => notifications.filter((notification) => !notification.readAt),
+    [notifications],
+  );
+
+  const mutation = useMutation({
+    mutationFn: markNotificationsRead,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY }),
+  });
+
+  const markAllRead = useCallback(async () => {
+    await mutation.mutateAsync(unread.map((notification) => notification.id));
+  }, [mutation, unread]);
+
+  return {
+    notifications,
+    unreadCount: unread.length,
+    markAllRead,
+  };
+}
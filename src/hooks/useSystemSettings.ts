@@ -0,0 +1,91 @@
+/**
+ * Custom hook for institution-wide system settings
+ * Cached with React Query so every page shares one fetch per session
+ */
+
+import { useCallback } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  fetchSystemSettings,
+  fetchSystemSettingsHistory,
+  saveSystemSettings,
+  SystemSettingChange,
+} from "@/services/systemSettingsApi";
+import {
+  DEFAULT_SYSTEM_SETTINGS,
+  SystemSettings,
+  changedSettingKeys,
+} from "@/lib/systemSettings";
+
+const SETTINGS_QUERY_KEY = ["system-settings"] as const;
+const HISTORY_QUERY_KEY = ["system-settings", "history"] as const;
+const SETTINGS_STALE_TIME_MS = 5 * 60 * 1000;
+
+interface UseSystemSettingsReturn {
+  /** Saved settings, or the defaults until the first fetch completes */
+  settings: SystemSettings;
+  isLoading: boolean;
+  error: Error | null;
+  isSaving: boolean;
+  /** Persist only the keys that differ from the saved settings */
+  saveSettings: (next: SystemSettings) => Promise<void>;
+}
+
+export function useSystemSettings(): UseSystemSettingsReturn {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: SETTINGS_QUERY_KEY,
+    queryFn: fetchSystemSettings,
+    enabled: !!user,
+    staleTime: SETTINGS_STALE_TIME_MS,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (next: SystemSettings) => {
+      const previous = queryClient.getQueryData<SystemSettings>(SETTINGS_QUERY_KEY) ?? DEFAULT_SYSTEM_SETTINGS;
+      await saveSystemSettings(next, changedSettingKeys(previous, next));
+    },
+    onSuccess: (_data, next) => {
+      queryClient.setQueryData(SETTINGS_QUERY_KEY, next);
+      queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY });
+    },
+  });
+
+  const saveSettings = useCallback(
+    async (next: SystemSettings) => {
+      await mutation.mutateAsync(next);
+    },
+    [mutation],
+  );
+
+  return {
+    settings: query.data ?? DEFAULT_SYSTEM_SETTINGS,
+    isLoading: query.isLoading,
+    error: query.error,
+    isSaving: mutation.isPending,
+    saveSettings,
+  };
+}
+
+interface UseSystemSettingsHistoryReturn {
+  changes: SystemSettingChange[];
+  isLoading: boolean;
+  error: Error | null;
+}
+
+export function useSystemSettingsHistory(enabled = true): UseSystemSettingsHistoryReturn {
+  const query = useQuery({
+    queryKey: HISTORY_QUERY_KEY,
+    queryFn: () => fetchSystemSettingsHistory(),
+    enabled,
+  });
+
+  return {
+    changes: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
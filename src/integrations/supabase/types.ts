@@ -14,6 +14,30 @@ export type Database = {
   }
   public: {
     Tables: {
+      academic_terms: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          name: string
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          name: string
+          start_date: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          name?: string
+          start_date?: string
+        }
+        Relationships: []
+      }
       attendance: {
         Row: {
           class_id: string
@@ -109,38 +133,184 @@ export type Database = {
           },
         ]
       }
+      calendar_events: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          kind: string
+          name: string
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          kind: string
+          name: string
+          start_date: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          kind?: string
+          name?: string
+          start_date?: string
+        }
+        Relationships: []
+      }
+      class_changes: {
+        Row: {
+          change_type: string
+          changed_by: string | null
+          class_id: string
+          created_at: string
+          id: string
+          new_values: Json
+          old_values: Json
+          reason: string | null
+        }
+        Insert: {
+          change_type: string
+          changed_by?: string | null
+          class_id: string
+          created_at?: string
+          id?: string
+          new_values?: Json
+          old_values?: Json
+          reason?: string | null
+        }
+        Update: {
+          change_type?: string
+          changed_by?: string | null
+          class_id?: string
+          created_at?: string
+          id?: string
+          new_values?: Json
+          old_values?: Json
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_changes_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_series: {
+        Row: {
+          created_at: string
+          end_time: string
+          excluded_dates: string[]
+          id: string
+          start_time: string
+          subject_id: string
+          teacher_id: string | null
+          term_end: string
+          term_start: string
+          weekday: number
+        }
+        Insert: {
+          created_at?: string
+          end_time: string
+          excluded_dates?: string[]
+          id?: string
+          start_time: string
+          subject_id: string
+          teacher_id?: string | null
+          term_end: string
+          term_start: string
+          weekday: number
+        }
+        Update: {
+          created_at?: string
+          end_time?: string
+          excluded_dates?: string[]
+          id?: string
+          start_time?: string
+          subject_id?: string
+          teacher_id?: string | null
+          term_end?: string
+          term_start?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_series_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       classes: {
         Row: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           class_date: string
           created_at: string
           end_time: string
           id: string
+          is_series_exception: boolean
+          original_teacher_id: string | null
+          reschedule_reason: string | null
+          series_id: string | null
           start_time: string
+          started_at: string | null
           status: string
           subject_id: string
           teacher_id: string | null
         }
         Insert: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           class_date: string
           created_at?: string
           end_time: string
           id?: string
+          is_series_exception?: boolean
+          original_teacher_id?: string | null
+          reschedule_reason?: string | null
+          series_id?: string | null
           start_time: string
+          started_at?: string | null
           status?: string
           subject_id: string
           teacher_id?: string | null
         }
         Update: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           class_date?: string
           created_at?: string
           end_time?: string
           id?: string
+          is_series_exception?: boolean
+          original_teacher_id?: string | null
+          reschedule_reason?: string | null
+          series_id?: string | null
           start_time?: string
+          started_at?: string | null
           status?: string
           subject_id?: string
           teacher_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "classes_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "class_series"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "classes_subject_id_fkey"
             columns: ["subject_id"]
@@ -189,6 +359,36 @@ export type Database = {
         }
         Relationships: []
       }
+      notifications: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -254,6 +454,8 @@ export type Database = {
           email: string | null
           face_embedding_id: string | null
           face_registered: boolean
+          face_training_error: string | null
+          face_training_status: string | null
           full_name: string
           id: string
           roll_number: string
@@ -266,6 +468,8 @@ export type Database = {
           email?: string | null
           face_embedding_id?: string | null
           face_registered?: boolean
+          face_training_error?: string | null
+          face_training_status?: string | null
           full_name: string
           id?: string
           roll_number: string
@@ -278,6 +482,8 @@ export type Database = {
           email?: string | null
           face_embedding_id?: string | null
           face_registered?: boolean
+          face_training_error?: string | null
+          face_training_status?: string | null
           full_name?: string
           id?: string
           roll_number?: string
@@ -330,6 +536,54 @@ export type Database = {
           },
         ]
       }
+      system_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
+      system_settings_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          key: string
+          new_value: Json
+          previous_value: Json | null
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          key: string
+          new_value: Json
+          previous_value?: Json | null
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          key?: string
+          new_value?: Json
+          previous_value?: Json | null
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -385,9 +639,126 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      section_attendance_summary: {
+        Row: {
+          attended: number | null
+          department_id: string | null
+          expected: number | null
+          name: string | null
+          section_id: string | null
+          student_count: number | null
+          total_classes: number | null
+          year_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sections_year_id_fkey"
+            columns: ["year_id"]
+            isOneToOne: false
+            referencedRelation: "years"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "years_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_attendance_summary: {
+        Row: {
+          attended: number | null
+          department_id: string | null
+          full_name: string | null
+          roll_number: string | null
+          section_id: string | null
+          student_id: string | null
+          total_classes: number | null
+          year_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "students_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "years_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subject_attendance_summary: {
+        Row: {
+          attended: number | null
+          code: string | null
+          expected: number | null
+          name: string | null
+          section_id: string | null
+          student_count: number | null
+          subject_id: string | null
+          teacher_id: string | null
+          total_classes: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subjects_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      create_class_series: {
+        Args: {
+          _end_time: string
+          _excluded_dates: string[]
+          _occurrences: Json
+          _start_time: string
+          _subject_id: string
+          _teacher_id: string
+          _term_end: string
+          _term_start: string
+        }
+        Returns: number
+      }
+      find_class_clashes: {
+        Args: {
+          _dates: string[]
+          _end_time: string
+          _exclude_class_ids?: string[]
+          _start_time: string
+          _subject_id: string
+          _teacher_id: string
+        }
+        Returns: {
+          class_date: string
+          class_id: string
+          clash_type: string
+          end_time: string
+          start_time: string
+          subject_code: string
+          subject_name: string
+        }[]
+      }
+      find_students_by_roll: {
+        Args: { _roll_numbers: string[] }
+        Returns: {
+          roll_number: string
+          section_id: string
+          section_name: string
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -399,6 +770,36 @@ export type Database = {
         }
         Returns: boolean
       }
+      list_teachers: {
+        Args: never
+        Returns: {
+          full_name: string
+          user_id: string
+        }[]
+      }
+      student_attendance_summary_between: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          attended: number
+          department_id: string
+          full_name: string
+          roll_number: string
+          section_id: string
+          student_id: string
+          total_classes: number
+          year_id: string
+        }[]
+      }
+      update_class_series: {
+        Args: {
+          _end_time: string
+          _from_date: string
+          _reason?: string
+          _series_id: string
+          _start_time: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "teacher" | "student"
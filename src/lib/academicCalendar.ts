@@ -0,0 +1,46 @@
+import { addDays, format, parseISO } from "date-fns";
+
+export type CalendarEventKind = "holiday" | "exam_blackout";
+
+export interface AcademicTerm {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface CalendarEvent {
+  id: string;
+  name: string;
+  kind: CalendarEventKind;
+  startDate: string;
+  endDate: string;
+}
+
+export const CALENDAR_EVENT_LABELS: Record<CalendarEventKind, string> = {
+  holiday: "Holiday",
+  exam_blackout: "Exam blackout",
+};
+
+/** The term containing `date` (yyyy-MM-dd), or null between terms */
+export function findTermForDate(terms: AcademicTerm[], date: string): AcademicTerm | null {
+  return terms.find((term) => term.startDate <= date && date <= term.endDate) ?? null;
+}
+
+/** The holiday or blackout covering `date`, if any */
+export function findBlockingEvent(events: CalendarEvent[], date: string): CalendarEvent | null {
+  return events.find((event) => event.startDate <= date && date <= event.endDate) ?? null;
+}
+
+/** Every blocked date between `from` and `to`, for skipping in timetables */
+export function blockedDatesBetween(events: CalendarEvent[], from: string, to: string): string[] {
+  const dates = new Set<string>();
+  for (const event of events) {
+    const start = event.startDate > from ? event.startDate : from;
+    const end = event.endDate < to ? event.endDate : to;
+    for (let date = parseISO(start); format(date, "yyyy-MM-dd") <= end; date = addDays(date, 1)) {
+      dates.add(format(date, "yyyy-MM-dd"));
+    }
+  }
+  return Array.from(dates).sort();
+}
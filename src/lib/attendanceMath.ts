@@ -0,0 +1,30 @@
+/** Statuses that count towards a student's attended classes */
+export const ATTENDED_STATUSES = ["present", "late"] as const;
+
+export function isAttendedStatus(status: string | null | undefined): boolean {
+  return ATTENDED_STATUSES.some((attended) => attended === status);
+}
+
+export function attendancePercentage(attended: number, total: number): number {
+  return total > 0 ? Math.round((attended / total) * 100) : 0;
+}
+
+/**
+ * How many more classes can be missed while staying at or above the threshold.
+ * Returns 0 when the student is already below it.
+ */
+export function classesCanMiss(attended: number, total: number, thresholdPercent: number): number {
+  if (thresholdPercent <= 0) return Infinity;
+  const ratio = thresholdPercent / 100;
+  return Math.max(0, Math.floor(attended / ratio - total + 1e-9));
+}
+
+/**
+ * How many consecutive classes must be attended to reach the threshold.
+ * Returns 0 when the student is already at or above it.
+ */
+export function classesNeededToReach(attended: number, total: number, thresholdPercent: number): number {
+  const ratio = thresholdPercent / 100;
+  if (ratio >= 1) return attended < total ? Infinity : 0;
+  return Math.max(0, Math.ceil((ratio * total - attended) / (1 - ratio) - 1e-9));
+}
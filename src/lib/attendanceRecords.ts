@@ -0,0 +1,52 @@
+import type { AttendanceRecord } from "@/services/attendanceOutbox";
+
+/** A student marked during the session, by recognition or by hand */
+export interface MarkedStudent {
+  id: string;
+  status: "present" | "absent" | "late";
+  confidence: number;
+  isManual?: boolean;
+  firstSeenAt?: string;
+}
+
+/**
+ * One `attendance` row per student in the roster: marked students as marked,
+ * everyone else absent. PostgREST sends a bulk insert with the union of the
+ * rows' keys and fills missing ones with NULL, so every row carries the same
+ * columns; `marked_at` in particular is NOT NULL, and absent and hand-marked
+ * rows get the submission time.
+ */
+export function buildAttendanceRecords(
+  classId: string,
+  markedBy: string | undefined,
+  marked: MarkedStudent[],
+  rosterIds: string[],
+  submittedAt: string,
+): AttendanceRecord[] {
+  const markedIds = new Set(marked.map((student) => student.id));
+
+  const markedRecords = marked.map((student) => ({
+    class_id: classId,
+    student_id: student.id,
+    status: student.status,
+    marked_by: markedBy,
+    face_confidence: student.isManual ? null : student.confidence,
+    marked_at: student.firstSeenAt ?? submittedAt,
+    // Always send explicit boolean to avoid PostgREST inserting NULL.
+    is_manual_override: Boolean(student.isManual),
+  }));
+
+  const absentRecords = rosterIds
+    .filter((id) => !markedIds.has(id))
+    .map((id) => ({
+      class_id: classId,
+      student_id: id,
+      status: "absent" as const,
+      marked_by: markedBy,
+      face_confidence: null,
+      marked_at: submittedAt,
+      is_manual_override: false,
+    }));
+
+  return [...markedRecords, ...absentRecords];
+}
@@ -0,0 +1,35 @@
+import type { SystemSettings } from "@/lib/systemSettings";
+
+export type RiskLevel = "safe" | "warning" | "risk";
+
+/**
+ * `required` is the minimum attendance a student must keep; anything between
+ * `alert` and `required` is a warning, and below `alert` is at risk.
+ */
+export interface RiskThresholds {
+  required: number;
+  alert: number;
+}
+
+/**
+ * Resolve the thresholds for a department, falling back to the institution
+ * defaults when the department has no override. The alert level never sits
+ * above the requirement, so the warning band can't be negative.
+ */
+export function getRiskThresholds(
+  settings: Pick<SystemSettings, "attendanceThreshold" | "lowAttendanceAlertThreshold" | "departmentThresholds">,
+  departmentId?: string | null,
+): RiskThresholds {
+  const override = departmentId ? settings.departmentThresholds?.[departmentId] : undefined;
+  const required = override ?? settings.attendanceThreshold;
+  return {
+    required,
+    alert: Math.min(settings.lowAttendanceAlertThreshold, required),
+  };
+}
+
+export function getRiskLevel(percentage: number, thresholds: RiskThresholds): RiskLevel {
+  if (percentage >= thresholds.required) return "safe";
+  if (percentage >= thresholds.alert) return "warning";
+  return "risk";
+}
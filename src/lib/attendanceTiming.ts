@@ -0,0 +1,59 @@
+/**
+ * Build the local Date a class starts at from its `class_date` (YYYY-MM-DD)
+ * and `start_time` (HH:MM or HH:MM:SS) columns, or null without a start time.
+ */
+export function getClassStart(classDate: string, startTime: string | null | undefined): Date | null {
+  if (!startTime) return null;
+  const [year, month, day] = classDate.split("-").map(Number);
+  const [hours, minutes, seconds = 0] = startTime.split(":").map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+}
+
+export function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60_000);
+}
+
+/**
+ * Students first seen after the grace window are late; everyone else is present.
+ * Without a known start nobody can be late.
+ */
+export function getArrivalStatus(
+  firstSeenAt: Date,
+  classStart: Date | null,
+  gracePeriodMinutes: number,
+): "present" | "late" {
+  if (!classStart) return "present";
+  return firstSeenAt > addMinutes(classStart, gracePeriodMinutes) ? "late" : "present";
+}
+
+export interface AutoAbsentRule {
+  autoMarkAbsent: boolean;
+  autoMarkAbsentAfterMinutes: number;
+}
+
+export interface ClassTiming {
+  start: Date | null;
+  /** When arrivals close; null when auto-absent is off or the start is unknown */
+  cutoff: Date | null;
+}
+
+export function getClassTiming(
+  classDate: string,
+  startTime: string | null | undefined,
+  rule: AutoAbsentRule,
+): ClassTiming {
+  const start = getClassStart(classDate, startTime);
+  return {
+    start,
+    cutoff: start && rule.autoMarkAbsent ? addMinutes(start, rule.autoMarkAbsentAfterMinutes) : null,
+  };
+}
+
+/** Whether arrivals have closed: strictly after the cutoff */
+export function isPastCutoff(now: Date, cutoff: Date | null): boolean {
+  return cutoff !== null && now > cutoff;
+}
+
+export function formatTimeOfDay(iso: string): string {
+  return new Date(iso).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+}
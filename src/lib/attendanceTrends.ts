@@ -0,0 +1,102 @@
+import { format, parseISO, startOfMonth, startOfWeek } from "date-fns";
+import { attendancePercentage } from "@/lib/attendanceMath";
+
+export type TrendGranularity = "day" | "week" | "month";
+export type TrendSeriesBy = "overall" | "subject" | "section";
+
+/** One completed class with its attendance tallies */
+export interface TrendClass {
+  classDate: string;
+  subjectId: string;
+  subjectLabel: string;
+  sectionId: string;
+  sectionLabel: string;
+  attended: number;
+  total: number;
+}
+
+export interface TrendSeries {
+  key: string;
+  label: string;
+}
+
+/** A chart row: bucket label plus one percentage per series key */
+export type TrendPoint = {
+  bucket: string;
+  label: string;
+  attendance: number;
+  total: number;
+  percentage: number;
+} & Record<string, string | number | null>;
+
+function bucketStart(classDate: string, granularity: TrendGranularity): Date {
+  const date = parseISO(classDate);
+  if (granularity === "week") return startOfWeek(date, { weekStartsOn: 1 });
+  if (granularity === "month") return startOfMonth(date);
+  return date;
+}
+
+function bucketLabel(start: Date, granularity: TrendGranularity): string {
+  if (granularity === "week") return `Week of ${format(start, "MMM d")}`;
+  if (granularity === "month") return format(start, "MMM yyyy");
+  return format(start, "EEE, MMM d");
+}
+
+/**
+ * Group completed classes into day/week/month buckets. Each point carries the
+ * overall percentage plus one percentage per subject or section series; a
+ * series with no classes in a bucket is null so the chart leaves a gap.
+ */
+export function buildTrendSeries(
+  classes: TrendClass[],
+  granularity: TrendGranularity,
+  seriesBy: TrendSeriesBy,
+): { points: TrendPoint[]; series: TrendSeries[] } {
+  const seriesLabels = new Map<string, string>();
+  const buckets = new Map<
+    string,
+    { start: Date; attended: number; total: number; perSeries: Map<string, { attended: number; total: number }> }
+  >();
+
+  for (const cls of classes) {
+    const start = bucketStart(cls.classDate, granularity);
+    const key = format(start, "yyyy-MM-dd");
+    const bucket = buckets.get(key) || { start, attended: 0, total: 0, perSeries: new Map() };
+    bucket.attended += cls.attended;
+    bucket.total += cls.total;
+
+    if (seriesBy !== "overall") {
+      const seriesKey = seriesBy === "subject" ? cls.subjectId : cls.sectionId;
+      seriesLabels.set(seriesKey, seriesBy === "subject" ? cls.subjectLabel : cls.sectionLabel);
+      const tally = bucket.perSeries.get(seriesKey) || { attended: 0, total: 0 };
+      tally.attended += cls.attended;
+      tally.total += cls.total;
+      bucket.perSeries.set(seriesKey, tally);
+    }
+
+    buckets.set(key, bucket);
+  }
+
+  const series: TrendSeries[] = Array.from(seriesLabels.entries())
+    .map(([key, label]) => ({ key, label }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const points: TrendPoint[] = Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, bucket]) => {
+      const point: TrendPoint = {
+        bucket: key,
+        label: bucketLabel(bucket.start, granularity),
+        attendance: bucket.attended,
+        total: bucket.total,
+        percentage: attendancePercentage(bucket.attended, bucket.total),
+      };
+      for (const { key: seriesKey } of series) {
+        const tally = bucket.perSeries.get(seriesKey);
+        point[seriesKey] = tally && tally.total > 0 ? attendancePercentage(tally.attended, tally.total) : null;
+      }
+      return point;
+    });
+
+  return { points, series };
+}
@@ -0,0 +1,91 @@
+import type { CsvCell } from "@/lib/csv";
+
+export type BulkStudentStatus = "pending" | "uploading" | "success" | "failed" | "no_image";
+
+export interface ParsedStudent {
+  serialNo: number;
+  rollNumber: string;
+  studentName: string;
+  branch: string;
+  semester: string;
+  gender: string;
+  status: BulkStudentStatus;
+  message?: string;
+  hasImage?: boolean;
+  /** Training requests that included this student */
+  attempts?: number;
+}
+
+export interface UploadedImage {
+  /** Path inside the archive, used for matching */
+  path: string;
+  fileName: string;
+  dataUrl: string;
+}
+
+/** Students per `/api/face-training/bulk` request */
+export const TRAINING_CHUNK_SIZE = 10;
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+interface TrainingResultLike {
+  serial_no: number;
+  status: "success" | "failed";
+  message?: string;
+  error?: string;
+}
+
+/**
+ * Fold one chunk's outcome into the student list. Students that were sent but
+ * have no result (or whose whole request failed with `requestError`) fail.
+ */
+export function applyTrainingResults(
+  students: ParsedStudent[],
+  attemptedSerials: number[],
+  results: TrainingResultLike[],
+  requestError?: string,
+): ParsedStudent[] {
+  const attempted = new Set(attemptedSerials);
+  const bySerial = new Map(results.map((result) => [result.serial_no, result]));
+
+  return students.map((student) => {
+    if (!attempted.has(student.serialNo)) return student;
+
+    const result = bySerial.get(student.serialNo);
+    const attempts = (student.attempts ?? 0) + 1;
+    if (!result) {
+      return { ...student, attempts, status: "failed", message: requestError ?? "No result returned" };
+    }
+    return {
+      ...student,
+      attempts,
+      status: result.status,
+      message: result.status === "failed" ? result.message || result.error : result.message,
+    };
+  });
+}
+
+/** CSV rows for the downloadable training report */
+export function trainingReportRows(
+  students: ParsedStudent[],
+  imageCounts: Map<number, number>,
+): CsvCell[][] {
+  return [
+    ["S.No", "Roll Number", "Student Name", "Images", "Status", "Attempts", "Message"],
+    ...students.map((student) => [
+      student.serialNo,
+      student.rollNumber,
+      student.studentName,
+      imageCounts.get(student.serialNo) ?? 0,
+      student.status,
+      student.attempts ?? 0,
+      student.message,
+    ]),
+  ];
+}
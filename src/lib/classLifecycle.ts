@@ -0,0 +1,28 @@
+export type ClassStatus = "scheduled" | "in_progress" | "completed" | "cancelled";
+
+/**
+ * Allowed status changes; mirrors the `enforce_class_status_transition`
+ * trigger so the UI only offers actions the database will accept.
+ */
+export const CLASS_STATUS_TRANSITIONS: Record<ClassStatus, ClassStatus[]> = {
+  scheduled: ["in_progress", "completed", "cancelled"],
+  in_progress: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+export function canTransition(from: string, to: ClassStatus): boolean {
+  return (CLASS_STATUS_TRANSITIONS[from as ClassStatus] ?? []).includes(to);
+}
+
+/**
+ * A class is missed once its end time has passed without attendance being
+ * submitted, i.e. it is still scheduled or was started but never completed.
+ */
+export function isClassMissed(
+  cls: { class_date: string; end_time: string; status: string },
+  now: Date = new Date(),
+): boolean {
+  if (cls.status !== "scheduled" && cls.status !== "in_progress") return false;
+  return new Date(`${cls.class_date}T${cls.end_time}`) < now;
+}
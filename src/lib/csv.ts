@@ -0,0 +1,83 @@
+export type CsvCell = string | number | boolean | null | undefined;
+
+function escapeCsvCell(value: CsvCell): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows to RFC 4180 CSV (CRLF line endings, quoted where needed).
+ */
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+export function downloadCsv(fileName: string, rows: CsvCell[][]): void {
+  const blob = new Blob([toCsv(rows)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * RFC 4180 CSV parsing: quoted fields may contain commas, line breaks and
+ * doubled quotes (""), and records may end in CRLF, LF or CR. A leading UTF-8
+ * BOM (as written by Excel) is dropped, as are records that are entirely
+ * empty.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = 0;
+
+  const endField = () => {
+    record.push(field);
+    field = "";
+  };
+  const endRecord = () => {
+    endField();
+    if (record.some((value) => value.trim() !== "")) records.push(record);
+    record = [];
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\r" || char === "\n") {
+      endRecord();
+      if (char === "\r" && input[i + 1] === "\n") i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (field !== "" || record.length > 0) endRecord();
+  return records;
+}
@@ -0,0 +1,76 @@
+/**
+ * Nearest-neighbour matching of face embeddings against a section's stored
+ * embeddings, for on-device recognition.
+ */
+
+export interface GalleryEntry {
+  studentId: string;
+  rollNumber: string;
+  studentName: string;
+  /** Unit-length embedding */
+  embedding: Float32Array;
+}
+
+export interface FaceMatch {
+  /** Index of the query face */
+  faceIndex: number;
+  entry: GalleryEntry;
+  /** Cosine similarity, -1 to 1 */
+  similarity: number;
+}
+
+export function normalizeEmbedding(values: ArrayLike<number>): Float32Array {
+  const vector = Float32Array.from(values);
+  let sumSquares = 0;
+  for (let i = 0; i < vector.length; i++) sumSquares += vector[i] * vector[i];
+  const length = Math.sqrt(sumSquares) || 1;
+  for (let i = 0; i < vector.length; i++) vector[i] /= length;
+  return vector;
+}
+
+/** Dot product, i.e. cosine similarity for unit vectors */
+export function similarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Match each face to its nearest student at or above `threshold`. A student
+ * is matched at most once per frame: pairs are taken best-first, so two faces
+ * that both resemble one student don't both get marked as them.
+ */
+export function matchFaces(
+  faces: Float32Array[],
+  gallery: GalleryEntry[],
+  threshold: number,
+): FaceMatch[] {
+  const pairs: FaceMatch[] = [];
+  faces.forEach((face, faceIndex) => {
+    for (const entry of gallery) {
+      const score = similarity(face, entry.embedding);
+      if (score >= threshold) pairs.push({ faceIndex, entry, similarity: score });
+    }
+  });
+  pairs.sort((a, b) => b.similarity - a.similarity);
+
+  const usedFaces = new Set<number>();
+  const usedStudents = new Set<string>();
+  const matches: FaceMatch[] = [];
+  for (const pair of pairs) {
+    if (usedFaces.has(pair.faceIndex) || usedStudents.has(pair.entry.studentId)) continue;
+    usedFaces.add(pair.faceIndex);
+    usedStudents.add(pair.entry.studentId);
+    matches.push(pair);
+  }
+  return matches.sort((a, b) => a.faceIndex - b.faceIndex);
+}
+
+/**
+ * Map a similarity to the 0-1 confidence the attendance vote uses: the match
+ * threshold maps to 0.5 and a perfect match to 1.
+ */
+export function similarityToConfidence(score: number, threshold: number): number {
+  if (score < threshold) return 0;
+  return Math.min(0.5 + ((score - threshold) / (1 - threshold)) * 0.5, 1);
+}
@@ -0,0 +1,148 @@
+/**
+ * Face detection for capture checks and on-device recognition. Uses the
+ * browser's built-in FaceDetector (Shape Detection API) where it exists, which
+ * is mostly Chromium on Android and macOS; everywhere else the bundled Tiny
+ * Face Detector from @vladmandic/face-api (~190 KB of weights, loaded on first
+ * use) takes over. Detection reports null only if neither can run.
+ */
+
+/** Face bounding box in pixels of the source image */
+export interface PixelBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+interface BrowserFaceDetector {
+  detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => BrowserFaceDetector;
+
+/** Enough for a classroom frame */
+const MAX_DETECTED_FACES = 30;
+
+let detector: BrowserFaceDetector | null | undefined;
+
+function getFaceDetector(): BrowserFaceDetector | null {
+  if (detector === undefined) {
+    const FaceDetector = (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+    try {
+      detector = FaceDetector ? new FaceDetector({ fastMode: true, maxDetectedFaces: MAX_DETECTED_FACES }) : null;
+    } catch {
+      detector = null;
+    }
+  }
+  return detector;
+}
+
+// ============================================================
+// Bundled fallback
+// ============================================================
+
+type FallbackInput = HTMLCanvasElement | HTMLVideoElement | HTMLImageElement;
+
+/** Square input the fallback detector resizes to; larger finds smaller faces */
+const FALLBACK_INPUT_SIZE = 416;
+const FALLBACK_SCORE_THRESHOLD = 0.5;
+
+let fallbackPromise: Promise<(input: FallbackInput) => Promise<PixelBox[]>> | null = null;
+let fallbackFailed = false;
+
+function loadFallbackDetector() {
+  fallbackPromise ??= (async () => {
+    const [faceapi, { default: manifest }, { default: weightsUrl }] = await Promise.all([
+      import("@vladmandic/face-api"),
+      import("@vladmandic/face-api/model/tiny_face_detector_model-weights_manifest.json"),
+      import("@vladmandic/face-api/model/tiny_face_detector_model.bin?url"),
+    ]);
+
+    const response = await fetch(weightsUrl);
+    if (!response.ok) throw new Error(`Face detector weights answered ${response.status}`);
+    const specs = manifest[0].weights as Parameters<typeof faceapi.tf.io.decodeWeights>[1];
+    faceapi.nets.tinyFaceDetector.loadFromWeightMap(
+      faceapi.tf.io.decodeWeights(await response.arrayBuffer(), specs),
+    );
+
+    const options = new faceapi.TinyFaceDetectorOptions({
+      inputSize: FALLBACK_INPUT_SIZE,
+      scoreThreshold: FALLBACK_SCORE_THRESHOLD,
+    });
+    return async (input: FallbackInput) =>
+      (await faceapi.detectAllFaces(input, options)).map(({ box }) => ({
+        x: box.x,
+        y: box.y,
+        width: box.width,
+        height: box.height,
+      }));
+  })().catch((error) => {
+    console.error("Couldn't load the bundled face detector:", error);
+    fallbackFailed = true;
+    throw error;
+  });
+  return fallbackPromise;
+}
+
+let fallbackCanvas: HTMLCanvasElement | null = null;
+
+/** The fallback reads DOM images only, so bitmaps are drawn onto a canvas first */
+function toFallbackInput(image: ImageBitmapSource): FallbackInput | null {
+  if (
+    image instanceof HTMLCanvasElement ||
+    image instanceof HTMLVideoElement ||
+    image instanceof HTMLImageElement
+  ) {
+    return image;
+  }
+  if (typeof ImageBitmap !== "undefined" && image instanceof ImageBitmap) {
+    fallbackCanvas ??= document.createElement("canvas");
+    fallbackCanvas.width = image.width;
+    fallbackCanvas.height = image.height;
+    fallbackCanvas.getContext("2d")?.drawImage(image, 0, 0);
+    return fallbackCanvas;
+  }
+  return null;
+}
+
+// ============================================================
+// Detection
+// ============================================================
+
+/**
+ * Whether faces can be detected in this browser. True until the bundled
+ * detector has actually failed to load.
+ */
+export function isFaceDetectionSupported(): boolean {
+  return getFaceDetector() !== null || (typeof document !== "undefined" && !fallbackFailed);
+}
+
+/**
+ * Faces in an image, or null when detection isn't available or fails
+ */
+export async function detectFaces(image: ImageBitmapSource): Promise<PixelBox[] | null> {
+  const faceDetector = getFaceDetector();
+
+  try {
+    if (faceDetector) {
+      return (await faceDetector.detect(image)).map(({ boundingBox }) => ({
+        x: boundingBox.x,
+        y: boundingBox.y,
+        width: boundingBox.width,
+        height: boundingBox.height,
+      }));
+    }
+
+    if (!isFaceDetectionSupported()) return null;
+    const input = toFallbackInput(image);
+    if (!input) return null;
+    const detect = await loadFallbackDetector();
+    return await detect(input);
+  } catch {
+    return null;
+  }
+}
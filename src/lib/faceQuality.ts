@@ -0,0 +1,299 @@
+/**
+ * In-browser quality gate for face training captures: sharpness (variance of
+ * the Laplacian), exposure, face size and position, and near-duplicates of
+ * earlier captures (difference hash). Faces are found with lib/faceDetector;
+ * if no detector can run, the face checks are skipped, not failed.
+ */
+
+import { detectFaces } from "@/lib/faceDetector";
+
+export interface GrayImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+/** Pixel rectangle within a GrayImage */
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Face bounding box as fractions (0-1) of the frame */
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type QualityIssue =
+  | "no_face"
+  | "multiple_faces"
+  | "face_too_small"
+  | "face_too_close"
+  | "off_centre"
+  | "too_dark"
+  | "too_bright"
+  | "blurry"
+  | "duplicate";
+
+export interface FrameMeasurements {
+  /** Variance of the Laplacian over the face (or whole frame) */
+  sharpness: number;
+  /** Mean luminance, 0-255 */
+  brightness: number;
+  /** Detected faces, or null when no detector is available */
+  faces: FaceBox[] | null;
+  /** Difference hash of the face (or whole frame) */
+  hash: string;
+}
+
+export interface FaceQuality {
+  /** 0-100 */
+  score: number;
+  issues: QualityIssue[];
+  acceptable: boolean;
+  /** What the student should do next */
+  prompt: string;
+  /** False when the face checks were skipped */
+  faceChecked: boolean;
+  hash: string;
+}
+
+export const MIN_SHARPNESS = 80;
+export const MIN_BRIGHTNESS = 70;
+export const MAX_BRIGHTNESS = 200;
+/** Face width as a fraction of the frame */
+export const MIN_FACE_WIDTH = 0.2;
+export const MAX_FACE_WIDTH = 0.7;
+/** Largest allowed distance of the face centre from the frame centre */
+export const MAX_CENTRE_OFFSET = 0.2;
+/** Hashes this close (out of 64 bits) count as the same shot */
+export const DUPLICATE_DISTANCE = 5;
+
+/** Sample size the frame is scaled to before measuring */
+const SAMPLE_WIDTH = 320;
+
+export const POSE_PROMPTS = [
+  "Look straight at the camera",
+  "Turn slightly left",
+  "Turn slightly right",
+  "Tilt your chin up a little",
+  "Tilt your chin down a little",
+];
+
+/** Pose to ask for next, cycling so captures cover different angles */
+export function nextPosePrompt(captureCount: number): string {
+  return POSE_PROMPTS[captureCount % POSE_PROMPTS.length];
+}
+
+const ISSUE_PROMPTS: Record<QualityIssue, string> = {
+  no_face: "No face found. Look at the camera",
+  multiple_faces: "Only the student should be in frame",
+  face_too_small: "Move closer to the camera",
+  face_too_close: "Move back a little",
+  off_centre: "Centre your face in the circle",
+  too_dark: "Too dark. Face a window or turn on a light",
+  too_bright: "Too bright. Move out of direct light",
+  blurry: "Blurry shot. Hold still",
+  duplicate: "Same as an earlier shot",
+};
+
+export function toGrayscale(rgba: Uint8ClampedArray, width: number, height: number): GrayImage {
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return { data, width, height };
+}
+
+const fullRegion = (image: GrayImage): Region => ({ x: 0, y: 0, width: image.width, height: image.height });
+
+export function meanBrightness(image: GrayImage, region: Region = fullRegion(image)): number {
+  let sum = 0;
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      sum += image.data[y * image.width + x];
+    }
+  }
+  return sum / Math.max(region.width * region.height, 1);
+}
+
+/** Variance of the 4-neighbour Laplacian; low values mean a blurry image */
+export function laplacianVariance(image: GrayImage, region: Region = fullRegion(image)): number {
+  const { data, width } = image;
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = Math.max(region.y, 1); y < Math.min(region.y + region.height, image.height - 1); y++) {
+    for (let x = Math.max(region.x, 1); x < Math.min(region.x + region.width, width - 1); x++) {
+      const i = y * width + x;
+      const value = 4 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/** 64-bit difference hash (9x8 grid, left vs right neighbour) as a bit string */
+export function differenceHash(image: GrayImage, region: Region = fullRegion(image)): string {
+  const cols = 9;
+  const rows = 8;
+  const grid: number[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    const y0 = region.y + Math.floor((row * region.height) / rows);
+    const y1 = Math.max(region.y + Math.floor(((row + 1) * region.height) / rows), y0 + 1);
+    for (let col = 0; col < cols; col++) {
+      const x0 = region.x + Math.floor((col * region.width) / cols);
+      const x1 = Math.max(region.x + Math.floor(((col + 1) * region.width) / cols), x0 + 1);
+      grid.push(meanBrightness(image, { x: x0, y: y0, width: x1 - x0, height: y1 - y0 }));
+    }
+  }
+
+  let bits = "";
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols - 1; col++) {
+      bits += grid[row * cols + col] > grid[row * cols + col + 1] ? "1" : "0";
+    }
+  }
+  return bits;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = Math.abs(a.length - b.length);
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) distance++;
+  }
+  return distance;
+}
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * Score a capture and decide whether to keep it. Every issue blocks the
+ * capture; the prompt names the first one, or the next pose when it's fine.
+ */
+export function assessFaceQuality(measurements: FrameMeasurements, previousHashes: string[]): FaceQuality {
+  const { sharpness, brightness, faces, hash } = measurements;
+  const issues: QualityIssue[] = [];
+  let faceScore = 1;
+
+  if (faces) {
+    if (faces.length === 0) {
+      issues.push("no_face");
+      faceScore = 0;
+    } else if (faces.length > 1) {
+      issues.push("multiple_faces");
+      faceScore = 0;
+    } else {
+      const [face] = faces;
+      const offset = Math.hypot(face.x + face.width / 2 - 0.5, face.y + face.height / 2 - 0.5);
+      if (face.width < MIN_FACE_WIDTH) issues.push("face_too_small");
+      if (face.width > MAX_FACE_WIDTH) issues.push("face_too_close");
+      if (offset > MAX_CENTRE_OFFSET) issues.push("off_centre");
+
+      const sizeScore = face.width < MIN_FACE_WIDTH
+        ? face.width / MIN_FACE_WIDTH
+        : face.width > MAX_FACE_WIDTH
+          ? clamp01((1 - face.width) / (1 - MAX_FACE_WIDTH))
+          : 1;
+      faceScore = (sizeScore + (1 - clamp01(offset / 0.5))) / 2;
+    }
+  }
+
+  if (brightness < MIN_BRIGHTNESS) issues.push("too_dark");
+  if (brightness > MAX_BRIGHTNESS) issues.push("too_bright");
+  if (sharpness < MIN_SHARPNESS) issues.push("blurry");
+
+  const nearest = previousHashes.reduce(
+    (min, previous) => Math.min(min, hammingDistance(hash, previous)),
+    Infinity,
+  );
+  if (nearest <= DUPLICATE_DISTANCE) issues.push("duplicate");
+
+  const sharpnessScore = clamp01(sharpness / (MIN_SHARPNESS * 2));
+  const exposureScore = brightness < MIN_BRIGHTNESS
+    ? brightness / MIN_BRIGHTNESS
+    : brightness > MAX_BRIGHTNESS
+      ? (255 - brightness) / (255 - MAX_BRIGHTNESS)
+      : 1;
+  const uniquenessScore = clamp01(nearest / (DUPLICATE_DISTANCE * 3));
+
+  const score = Math.round(
+    100 * (0.35 * sharpnessScore + 0.25 * clamp01(exposureScore) + 0.25 * faceScore + 0.15 * uniquenessScore),
+  );
+
+  const pose = nextPosePrompt(previousHashes.length + (issues.length === 0 ? 1 : 0));
+  const prompt = issues.length === 0
+    ? pose
+    : issues[0] === "duplicate"
+      ? `${ISSUE_PROMPTS.duplicate}. ${pose}`
+      : ISSUE_PROMPTS[issues[0]];
+
+  return {
+    score,
+    issues,
+    acceptable: issues.length === 0,
+    prompt,
+    faceChecked: faces !== null,
+    hash,
+  };
+}
+
+// ============================================================
+// Browser measurement
+// ============================================================
+
+/**
+ * Measure a captured frame. Sharpness and the hash are taken over the face
+ * when exactly one is found, so background detail doesn't mask a blurry face.
+ */
+export async function measureFrame(frame: HTMLCanvasElement): Promise<FrameMeasurements> {
+  const scale = Math.min(1, SAMPLE_WIDTH / frame.width);
+  const sample = document.createElement("canvas");
+  sample.width = Math.max(Math.round(frame.width * scale), 1);
+  sample.height = Math.max(Math.round(frame.height * scale), 1);
+  const context = sample.getContext("2d");
+  if (!context) throw new Error("Canvas is not available");
+  context.drawImage(frame, 0, 0, sample.width, sample.height);
+
+  const { data } = context.getImageData(0, 0, sample.width, sample.height);
+  const gray = toGrayscale(data, sample.width, sample.height);
+
+  const faces = (await detectFaces(frame))?.map((box) => ({
+    x: box.x / frame.width,
+    y: box.y / frame.height,
+    width: box.width / frame.width,
+    height: box.height / frame.height,
+  })) ?? null;
+
+  const region = faces?.length === 1 ? toRegion(faces[0], gray) : undefined;
+
+  return {
+    sharpness: laplacianVariance(gray, region),
+    brightness: meanBrightness(gray),
+    faces,
+    hash: differenceHash(gray, region),
+  };
+}
+
+function toRegion(face: FaceBox, image: GrayImage): Region {
+  const x = Math.max(Math.floor(face.x * image.width), 0);
+  const y = Math.max(Math.floor(face.y * image.height), 0);
+  return {
+    x,
+    y,
+    width: Math.max(Math.min(Math.ceil(face.width * image.width), image.width - x), 1),
+    height: Math.max(Math.min(Math.ceil(face.height * image.height), image.height - y), 1),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Deterministic stand-in embeddings for the mock face provider: the same input
+ * always maps to the same unit vector, so demo and test runs are repeatable.
+ */
+
+export const FAKE_EMBEDDING_SIZE = 16;
+
+/** 32-bit FNV-1a */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32, returning floats in [0, 1) */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.hypot(...vector) || 1;
+  return vector.map((value) => value / length);
+}
+
+export function fakeEmbedding(seed: string): number[] {
+  const random = seededRandom(hashString(seed));
+  return normalize(Array.from({ length: FAKE_EMBEDDING_SIZE }, () => random() * 2 - 1));
+}
+
+/** Normalised mean, e.g. of one student's training images */
+export function averageEmbedding(embeddings: number[][]): number[] {
+  const sum = new Array<number>(FAKE_EMBEDDING_SIZE).fill(0);
+  for (const embedding of embeddings) {
+    embedding.forEach((value, i) => {
+      sum[i] += value;
+    });
+  }
+  return normalize(sum);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) dot += a[i] * b[i];
+  return dot / ((Math.hypot(...a) || 1) * (Math.hypot(...b) || 1));
+}
@@ -0,0 +1,91 @@
+import type { RecognizedFace } from "@/services/faceRecognitionApi";
+
+/**
+ * Accumulated sightings of one student across recognition frames.
+ */
+export interface FaceVote {
+  studentId: string;
+  rollNumber: string;
+  studentName: string;
+  hits: number;
+  confidenceSum: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export type FaceVoteMap = Record<string, FaceVote>;
+
+export interface VoteCriteria {
+  /** Number of frames a student must appear in */
+  minHits: number;
+  /** Mean confidence (0-1) the student's sightings must reach */
+  minConfidence: number;
+}
+
+/**
+ * Fold one frame's recognized faces into the running vote tally.
+ * A student matched more than once in the same frame only counts once,
+ * using the best confidence.
+ */
+export function addFrameVotes(
+  votes: FaceVoteMap,
+  faces: RecognizedFace[],
+  seenAt: string = new Date().toISOString(),
+): FaceVoteMap {
+  const bestPerStudent = new Map<string, RecognizedFace>();
+  for (const face of faces) {
+    const current = bestPerStudent.get(face.student_id);
+    if (!current || face.confidence > current.confidence) {
+      bestPerStudent.set(face.student_id, face);
+    }
+  }
+
+  const next: FaceVoteMap = { ...votes };
+  bestPerStudent.forEach((face, studentId) => {
+    const existing = next[studentId];
+    next[studentId] = existing
+      ? {
+          ...existing,
+          hits: existing.hits + 1,
+          confidenceSum: existing.confidenceSum + face.confidence,
+          lastSeenAt: seenAt,
+        }
+      : {
+          studentId,
+          rollNumber: face.roll_number,
+          studentName: face.student_name,
+          hits: 1,
+          confidenceSum: face.confidence,
+          firstSeenAt: seenAt,
+          lastSeenAt: seenAt,
+        };
+  });
+
+  return next;
+}
+
+export function meanConfidence(vote: FaceVote): number {
+  return vote.hits > 0 ? vote.confidenceSum / vote.hits : 0;
+}
+
+export function isVoteConfirmed(vote: FaceVote | undefined, criteria: VoteCriteria): boolean {
+  if (!vote) return false;
+  return vote.hits >= criteria.minHits && meanConfidence(vote) >= criteria.minConfidence;
+}
+
+/**
+ * Split votes into students that meet the criteria and those still tentative.
+ */
+export function partitionVotes(
+  votes: FaceVoteMap,
+  criteria: VoteCriteria,
+): { confirmed: FaceVote[]; tentative: FaceVote[] } {
+  const confirmed: FaceVote[] = [];
+  const tentative: FaceVote[] = [];
+
+  for (const vote of Object.values(votes)) {
+    (isVoteConfirmed(vote, criteria) ? confirmed : tentative).push(vote);
+  }
+
+  return { confirmed, tentative };
+}
@@ -0,0 +1,140 @@
+export type StudentField = "serialNo" | "rollNumber" | "studentName" | "branch" | "semester" | "gender";
+
+export const STUDENT_FIELD_LABELS: Record<StudentField, string> = {
+  serialNo: "S.No",
+  rollNumber: "Roll Number",
+  studentName: "Student Name",
+  branch: "Branch",
+  semester: "Semester",
+  gender: "Gender",
+};
+
+export const REQUIRED_STUDENT_FIELDS: StudentField[] = ["rollNumber", "studentName"];
+
+/** Column index in the uploaded sheet for each field, or null if unmapped */
+export type ColumnMapping = Record<StudentField, number | null>;
+
+export interface ImportRow {
+  /** Line in the file, counting the header as line 1 */
+  rowNumber: number;
+  serialNo: number;
+  rollNumber: string;
+  studentName: string;
+  branch: string;
+  semester: string;
+  gender: string;
+}
+
+export interface ImportRowResult {
+  row: ImportRow;
+  errors: string[];
+  warnings: string[];
+}
+
+/** Where a roll number is already registered */
+export interface ExistingRollNumber {
+  sectionId: string;
+  sectionName: string;
+}
+
+const HEADER_ALIASES: Record<StudentField, string[]> = {
+  serialNo: ["sno", "serial", "serialno", "slno", "no"],
+  rollNumber: ["rollno", "rollnumber", "roll", "regno", "registrationnumber", "admissionno"],
+  studentName: ["studentname", "name", "fullname"],
+  branch: ["branch", "department", "dept"],
+  semester: ["semester", "sem"],
+  gender: ["gender", "sex"],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Best-guess mapping from header names. Exact alias matches win over partial
+ * ones, and each column is used for at most one field.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  for (const field of Object.keys(HEADER_ALIASES) as StudentField[]) {
+    const aliases = HEADER_ALIASES[field];
+    let index = normalized.findIndex((header, i) => !used.has(i) && aliases.includes(header));
+    if (index === -1) {
+      index = normalized.findIndex(
+        (header, i) => !used.has(i) && aliases.some((alias) => alias.length > 2 && header.includes(alias)),
+      );
+    }
+    mapping[field] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  }
+
+  return mapping;
+}
+
+/**
+ * Turn the data rows of a parsed sheet (header excluded) into import rows.
+ * Serial numbers fall back to the row's position when unmapped or invalid.
+ */
+export function mapImportRows(dataRows: string[][], mapping: ColumnMapping): ImportRow[] {
+  const cell = (values: string[], field: StudentField) => {
+    const index = mapping[field];
+    return index === null ? "" : (values[index] ?? "").trim();
+  };
+
+  return dataRows.map((values, i) => ({
+    rowNumber: i + 2,
+    serialNo: parseInt(cell(values, "serialNo"), 10) || i + 1,
+    rollNumber: cell(values, "rollNumber"),
+    studentName: cell(values, "studentName"),
+    branch: cell(values, "branch"),
+    semester: cell(values, "semester"),
+    gender: cell(values, "gender"),
+  }));
+}
+
+/**
+ * Per-row problems. Errors block the row from being imported; warnings don't.
+ * `existing` maps roll numbers already in the database to their section.
+ */
+export function validateImportRows(
+  rows: ImportRow[],
+  existing: Map<string, ExistingRollNumber>,
+  targetSectionId: string,
+): ImportRowResult[] {
+  const firstRowByRoll = new Map<string, number>();
+  const firstRowBySerial = new Map<number, number>();
+  for (const row of rows) {
+    const roll = row.rollNumber.toUpperCase();
+    if (roll && !firstRowByRoll.has(roll)) firstRowByRoll.set(roll, row.rowNumber);
+    if (!firstRowBySerial.has(row.serialNo)) firstRowBySerial.set(row.serialNo, row.rowNumber);
+  }
+
+  return rows.map((row) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const roll = row.rollNumber.toUpperCase();
+
+    if (!row.rollNumber) errors.push("Missing roll number");
+    if (!row.studentName) errors.push("Missing name");
+
+    const firstRollRow = firstRowByRoll.get(roll);
+    if (roll && firstRollRow !== row.rowNumber) {
+      errors.push(`Duplicate roll number (first on row ${firstRollRow})`);
+    }
+
+    const firstSerialRow = firstRowBySerial.get(row.serialNo);
+    if (firstSerialRow !== row.rowNumber) {
+      errors.push(`Duplicate S.No (first on row ${firstSerialRow})`);
+    }
+
+    const registered = existing.get(roll);
+    if (registered && registered.sectionId !== targetSectionId) {
+      errors.push(`Already registered in section ${registered.sectionName}`);
+    } else if (registered) {
+      warnings.push("Already registered in this section");
+    }
+
+    return { row, errors, warnings };
+  });
+}
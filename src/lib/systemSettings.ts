@@ -0,0 +1,70 @@
+export interface SystemSettings {
+  attendanceThreshold: number;
+  faceConfidenceThreshold: number;
+  recognitionMinFrames: number;
+  autoMarkAbsent: boolean;
+  autoMarkAbsentAfterMinutes: number;
+  lateGracePeriodMinutes: number;
+  emailNotifications: boolean;
+  lowAttendanceAlertThreshold: number;
+  /** Minimum attendance (%) per department id, overriding `attendanceThreshold` */
+  departmentThresholds: Record<string, number>;
+}
+
+export type SystemSettingKey = keyof SystemSettings;
+
+export const DEFAULT_SYSTEM_SETTINGS: SystemSettings = {
+  attendanceThreshold: 75,
+  faceConfidenceThreshold: 80,
+  recognitionMinFrames: 3,
+  autoMarkAbsent: true,
+  autoMarkAbsentAfterMinutes: 30,
+  lateGracePeriodMinutes: 10,
+  emailNotifications: true,
+  lowAttendanceAlertThreshold: 60,
+  departmentThresholds: {},
+};
+
+export const SYSTEM_SETTING_LABELS: Record<SystemSettingKey, string> = {
+  attendanceThreshold: "Minimum attendance requirement",
+  faceConfidenceThreshold: "Minimum face confidence",
+  recognitionMinFrames: "Frames required before auto-marking",
+  autoMarkAbsent: "Auto-mark absent",
+  autoMarkAbsentAfterMinutes: "Mark absent after (minutes)",
+  lateGracePeriodMinutes: "Late arrival grace period",
+  emailNotifications: "Email notifications",
+  lowAttendanceAlertThreshold: "Low attendance alert threshold",
+  departmentThresholds: "Department overrides",
+};
+
+export function isSystemSettingKey(key: string): key is SystemSettingKey {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_SYSTEM_SETTINGS, key);
+}
+
+/**
+ * Build settings from `system_settings` rows. Unknown keys are ignored and
+ * values whose type doesn't match the default fall back to the default, so a
+ * bad row can't break every page that reads settings.
+ */
+export function settingsFromRows(rows: { key: string; value: unknown }[]): SystemSettings {
+  const settings: SystemSettings = { ...DEFAULT_SYSTEM_SETTINGS };
+  for (const { key, value } of rows) {
+    if (!isSystemSettingKey(key)) continue;
+    const fallback = DEFAULT_SYSTEM_SETTINGS[key];
+    const matches =
+      typeof fallback === "object"
+        ? typeof value === "object" && value !== null && !Array.isArray(value)
+        : typeof value === typeof fallback;
+    if (matches) {
+      (settings as Record<SystemSettingKey, unknown>)[key] = value;
+    }
+  }
+  return settings;
+}
+
+/** Keys whose values differ between two settings objects */
+export function changedSettingKeys(previous: SystemSettings, next: SystemSettings): SystemSettingKey[] {
+  return (Object.keys(DEFAULT_SYSTEM_SETTINGS) as SystemSettingKey[]).filter(
+    (key) => JSON.stringify(previous[key]) !== JSON.stringify(next[key]),
+  );
+}
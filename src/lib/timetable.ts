@@ -0,0 +1,28 @@
+import { addDays, format, getDay, parseISO } from "date-fns";
+
+/** Weekday labels indexed like `Date.getDay()` (0 = Sunday) */
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/**
+ * Every date in [termStart, termEnd] that falls on `weekday`, skipping the
+ * excluded dates. All dates are `yyyy-MM-dd` strings.
+ */
+export function generateOccurrenceDates(
+  weekday: number,
+  termStart: string,
+  termEnd: string,
+  excludedDates: string[] = [],
+): string[] {
+  const excluded = new Set(excludedDates);
+  const end = parseISO(termEnd);
+  let date = parseISO(termStart);
+  date = addDays(date, (weekday - getDay(date) + 7) % 7);
+
+  const dates: string[] = [];
+  while (date <= end) {
+    const key = format(date, "yyyy-MM-dd");
+    if (!excluded.has(key)) dates.push(key);
+    date = addDays(date, 7);
+  }
+  return dates;
+}
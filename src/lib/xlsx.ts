@@ -0,0 +1,146 @@
+import type { CellValue, Workbook } from "exceljs";
+
+/**
+ * Excel (.xlsx) reading and writing. exceljs is loaded on first use so it
+ * stays out of the main bundle, like jszip for ZIP uploads.
+ */
+
+export type XlsxColumnType = "text" | "number" | "percent" | "date" | "datetime";
+
+export interface XlsxColumn {
+  header: string;
+  type: XlsxColumnType;
+  width?: number;
+}
+
+/**
+ * `date` cells take "YYYY-MM-DD" strings, `datetime` cells ISO timestamps,
+ * and `percent` cells fractions (0.75 for 75%).
+ */
+export type XlsxCell = string | number | Date | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCell[][];
+}
+
+export interface WorkbookSheet {
+  name: string;
+  /** Every cell as text, header row first */
+  rows: string[][];
+}
+
+const NUM_FMT: Record<XlsxColumnType, string | undefined> = {
+  // Keeps roll numbers like 0042 from turning into 42
+  text: "@",
+  number: undefined,
+  percent: "0.0%",
+  date: "yyyy-mm-dd",
+  datetime: "yyyy-mm-dd hh:mm",
+};
+
+// Sheet names are limited to 31 characters and can't contain []:*?/\
+const safeSheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, "-").slice(0, 31) || "Sheet1";
+
+async function createWorkbook(): Promise<Workbook> {
+  const ExcelJS = await import("exceljs");
+  return new ExcelJS.Workbook();
+}
+
+function toCellValue(value: XlsxCell, type: XlsxColumnType): CellValue {
+  if (value === null || value === undefined || value === "") return null;
+  if (value instanceof Date) return value;
+
+  switch (type) {
+    case "text":
+      return String(value);
+    case "number":
+    case "percent":
+      return typeof value === "number" ? value : Number(value);
+    case "date": {
+      // Midnight UTC so the calendar day doesn't shift with the viewer's zone
+      const [year, month, day] = String(value).slice(0, 10).split("-").map(Number);
+      return new Date(Date.UTC(year, month - 1, day));
+    }
+    case "datetime":
+      return new Date(value);
+  }
+}
+
+/**
+ * Build an .xlsx file with a bold, frozen header row and typed columns
+ */
+export async function buildXlsx(sheets: XlsxSheet[]): Promise<ArrayBuffer> {
+  const workbook = await createWorkbook();
+
+  for (const sheet of sheets) {
+    const worksheet = workbook.addWorksheet(safeSheetName(sheet.name), {
+      views: [{ state: "frozen", ySplit: 1 }],
+    });
+    worksheet.columns = sheet.columns.map((column) => ({
+      header: column.header,
+      width: column.width ?? Math.max(12, column.header.length + 2),
+      style: NUM_FMT[column.type] ? { numFmt: NUM_FMT[column.type] } : {},
+    }));
+    worksheet.getRow(1).font = { bold: true };
+
+    for (const row of sheet.rows) {
+      worksheet.addRow(row.map((value, i) => toCellValue(value, sheet.columns[i]?.type ?? "text")));
+    }
+  }
+
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+}
+
+export async function downloadXlsx(fileName: string, sheets: XlsxSheet[]): Promise<void> {
+  const buffer = await buildXlsx(sheets);
+  const blob = new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function cellToString(value: CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value === "object") {
+    if ("richText" in value) return value.richText.map((part) => part.text).join("");
+    if ("text" in value) return String(value.text);
+    if ("result" in value) return cellToString(value.result as CellValue);
+    if ("error" in value) return "";
+  }
+  return String(value);
+}
+
+/**
+ * Every worksheet as rows of text, trimmed to the used range. Blank rows are
+ * dropped, matching `parseCsv`.
+ */
+export async function readXlsxSheets(data: ArrayBuffer): Promise<WorkbookSheet[]> {
+  const workbook = await createWorkbook();
+  await workbook.xlsx.load(data);
+
+  return workbook.worksheets.map((worksheet) => {
+    const rows: string[][] = [];
+    const columnCount = worksheet.columnCount;
+
+    worksheet.eachRow({ includeEmpty: false }, (row) => {
+      const values: string[] = [];
+      for (let c = 1; c <= columnCount; c++) {
+        values.push(cellToString(row.getCell(c).value).trim());
+      }
+      if (values.some((value) => value !== "")) rows.push(values);
+    });
+
+    return { name: worksheet.name, rows };
+  });
+}
@@ -0,0 +1,111 @@
+export type ImageMatchRule = "folder" | "roll_number" | "serial_no";
+
+export interface MatchableStudent {
+  serialNo: number;
+  rollNumber: string;
+}
+
+export interface ImageMatchResult {
+  /** serialNo -> matched image paths, in archive order */
+  imagesBySerial: Map<number, string[]>;
+  /** How each matched path was assigned */
+  ruleByPath: Map<string, ImageMatchRule>;
+  /** Image files that didn't match any student */
+  unmatchedFiles: string[];
+  /** Students with no matching image */
+  studentsWithoutImages: MatchableStudent[];
+}
+
+const IMAGE_EXTENSION = /\.(jpe?g|png|webp)$/i;
+
+/** Image entries worth matching; skips macOS metadata and hidden files */
+export function isMatchableImagePath(path: string): boolean {
+  const segments = path.split("/");
+  const fileName = segments[segments.length - 1];
+  return (
+    IMAGE_EXTENSION.test(fileName) &&
+    !fileName.startsWith(".") &&
+    !segments.some((segment) => segment === "__MACOSX")
+  );
+}
+
+const normalize = (value: string) => value.trim().toUpperCase();
+
+/**
+ * Split "21CS045_2" / "21CS045 (2)" / "21CS045-front" into candidate keys,
+ * longest first, so a roll number that itself contains a dash still matches
+ */
+function stemCandidates(stem: string): string[] {
+  const candidates = [stem];
+  const separator = /[_\-\s(.]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(stem)) !== null) {
+    if (match.index > 0) candidates.push(stem.slice(0, match.index));
+  }
+  return Array.from(new Set(candidates.map(normalize))).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Match archive image paths to students. Rules, in order:
+ * 1. a parent folder named after the roll number (or S.No), nearest first
+ * 2. a file name that is, or starts with, the roll number
+ * 3. a file name that is, or starts with, the S.No (the original `1.jpg` layout)
+ */
+export function matchZipImages(paths: string[], students: MatchableStudent[]): ImageMatchResult {
+  const byRoll = new Map<string, MatchableStudent>();
+  const bySerial = new Map<string, MatchableStudent>();
+  for (const student of students) {
+    if (student.rollNumber) byRoll.set(normalize(student.rollNumber), student);
+    bySerial.set(String(student.serialNo), student);
+  }
+
+  const imagesBySerial = new Map<number, string[]>();
+  const ruleByPath = new Map<string, ImageMatchRule>();
+  const unmatchedFiles: string[] = [];
+
+  for (const path of paths.filter(isMatchableImagePath)) {
+    const segments = path.split("/").filter(Boolean);
+    const fileName = segments.pop() ?? "";
+    const stem = fileName.replace(IMAGE_EXTENSION, "");
+
+    let student: MatchableStudent | undefined;
+    let rule: ImageMatchRule | undefined;
+
+    for (const folder of [...segments].reverse()) {
+      student = byRoll.get(normalize(folder)) ?? bySerial.get(folder.trim());
+      if (student) {
+        rule = "folder";
+        break;
+      }
+    }
+
+    if (!student) {
+      const candidates = stemCandidates(stem);
+      const rollKey = candidates.find((candidate) => byRoll.has(candidate));
+      if (rollKey) {
+        student = byRoll.get(rollKey);
+        rule = "roll_number";
+      } else {
+        const serialKey = candidates.find((candidate) => /^\d+$/.test(candidate) && bySerial.has(String(Number(candidate))));
+        if (serialKey) {
+          student = bySerial.get(String(Number(serialKey)));
+          rule = "serial_no";
+        }
+      }
+    }
+
+    if (student && rule) {
+      imagesBySerial.set(student.serialNo, [...(imagesBySerial.get(student.serialNo) ?? []), path]);
+      ruleByPath.set(path, rule);
+    } else {
+      unmatchedFiles.push(path);
+    }
+  }
+
+  return {
+    imagesBySerial,
+    ruleByPath,
+    unmatchedFiles,
+    studentsWithoutImages: students.filter((student) => !imagesBySerial.has(student.serialNo)),
+  };
+}
@@ -0,0 +1,366 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAcademicCalendar } from "@/hooks/useAcademicCalendar";
+import {
+  deleteAcademicTerm,
+  deleteCalendarEvent,
+  saveAcademicTerm,
+  saveCalendarEvent,
+} from "@/services/academicCalendarApi";
+import { CALENDAR_EVENT_LABELS, CalendarEventKind } from "@/lib/academicCalendar";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  CalendarDays,
+  CalendarOff,
+  Plus,
+  Edit,
+  Trash2,
+  Loader2,
+} from "lucide-react";
+
+interface CalendarForm {
+  type: "term" | "event";
+  id?: string;
+  name: string;
+  kind: CalendarEventKind;
+  startDate: string;
+  endDate: string;
+}
+
+const emptyForm = (type: CalendarForm["type"]): CalendarForm => ({
+  type,
+  name: "",
+  kind: "holiday",
+  startDate: "",
+  endDate: "",
+});
+
+export default function AcademicCalendar() {
+  const { toast } = useToast();
+  const { terms, events, currentTerm, isLoading, refresh } = useAcademicCalendar();
+  const [form, setForm] = useState<CalendarForm | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const formatDate = (dateStr: string) =>
+    new Date(`${dateStr}T00:00:00`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+
+  const formatRange = (start: string, end: string) =>
+    start === end ? formatDate(start) : `${formatDate(start)} – ${formatDate(end)}`;
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.name || !form.startDate || !form.endDate) {
+      toast({
+        title: "Missing Information",
+        description: "Please fill in all fields.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (form.endDate < form.startDate) {
+      toast({
+        title: "Invalid Dates",
+        description: "The end date must be on or after the start date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (form.type === "term") {
+        await saveAcademicTerm(
+          { name: form.name, startDate: form.startDate, endDate: form.endDate },
+          form.id,
+        );
+      } else {
+        await saveCalendarEvent(
+          { name: form.name, kind: form.kind, startDate: form.startDate, endDate: form.endDate },
+          form.id,
+        );
+      }
+      toast({
+        title: "Success",
+        description: `${form.type === "term" ? "Term" : CALENDAR_EVENT_LABELS[form.kind]} saved successfully.`,
+      });
+      setForm(null);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not save",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (type: CalendarForm["type"], id: string, name: string) => {
+    if (!confirm(`Delete "${name}"?`)) return;
+
+    try {
+      if (type === "term") {
+        await deleteAcademicTerm(id);
+      } else {
+        await deleteCalendarEvent(id);
+      }
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not delete",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
+        <div>
+          <h1 className="text-3xl font-display font-bold">Academic Calendar</h1>
+          <p className="text-muted-foreground">
+            Terms scope attendance percentages; holidays and exam blackouts block scheduling
+          </p>
+        </div>
+
+        {/* Terms */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <CalendarDays className="h-5 w-5" />
+                Terms
+              </CardTitle>
+              <CardDescription>
+                {currentTerm ? `Current term: ${currentTerm.name}` : "Today is not inside any term"}
+              </CardDescription>
+            </div>
+            <Button size="sm" className="gap-2" onClick={() => setForm(emptyForm("term"))}>
+              <Plus className="h-4 w-4" />
+              Add Term
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full" />
+              </div>
+            ) : terms.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No terms defined yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {terms.map((term) => (
+                    <TableRow key={term.id}>
+                      <TableCell className="font-medium">
+                        {term.name}
+                        {term.id === currentTerm?.id && (
+                          <Badge variant="secondary" className="ml-2">Current</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatRange(term.startDate, term.endDate)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setForm({ ...emptyForm("term"), ...term })}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete("term", term.id, term.name)}
+                        >
+                          <Trash2 className="h-4 w-4 text-danger" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Holidays and blackouts */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <CalendarOff className="h-5 w-5" />
+                Holidays &amp; Exam Blackouts
+              </CardTitle>
+              <CardDescription>
+                No classes can be scheduled on these dates
+              </CardDescription>
+            </div>
+            <Button size="sm" className="gap-2" onClick={() => setForm(emptyForm("event"))}>
+              <Plus className="h-4 w-4" />
+              Add Date
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full" />
+              </div>
+            ) : events.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No holidays or blackouts defined</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="font-medium">{event.name}</TableCell>
+                      <TableCell>
+                        <Badge variant={event.kind === "holiday" ? "secondary" : "outline"}>
+                          {CALENDAR_EVENT_LABELS[event.kind]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatRange(event.startDate, event.endDate)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setForm({ type: "event", ...event })}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete("event", event.id, event.name)}
+                        >
+                          <Trash2 className="h-4 w-4 text-danger" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {form?.id ? "Edit" : "Add"} {form?.type === "term" ? "Term" : "Holiday or Blackout"}
+            </DialogTitle>
+            <DialogDescription>
+              {form?.type === "term"
+                ? "Attendance percentages are calculated per term"
+                : "Single days use the same start and end date"}
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4 pt-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  placeholder={form.type === "term" ? "e.g., Autumn 2026" : "e.g., Diwali"}
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              {form.type === "event" && (
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={form.kind}
+                    onValueChange={(value) => setForm({ ...form, kind: value as CalendarEventKind })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CALENDAR_EVENT_LABELS) as CalendarEventKind[]).map((kind) => (
+                        <SelectItem key={kind} value={kind}>
+                          {CALENDAR_EVENT_LABELS[kind]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Start Date</Label>
+                  <Input
+                    type="date"
+                    value={form.startDate}
+                    onChange={(e) =>
+                      setForm({ ...form, startDate: e.target.value, endDate: form.endDate || e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>End Date</Label>
+                  <Input
+                    type="date"
+                    value={form.endDate}
+                    onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                  />
+                </div>
+              </div>
+              <Button onClick={handleSave} className="w-full" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { motion } from "framer-motion";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { StatCard } from "@/components/ui/stat-card";
@@ -7,8 +7,25 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSystemSettings } from "@/hooks/useSystemSettings";
+import { useAcademicCalendar } from "@/hooks/useAcademicCalendar";
+import type { AcademicTerm } from "@/lib/academicCalendar";
+import { fetchStudentAttendanceSummary, StudentAttendanceSummary } from "@/services/analyticsApi";
+import { classesNeededToReach, isAttendedStatus } from "@/lib/attendanceMath";
+import { getRiskLevel, getRiskThresholds, type RiskLevel } from "@/lib/attendanceRisk";
+import {
+  buildTrendSeries,
+  type TrendClass,
+  type TrendGranularity,
+  type TrendSeriesBy,
+} from "@/lib/attendanceTrends";
+import { format, parseISO, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
 import {
   Table,
   TableBody,
@@ -45,6 +62,7 @@ import {
   GraduationCap,
   PieChart as PieChartIcon,
   Activity,
+  CalendarRange,
 } from "lucide-react";
 
 interface StudentAnalytics {
@@ -55,16 +73,46 @@ interface StudentAnalytics {
   attended: number;
   missed: number;
   attendancePercentage: number;
-  classesNeededFor80: number;
-  riskLevel: "safe" | "warning" | "risk";
+  requiredPercentage: number;
+  classesNeeded: number;
+  riskLevel: RiskLevel;
   departmentId?: string;
 }
 
-interface AttendanceTrend {
-  date: string;
-  attendance: number;
-  total: number;
-  percentage: number;
+type TrendRangePreset = "7d" | "30d" | "90d" | "term" | "custom";
+
+const TREND_RANGE_LABELS: Record<TrendRangePreset, string> = {
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+  "90d": "Last 90 days",
+  term: "This term",
+  custom: "Custom range",
+};
+
+/**
+ * Resolve a preset to concrete dates. "This term" uses the current academic
+ * term, falling back to the calendar half-year when today is between terms.
+ */
+function resolveTrendRange(
+  preset: TrendRangePreset,
+  custom: DateRange | undefined,
+  currentTerm: AcademicTerm | null,
+): { from: Date; to: Date } | null {
+  const today = new Date();
+  switch (preset) {
+    case "7d":
+      return { from: subDays(today, 6), to: today };
+    case "30d":
+      return { from: subDays(today, 29), to: today };
+    case "90d":
+      return { from: subDays(today, 89), to: today };
+    case "term":
+      return currentTerm
+        ? { from: parseISO(currentTerm.startDate), to: today }
+        : { from: new Date(today.getFullYear(), today.getMonth() < 6 ? 0 : 6, 1), to: today };
+    case "custom":
+      return custom?.from ? { from: custom.from, to: custom.to || custom.from } : null;
+  }
 }
 
 const CHART_COLORS = {
@@ -75,165 +123,143 @@ const CHART_COLORS = {
   secondary: "hsl(215, 20%, 65%)",
 };
 
-const PIE_COLORS = [CHART_COLORS.safe, CHART_COLORS.warning, CHART_COLORS.risk];
+const SERIES_COLORS = [
+  "hsl(250, 89%, 64%)",
+  "hsl(142, 76%, 36%)",
+  "hsl(38, 92%, 50%)",
+  "hsl(199, 89%, 48%)",
+  "hsl(330, 81%, 60%)",
+  "hsl(0, 84%, 60%)",
+  "hsl(173, 58%, 39%)",
+  "hsl(24, 95%, 53%)",
+];
 
 export default function Analytics() {
   const { role } = useAuth();
-  const [students, setStudents] = useState<StudentAnalytics[]>([]);
+  const { settings } = useSystemSettings();
+  const { terms, currentTerm, isLoading: calendarLoading } = useAcademicCalendar();
+  const [termFilter, setTermFilter] = useState<string>("current");
+  const [summaries, setSummaries] = useState<StudentAttendanceSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
   const [riskFilter, setRiskFilter] = useState<string>("all");
   const [departments, setDepartments] = useState<any[]>([]);
   const [selectedDepartment, setSelectedDepartment] = useState<string>("all");
-  const [attendanceTrends, setAttendanceTrends] = useState<AttendanceTrend[]>([]);
+  const [trendClasses, setTrendClasses] = useState<TrendClass[]>([]);
+  const [trendsLoading, setTrendsLoading] = useState(true);
+  const [trendPreset, setTrendPreset] = useState<TrendRangePreset>("30d");
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const [granularity, setGranularity] = useState<TrendGranularity>("day");
+  const [seriesBy, setSeriesBy] = useState<TrendSeriesBy>("overall");
+
+  const trendRange = useMemo(
+    () => resolveTrendRange(trendPreset, customRange, currentTerm),
+    [trendPreset, customRange, currentTerm],
+  );
+
+  // Percentages default to the current term; "all" counts every class ever held
+  const scopedTerm = useMemo(
+    () =>
+      termFilter === "current" ? currentTerm :
+      termFilter === "all" ? null :
+      terms.find((term) => term.id === termFilter) ?? null,
+    [termFilter, currentTerm, terms],
+  );
+
+  const trends = useMemo(
+    () => buildTrendSeries(trendClasses, granularity, seriesBy),
+    [trendClasses, granularity, seriesBy],
+  );
+
+  // Risk bands are derived at render time so they follow settings once loaded.
+  const students: StudentAnalytics[] = useMemo(
+    () =>
+      summaries.map((summary) => {
+        const { totalClasses: total, attended, percentage } = summary;
+        const thresholds = getRiskThresholds(settings, summary.departmentId);
+
+        return {
+          id: summary.studentId,
+          rollNumber: summary.rollNumber,
+          fullName: summary.fullName,
+          departmentId: summary.departmentId,
+          totalClasses: total,
+          attended,
+          missed: summary.missed,
+          attendancePercentage: percentage,
+          requiredPercentage: thresholds.required,
+          classesNeeded: classesNeededToReach(attended, total, thresholds.required),
+          riskLevel: getRiskLevel(percentage, thresholds),
+        };
+      }),
+    [summaries, settings],
+  );
 
   useEffect(() => {
     fetchDepartments();
-    fetchAnalytics();
-    fetchAttendanceTrends();
   }, []);
 
+  useEffect(() => {
+    if (!calendarLoading) fetchAnalytics(scopedTerm);
+  }, [calendarLoading, scopedTerm]);
+
+  useEffect(() => {
+    if (trendRange) fetchAttendanceTrends(trendRange);
+  }, [trendRange]);
+
   const fetchDepartments = async () => {
     const { data } = await supabase.from("departments").select("*").order("name");
     setDepartments(data || []);
   };
 
-  const fetchAttendanceTrends = async () => {
-    // Get last 7 days of classes with attendance
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    
-    const { data: classes } = await supabase
+  const fetchAttendanceTrends = async (range: { from: Date; to: Date }) => {
+    setTrendsLoading(true);
+
+    // One query: completed classes in range with their attendance rows embedded.
+    const { data, error } = await supabase
       .from("classes")
-      .select("id, class_date, status")
+      .select("id, class_date, subject_id, subjects(name, code, section_id, sections(name)), attendance(status)")
       .eq("status", "completed")
-      .gte("class_date", sevenDaysAgo.toISOString().split("T")[0])
+      .gte("class_date", format(range.from, "yyyy-MM-dd"))
+      .lte("class_date", format(range.to, "yyyy-MM-dd"))
       .order("class_date");
 
-    if (!classes || classes.length === 0) {
-      // Generate sample data for demo
-      const sampleTrends: AttendanceTrend[] = [];
-      for (let i = 6; i >= 0; i--) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        const total = Math.floor(Math.random() * 20) + 30;
-        const attendance = Math.floor(total * (0.7 + Math.random() * 0.25));
-        sampleTrends.push({
-          date: date.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" }),
-          attendance,
-          total,
-          percentage: Math.round((attendance / total) * 100),
-        });
-      }
-      setAttendanceTrends(sampleTrends);
-      return;
-    }
-
-    // Group by date and calculate attendance
-    const trendMap = new Map<string, { attendance: number; total: number }>();
-    
-    for (const cls of classes) {
-      const dateKey = new Date(cls.class_date).toLocaleDateString("en-US", { 
-        weekday: "short", 
-        month: "short", 
-        day: "numeric" 
-      });
-      
-      const { count: presentCount } = await supabase
-        .from("attendance")
-        .select("*", { count: "exact", head: true })
-        .eq("class_id", cls.id)
-        .eq("status", "present");
-      
-      const { count: totalStudents } = await supabase
-        .from("attendance")
-        .select("*", { count: "exact", head: true })
-        .eq("class_id", cls.id);
-      
-      const existing = trendMap.get(dateKey) || { attendance: 0, total: 0 };
-      trendMap.set(dateKey, {
-        attendance: existing.attendance + (presentCount || 0),
-        total: existing.total + (totalStudents || 0),
-      });
+    if (error) {
+      console.error("Error fetching attendance trends:", error);
+      setTrendClasses([]);
+    } else {
+      setTrendClasses(
+        (data || []).map((cls) => ({
+          classDate: cls.class_date,
+          subjectId: cls.subject_id,
+          subjectLabel: cls.subjects ? `${cls.subjects.code} - ${cls.subjects.name}` : "Unknown subject",
+          sectionId: cls.subjects?.section_id || "unknown",
+          sectionLabel: cls.subjects?.sections?.name || "Unknown section",
+          attended: (cls.attendance || []).filter((row) => isAttendedStatus(row.status)).length,
+          total: (cls.attendance || []).length,
+        })),
+      );
     }
 
-    const trends: AttendanceTrend[] = Array.from(trendMap.entries()).map(([date, data]) => ({
-      date,
-      attendance: data.attendance,
-      total: data.total,
-      percentage: data.total > 0 ? Math.round((data.attendance / data.total) * 100) : 0,
-    }));
-
-    setAttendanceTrends(trends);
+    setTrendsLoading(false);
   };
 
-  const fetchAnalytics = async () => {
+  const fetchAnalytics = async (term: AcademicTerm | null) => {
     setLoading(true);
-    
-    const { data: studentsData } = await supabase
-      .from("students")
-      .select(`
-        id,
-        roll_number,
-        full_name,
-        section_id,
-        sections (
-          year_id,
-          years (
-            department_id
-          )
-        )
-      `);
-
-    if (!studentsData) {
+
+    try {
+      // One query: attended/total counts are aggregated per student in Postgres.
+      setSummaries(
+        await fetchStudentAttendanceSummary(
+          term ? { from: term.startDate, to: term.endDate } : {},
+        ),
+      );
+    } catch (error) {
+      console.error("Error fetching analytics:", error);
+      setSummaries([]);
+    } finally {
       setLoading(false);
-      return;
     }
-
-    const analyticsPromises = studentsData.map(async (student: any) => {
-      const { count: totalClasses } = await supabase
-        .from("classes")
-        .select("*", { count: "exact", head: true })
-        .eq("status", "completed");
-
-      const { count: attendedCount } = await supabase
-        .from("attendance")
-        .select("*", { count: "exact", head: true })
-        .eq("student_id", student.id)
-        .eq("status", "present");
-
-      const total = totalClasses || 0;
-      const attended = attendedCount || 0;
-      const missed = total - attended;
-      const percentage = total > 0 ? Math.round((attended / total) * 100) : 0;
-      
-      let classesNeeded = 0;
-      if (percentage < 80 && total > 0) {
-        classesNeeded = Math.ceil((0.8 * total - attended) / 0.2);
-        if (classesNeeded < 0) classesNeeded = 0;
-      }
-
-      const riskLevel: "safe" | "warning" | "risk" = 
-        percentage >= 80 ? "safe" :
-        percentage >= 70 ? "warning" : "risk";
-
-      return {
-        id: student.id,
-        rollNumber: student.roll_number,
-        fullName: student.full_name,
-        departmentId: student.sections?.years?.department_id,
-        totalClasses: total,
-        attended,
-        missed,
-        attendancePercentage: percentage,
-        classesNeededFor80: classesNeeded,
-        riskLevel,
-      };
-    });
-
-    const analytics = await Promise.all(analyticsPromises);
-    setStudents(analytics);
-    setLoading(false);
   };
 
   const filteredStudents = students.filter((student) => {
@@ -251,30 +277,47 @@ export default function Analytics() {
     return matchesSearch && matchesRisk && matchesDepartment;
   });
 
+  // Stats and charts follow the department filter so the band labels below
+  // match the thresholds the counted students are actually held to.
+  const departmentStudents = selectedDepartment === "all"
+    ? students
+    : students.filter((s) => s.departmentId === selectedDepartment);
+  const labelThresholds = getRiskThresholds(
+    settings,
+    selectedDepartment === "all" ? null : selectedDepartment,
+  );
+  const hasDepartmentOverrides =
+    selectedDepartment === "all" && Object.keys(settings.departmentThresholds).length > 0;
+  const bandLabels = {
+    safe: `Safe (≥${labelThresholds.required}%)`,
+    warning: `Warning (${labelThresholds.alert}-${labelThresholds.required - 1}%)`,
+    risk: `At Risk (<${labelThresholds.alert}%)`,
+  };
+
   const stats = {
-    totalStudents: students.length,
-    safeStudents: students.filter(s => s.riskLevel === "safe").length,
-    warningStudents: students.filter(s => s.riskLevel === "warning").length,
-    riskStudents: students.filter(s => s.riskLevel === "risk").length,
-    averageAttendance: students.length > 0 
-      ? Math.round(students.reduce((acc, s) => acc + s.attendancePercentage, 0) / students.length)
+    totalStudents: departmentStudents.length,
+    safeStudents: departmentStudents.filter(s => s.riskLevel === "safe").length,
+    warningStudents: departmentStudents.filter(s => s.riskLevel === "warning").length,
+    riskStudents: departmentStudents.filter(s => s.riskLevel === "risk").length,
+    averageAttendance: departmentStudents.length > 0 
+      ? Math.round(departmentStudents.reduce((acc, s) => acc + s.attendancePercentage, 0) / departmentStudents.length)
       : 0,
   };
 
   // Prepare chart data
   const riskDistributionData = [
-    { name: "Safe (≥80%)", value: stats.safeStudents, color: CHART_COLORS.safe },
-    { name: "Warning (70-79%)", value: stats.warningStudents, color: CHART_COLORS.warning },
-    { name: "At Risk (<70%)", value: stats.riskStudents, color: CHART_COLORS.risk },
+    { name: bandLabels.safe, value: stats.safeStudents, color: CHART_COLORS.safe },
+    { name: bandLabels.warning, value: stats.warningStudents, color: CHART_COLORS.warning },
+    { name: bandLabels.risk, value: stats.riskStudents, color: CHART_COLORS.risk },
   ].filter(item => item.value > 0);
 
   const attendanceDistributionData = [
-    { range: "0-50%", count: students.filter(s => s.attendancePercentage <= 50).length },
-    { range: "51-60%", count: students.filter(s => s.attendancePercentage > 50 && s.attendancePercentage <= 60).length },
-    { range: "61-70%", count: students.filter(s => s.attendancePercentage > 60 && s.attendancePercentage <= 70).length },
-    { range: "71-80%", count: students.filter(s => s.attendancePercentage > 70 && s.attendancePercentage <= 80).length },
-    { range: "81-90%", count: students.filter(s => s.attendancePercentage > 80 && s.attendancePercentage <= 90).length },
-    { range: "91-100%", count: students.filter(s => s.attendancePercentage > 90).length },
+    { range: "0-50%", min: 0, count: departmentStudents.filter(s => s.attendancePercentage <= 50).length },
+    { range: "51-60%", min: 51, count: departmentStudents.filter(s => s.attendancePercentage > 50 && s.attendancePercentage <= 60).length },
+    { range: "61-70%", min: 61, count: departmentStudents.filter(s => s.attendancePercentage > 60 && s.attendancePercentage <= 70).length },
+    { range: "71-80%", min: 71, count: departmentStudents.filter(s => s.attendancePercentage > 70 && s.attendancePercentage <= 80).length },
+    { range: "81-90%", min: 81, count: departmentStudents.filter(s => s.attendancePercentage > 80 && s.attendancePercentage <= 90).length },
+    { range: "91-100%", min: 91, count: departmentStudents.filter(s => s.attendancePercentage > 90).length },
   ];
 
   const containerVariants = {
@@ -298,7 +341,7 @@ export default function Analytics() {
           {payload.map((entry: any, index: number) => (
             <p key={index} className="text-sm" style={{ color: entry.color }}>
               {entry.name}: {entry.value}
-              {entry.name === "Percentage" ? "%" : ""}
+              {entry.name === "Percentage" || entry.unit === "%" ? "%" : ""}
             </p>
           ))}
         </div>
@@ -321,7 +364,9 @@ export default function Analytics() {
             Analytics Dashboard
           </h1>
           <p className="text-muted-foreground">
-            Comprehensive attendance analytics and student performance insights
+            {scopedTerm
+              ? `Attendance for ${scopedTerm.name}`
+              : "Attendance across all classes held"}
           </p>
         </motion.div>
 
@@ -340,19 +385,19 @@ export default function Analytics() {
             variant="accent"
           />
           <StatCard
-            title="Safe (≥80%)"
+            title={bandLabels.safe}
             value={stats.safeStudents}
             icon={CheckCircle2}
             variant="success"
           />
           <StatCard
-            title="Warning (70-79%)"
+            title={bandLabels.warning}
             value={stats.warningStudents}
             icon={AlertTriangle}
             variant="warning"
           />
           <StatCard
-            title="At Risk (<70%)"
+            title={bandLabels.risk}
             value={stats.riskStudents}
             icon={TrendingDown}
             variant="danger"
@@ -366,17 +411,85 @@ export default function Analytics() {
             <CardHeader>
               <CardTitle className="text-lg flex items-center gap-2">
                 <TrendingUp className="h-5 w-5 text-primary" />
-                Attendance Trend (Last 7 Days)
+                Attendance Trend
               </CardTitle>
               <CardDescription>
-                Daily attendance percentage over time
+                {trendRange
+                  ? `${format(trendRange.from, "MMM d, yyyy")} – ${format(trendRange.to, "MMM d, yyyy")}`
+                  : "Pick a start and end date"}
               </CardDescription>
+              <div className="flex flex-wrap gap-2 pt-2">
+                <Select value={trendPreset} onValueChange={(value) => setTrendPreset(value as TrendRangePreset)}>
+                  <SelectTrigger className="w-36 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TREND_RANGE_LABELS) as TrendRangePreset[]).map((preset) => (
+                      <SelectItem key={preset} value={preset}>
+                        {TREND_RANGE_LABELS[preset]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {trendPreset === "custom" && (
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button variant="outline" size="sm" className="h-8 gap-2">
+                        <CalendarRange className="h-4 w-4" />
+                        {customRange?.from
+                          ? `${format(customRange.from, "MMM d")} – ${format(customRange.to || customRange.from, "MMM d")}`
+                          : "Select dates"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="range"
+                        selected={customRange}
+                        onSelect={setCustomRange}
+                        numberOfMonths={2}
+                        disabled={{ after: new Date() }}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                )}
+                <Select value={granularity} onValueChange={(value) => setGranularity(value as TrendGranularity)}>
+                  <SelectTrigger className="w-28 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day">Daily</SelectItem>
+                    <SelectItem value="week">Weekly</SelectItem>
+                    <SelectItem value="month">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={seriesBy} onValueChange={(value) => setSeriesBy(value as TrendSeriesBy)}>
+                  <SelectTrigger className="w-32 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="overall">Overall</SelectItem>
+                    <SelectItem value="subject">By subject</SelectItem>
+                    <SelectItem value="section">By section</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </CardHeader>
             <CardContent>
               <div className="h-[300px]">
-                {attendanceTrends.length > 0 ? (
+                {trendsLoading ? (
+                  <div className="flex items-center justify-center h-full">
+                    <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full" />
+                  </div>
+                ) : trends.points.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center h-full text-muted-foreground text-center">
+                    <TrendingUp className="h-12 w-12 mb-3 opacity-50" />
+                    <p>No completed classes in this range</p>
+                    <p className="text-sm">Trends appear once attendance has been submitted</p>
+                  </div>
+                ) : seriesBy === "overall" ? (
                   <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={attendanceTrends}>
+                    <AreaChart data={trends.points}>
                       <defs>
                         <linearGradient id="colorPercentage" x1="0" y1="0" x2="0" y2="1">
                           <stop offset="5%" stopColor={CHART_COLORS.primary} stopOpacity={0.3}/>
@@ -385,7 +498,7 @@ export default function Analytics() {
                       </defs>
                       <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
                       <XAxis 
-                        dataKey="date" 
+                        dataKey="label" 
                         tick={{ fontSize: 12 }}
                         className="text-muted-foreground"
                       />
@@ -408,9 +521,37 @@ export default function Analytics() {
                     </AreaChart>
                   </ResponsiveContainer>
                 ) : (
-                  <div className="flex items-center justify-center h-full text-muted-foreground">
-                    No attendance data available
-                  </div>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={trends.points}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                      <XAxis 
+                        dataKey="label" 
+                        tick={{ fontSize: 12 }}
+                        className="text-muted-foreground"
+                      />
+                      <YAxis 
+                        domain={[0, 100]} 
+                        tick={{ fontSize: 12 }}
+                        className="text-muted-foreground"
+                        tickFormatter={(value) => `${value}%`}
+                      />
+                      <Tooltip content={<CustomTooltip />} />
+                      <Legend />
+                      {trends.series.map((series, index) => (
+                        <Line
+                          key={series.key}
+                          type="monotone"
+                          dataKey={series.key}
+                          name={series.label}
+                          unit="%"
+                          stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                          strokeWidth={2}
+                          dot={{ r: 3 }}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
                 )}
               </div>
             </CardContent>
@@ -424,7 +565,9 @@ export default function Analytics() {
                 Student Risk Distribution
               </CardTitle>
               <CardDescription>
-                Students categorized by attendance risk level
+                {hasDepartmentOverrides
+                  ? "Students categorized by attendance risk level; departments with their own minimum are banded against it"
+                  : "Students categorized by attendance risk level"}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -444,7 +587,7 @@ export default function Analytics() {
                         labelLine={{ stroke: "hsl(var(--muted-foreground))" }}
                       >
                         {riskDistributionData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={PIE_COLORS[index % PIE_COLORS.length]} />
+                          <Cell key={`cell-${index}`} fill={entry.color} />
                         ))}
                       </Pie>
                       <Tooltip 
@@ -504,11 +647,7 @@ export default function Analytics() {
                       {attendanceDistributionData.map((entry, index) => (
                         <Cell 
                           key={`cell-${index}`} 
-                          fill={
-                            index <= 2 ? CHART_COLORS.risk :
-                            index === 3 ? CHART_COLORS.warning :
-                            CHART_COLORS.safe
-                          }
+                          fill={CHART_COLORS[getRiskLevel(entry.min, labelThresholds)]}
                         />
                       ))}
                     </Bar>
@@ -546,6 +685,22 @@ export default function Analytics() {
                     ))}
                   </SelectContent>
                 </Select>
+                <Select value={termFilter} onValueChange={setTermFilter}>
+                  <SelectTrigger className="w-full sm:w-44">
+                    <SelectValue placeholder="Term" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="current">
+                      {currentTerm ? `Current term (${currentTerm.name})` : "Current term"}
+                    </SelectItem>
+                    <SelectItem value="all">All time</SelectItem>
+                    {terms.map((term) => (
+                      <SelectItem key={term.id} value={term.id}>
+                        {term.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Select value={riskFilter} onValueChange={setRiskFilter}>
                   <SelectTrigger className="w-full sm:w-36">
                     <SelectValue placeholder="Risk Level" />
@@ -595,7 +750,7 @@ export default function Analytics() {
                         <TableHead className="text-center">Attended</TableHead>
                         <TableHead className="text-center">Missed</TableHead>
                         <TableHead className="text-center">Attendance %</TableHead>
-                        <TableHead className="text-center">Classes for 80%</TableHead>
+                        <TableHead className="text-center">Classes to Minimum</TableHead>
                         <TableHead className="text-center">Status</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -635,7 +790,10 @@ export default function Analytics() {
                               <span className="text-muted-foreground">—</span>
                             ) : (
                               <span className="font-medium text-warning">
-                                +{student.classesNeededFor80}
+                                +{student.classesNeeded}
+                                <span className="block text-xs font-normal text-muted-foreground">
+                                  to reach {student.requiredPercentage}%
+                                </span>
                               </span>
                             )}
                           </TableCell>
@@ -0,0 +1,448 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { motion } from "framer-motion";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { downloadCsv } from "@/lib/csv";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowRight, Download, History, Loader2 } from "lucide-react";
+
+interface AuditEntry {
+  id: string;
+  createdAt: string;
+  previousStatus: string | null;
+  newStatus: string;
+  reason: string | null;
+  changedBy: string | null;
+  changedByName: string;
+  classId: string;
+  classLabel: string;
+  classDate: string;
+  studentId: string;
+  studentName: string;
+  rollNumber: string;
+}
+
+/** Rows fetched per page; exports fetch every page */
+const PAGE_SIZE = 500;
+
+// RLS scopes rows: admins see every log, teachers only logs for their own classes.
+// Inner join so the class and student filters can be applied to the embedded attendance row.
+const LOG_SELECT = `
+  id,
+  previous_status,
+  new_status,
+  changed_by,
+  reason,
+  created_at,
+  attendance!inner (
+    class_id,
+    student_id,
+    students (
+      full_name,
+      roll_number
+    ),
+    classes (
+      class_date,
+      start_time,
+      subjects (
+        name,
+        code
+      )
+    )
+  )
+`;
+
+const STATUS_VARIANTS = ["present", "absent", "late", "excused"] as const;
+
+const statusVariant = (status: string | null) =>
+  STATUS_VARIANTS.find((variant) => variant === status) ?? "default";
+
+const toDateInput = (date: Date) => date.toISOString().split("T")[0];
+
+/** Local midnight at the start of a YYYY-MM-DD day, `days` later, as a UTC timestamp */
+const localDayStart = (date: string, days = 0) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day + days).toISOString();
+};
+
+export default function AuditLog() {
+  const { toast } = useToast();
+  const { user, role } = useAuth();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  // Everything loaded for the current date range, so filter options outlive the filters themselves
+  const [optionSource, setOptionSource] = useState<AuditEntry[]>([]);
+  const [fromDate, setFromDate] = useState(() => {
+    const date = new Date();
+    date.setDate(date.getDate() - 30);
+    return toDateInput(date);
+  });
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [classFilter, setClassFilter] = useState("all");
+  const [studentFilter, setStudentFilter] = useState("all");
+  const [userFilter, setUserFilter] = useState("all");
+  const profileNamesRef = useRef(new Map<string, string>());
+  // Ignores pages that arrive after the filters have moved on
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    setOptionSource([]);
+  }, [fromDate, toDate]);
+
+  const fetchPage = useCallback(async (offset: number): Promise<{ rows: AuditEntry[]; count: number }> => {
+    let query = supabase
+      .from("attendance_logs")
+      .select(LOG_SELECT, { count: "exact" })
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (fromDate) query = query.gte("created_at", localDayStart(fromDate));
+    if (toDate) query = query.lt("created_at", localDayStart(toDate, 1));
+    if (classFilter !== "all") query = query.eq("attendance.class_id", classFilter);
+    if (studentFilter !== "all") query = query.eq("attendance.student_id", studentFilter);
+    if (userFilter !== "all") query = query.eq("changed_by", userFilter);
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+
+    const profileNames = profileNamesRef.current;
+    const unknownIds = Array.from(
+      new Set((data || []).map((log) => log.changed_by).filter((id): id is string => !!id && !profileNames.has(id)))
+    );
+    if (unknownIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("user_id, full_name")
+        .in("user_id", unknownIds);
+      (profiles || []).forEach((profile) => profileNames.set(profile.user_id, profile.full_name));
+    }
+
+    const resolveName = (userId: string | null) => {
+      if (!userId) return "System";
+      if (profileNames.has(userId)) return profileNames.get(userId)!;
+      if (userId === user?.id) return user.email || "You";
+      return `User ${userId.slice(0, 8)}`;
+    };
+
+    const rows: AuditEntry[] = (data || []).map((log) => {
+      const cls = log.attendance?.classes;
+      return {
+        id: log.id,
+        createdAt: log.created_at,
+        previousStatus: log.previous_status,
+        newStatus: log.new_status,
+        reason: log.reason,
+        changedBy: log.changed_by,
+        changedByName: resolveName(log.changed_by),
+        classId: log.attendance?.class_id || "",
+        classLabel: cls?.subjects ? `${cls.subjects.name} (${cls.subjects.code})` : "Unknown class",
+        classDate: cls?.class_date || "",
+        studentId: log.attendance?.student_id || "",
+        studentName: log.attendance?.students?.full_name || "Unknown",
+        rollNumber: log.attendance?.students?.roll_number || "",
+      };
+    });
+
+    return { rows, count: count ?? rows.length };
+  }, [fromDate, toDate, classFilter, studentFilter, userFilter, user]);
+
+  const showError = useCallback((error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to load the audit log",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const fetchLogs = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    try {
+      const { rows, count } = await fetchPage(0);
+      if (requestId !== requestIdRef.current) return;
+      setEntries(rows);
+      setTotalCount(count);
+      setOptionSource((prev) => [...prev, ...rows]);
+    } catch (error) {
+      if (requestId === requestIdRef.current) showError(error);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [fetchPage, showError]);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [fetchLogs]);
+
+  const loadMore = async () => {
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+    try {
+      const { rows, count } = await fetchPage(entries.length);
+      if (requestId !== requestIdRef.current) return;
+      setEntries((prev) => [...prev, ...rows]);
+      setTotalCount(count);
+      setOptionSource((prev) => [...prev, ...rows]);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const uniqueOptions = (pairs: [string, string][]) =>
+    Array.from(new Map(pairs.filter(([id]) => !!id)).entries())
+      .map(([value, label]) => ({ value, label }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+
+  const classOptions = uniqueOptions(
+    optionSource.map((e) => [e.classId, `${e.classLabel} · ${e.classDate}`])
+  );
+  const studentOptions = uniqueOptions(
+    optionSource.map((e) => [e.studentId, `${e.studentName} (${e.rollNumber})`])
+  );
+  const userOptions = uniqueOptions(
+    optionSource.map((e) => [e.changedBy || "", e.changedByName])
+  );
+
+  const formatTimestamp = (iso: string) =>
+    new Date(iso).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  // Exports every matching change, not just the pages on screen
+  const exportCsv = async () => {
+    setExporting(true);
+    let allEntries = entries;
+    try {
+      while (allEntries.length < totalCount) {
+        const { rows } = await fetchPage(allEntries.length);
+        if (rows.length === 0) break;
+        allEntries = [...allEntries, ...rows];
+      }
+    } catch (error) {
+      showError(error);
+      return;
+    } finally {
+      setExporting(false);
+    }
+
+    downloadCsv(`attendance_audit_${fromDate}_to_${toDate}.csv`, [
+      ["Changed At", "Class", "Class Date", "Roll Number", "Student", "Previous Status", "New Status", "Changed By", "Reason"],
+      ...allEntries.map((entry) => [
+        new Date(entry.createdAt).toISOString(),
+        entry.classLabel,
+        entry.classDate,
+        entry.rollNumber,
+        entry.studentName,
+        entry.previousStatus,
+        entry.newStatus,
+        entry.changedByName,
+        entry.reason,
+      ]),
+    ]);
+  };
+
+  return (
+    <DashboardLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold flex items-center gap-3">
+              <History className="h-8 w-8 text-primary" />
+              Audit Log
+            </h1>
+            <p className="text-muted-foreground">
+              {role === "admin"
+                ? "Every attendance status change across the institution"
+                : "Attendance status changes for your classes"}
+            </p>
+          </div>
+          <Button
+            onClick={() => void exportCsv()}
+            disabled={entries.length === 0 || exporting}
+            variant="outline"
+            className="gap-2"
+          >
+            {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Export CSV
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Class</Label>
+                <Select value={classFilter} onValueChange={setClassFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All Classes" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Classes</SelectItem>
+                    {classOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Student</Label>
+                <Select value={studentFilter} onValueChange={setStudentFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All Students" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Students</SelectItem>
+                    {studentOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Changed By</Label>
+                <Select value={userFilter} onValueChange={setUserFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All Users" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Users</SelectItem>
+                    {userOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Log Entries */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Status Changes
+            </CardTitle>
+            <CardDescription>
+              {entries.length < totalCount
+                ? `Showing the latest ${entries.length} of ${totalCount} change(s)`
+                : `${totalCount} change(s) found`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full" />
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <History className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                <p>No attendance changes found</p>
+                <p className="text-sm">Try adjusting your filters</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Class</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead>Changed By</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {formatTimestamp(entry.createdAt)}
+                        </TableCell>
+                        <TableCell>
+                          <p className="font-medium">{entry.studentName}</p>
+                          <p className="text-sm text-muted-foreground font-mono">{entry.rollNumber}</p>
+                        </TableCell>
+                        <TableCell>
+                          <p className="font-medium">{entry.classLabel}</p>
+                          <p className="text-sm text-muted-foreground">{entry.classDate}</p>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <StatusBadge variant={statusVariant(entry.previousStatus)}>
+                              {entry.previousStatus || "—"}
+                            </StatusBadge>
+                            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                            <StatusBadge variant={statusVariant(entry.newStatus)}>
+                              {entry.newStatus}
+                            </StatusBadge>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm">{entry.changedByName}</TableCell>
+                        <TableCell className="text-sm max-w-xs">
+                          {entry.reason || <span className="text-muted-foreground">No reason given</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {entries.length < totalCount && (
+                  <div className="flex justify-center pt-4">
+                    <Button variant="outline" onClick={() => void loadMore()} disabled={loadingMore} className="gap-2">
+                      {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                      Load {Math.min(PAGE_SIZE, totalCount - entries.length)} more
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </DashboardLayout>
+  );
+}
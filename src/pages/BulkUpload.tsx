@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { motion } from "framer-motion";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -24,6 +24,27 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useFaceApi } from "@/hooks/useFaceApi";
+import { ImportPreviewCard } from "@/components/bulk-upload/ImportPreviewCard";
+import { downloadCsv, parseCsv } from "@/lib/csv";
+import { WorkbookSheet, downloadXlsx, readXlsxSheets } from "@/lib/xlsx";
+import type { ImportRow } from "@/lib/studentImport";
+import { isMatchableImagePath, matchZipImages } from "@/lib/zipImageMatching";
+import {
+  ParsedStudent,
+  TRAINING_CHUNK_SIZE,
+  UploadedImage,
+  applyTrainingResults,
+  chunk,
+  trainingReportRows,
+} from "@/lib/bulkTraining";
+import { trainBulkStudents } from "@/services/faceRecognitionApi";
+import { isRetryable } from "@/services/apiClient";
+import {
+  BulkTrainingJob,
+  clearTrainingJob,
+  loadTrainingJob,
+  saveTrainingJob,
+} from "@/services/bulkTrainingJobs";
 import {
   Upload,
   FileSpreadsheet,
@@ -38,26 +59,10 @@ import {
   GraduationCap,
   Zap,
   WifiOff,
+  RotateCcw,
+  History,
 } from "lucide-react";
 
-interface ParsedStudent {
-  serialNo: number;
-  rollNumber: string;
-  studentName: string;
-  branch: string;
-  semester: string;
-  gender: string;
-  status: "pending" | "uploading" | "success" | "failed" | "no_image";
-  message?: string;
-  hasImage?: boolean;
-}
-
-interface UploadedImage {
-  serialNo: number;
-  fileName: string;
-  dataUrl: string;
-}
-
 interface AssignedSection {
   id: string;
   name: string;
@@ -67,18 +72,36 @@ interface AssignedSection {
   departmentCode: string;
 }
 
+/** Flag which students have at least one matched image, leaving finished rows alone */
+function withImageFlags(students: ParsedStudent[], images: UploadedImage[]): ParsedStudent[] {
+  const { imagesBySerial } = matchZipImages(images.map((image) => image.path), students);
+  return students.map((student) => {
+    const hasImage = imagesBySerial.has(student.serialNo);
+    const status = student.status === "pending" || student.status === "no_image"
+      ? hasImage ? "pending" as const : "no_image" as const
+      : student.status;
+    return { ...student, hasImage, status };
+  });
+}
+
+const REPORT_PREVIEW_LIMIT = 10;
+
+const SAMPLE_ROSTER_ROWS = [
+  ["1", "22KT1A4301", "ADIVARAPU KAVYA SRI", "CSE-AI", "VIII Semester", "F"],
+  ["2", "22KT1A4302", "BHIMANA CHARITHASRI", "CSE-AI", "VIII Semester", "F"],
+  ["3", "22KT1A4303", "STUDENT NAME", "CSE-AI", "VIII Semester", "M"],
+];
+
 export default function BulkUpload() {
   const { toast } = useToast();
   const { user } = useAuth();
-  const csvInputRef = useRef<HTMLInputElement>(null);
+  const rosterInputRef = useRef<HTMLInputElement>(null);
   const zipInputRef = useRef<HTMLInputElement>(null);
 
   const {
     isApiAvailable,
     checkingApi,
-    trainBulk,
     trainModel,
-    isTraining,
     isTrainingModel,
     modelStatus,
     fetchModelStatus,
@@ -87,8 +110,11 @@ export default function BulkUpload() {
   const [assignedSections, setAssignedSections] = useState<AssignedSection[]>([]);
   const [selectedSectionId, setSelectedSectionId] = useState<string>("");
 
-  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [rosterFile, setRosterFile] = useState<File | null>(null);
   const [zipFile, setZipFile] = useState<File | null>(null);
+  const [importTable, setImportTable] = useState<string[][] | null>(null);
+  const [workbookSheets, setWorkbookSheets] = useState<WorkbookSheet[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState("");
   const [parsedStudents, setParsedStudents] = useState<ParsedStudent[]>([]);
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
 
@@ -96,6 +122,7 @@ export default function BulkUpload() {
   const [isUploading, setIsUploading] = useState(false);
   const [trainingProgress, setTrainingProgress] = useState(0);
   const [currentTrainingStudent, setCurrentTrainingStudent] = useState<string | null>(null);
+  const [savedJob, setSavedJob] = useState<BulkTrainingJob | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -109,6 +136,26 @@ export default function BulkUpload() {
     }
   }, [selectedSectionId, fetchModelStatus]);
 
+  // Offer to resume a run that a reload or dropped connection interrupted
+  useEffect(() => {
+    if (!selectedSectionId) return;
+    let cancelled = false;
+
+    loadTrainingJob(selectedSectionId)
+      .then((job) => {
+        if (cancelled) return;
+        const unfinished = job?.students.some((s) => s.hasImage && s.status !== "success");
+        setSavedJob(unfinished ? job : null);
+      })
+      .catch(() => {
+        if (!cancelled) setSavedJob(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedSectionId]);
+
   const fetchAssignedSections = async () => {
     try {
       const { data: subjects, error } = await supabase
@@ -167,61 +214,43 @@ export default function BulkUpload() {
     }
   };
 
-  const handleCsvUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleRosterUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    setCsvFile(file);
+    setRosterFile(file);
     setIsProcessing(true);
 
     try {
-      const text = await file.text();
-      const lines = text.split("\n").filter(line => line.trim());
-      const headers = lines[0].split(",").map(h => h.trim().toLowerCase());
-
-      const students: ParsedStudent[] = [];
-
-      for (let i = 1; i < lines.length; i++) {
-        const values = lines[i].split(",").map(v => v.trim());
-        
-        const serialNoIdx = headers.findIndex(h => h.includes("s.no") || h.includes("serial"));
-        const rollNoIdx = headers.findIndex(h => h.includes("roll"));
-        const nameIdx = headers.findIndex(h => h.includes("name") && h.includes("student"));
-        const branchIdx = headers.findIndex(h => h.includes("branch"));
-        const semesterIdx = headers.findIndex(h => h.includes("semester"));
-        const genderIdx = headers.findIndex(h => h.includes("gender"));
-
-        if (values.length > 1) {
-          students.push({
-            serialNo: parseInt(values[serialNoIdx] || `${i}`) || i,
-            rollNumber: values[rollNoIdx] || "",
-            studentName: values[nameIdx] || "",
-            branch: values[branchIdx] || "",
-            semester: values[semesterIdx] || "",
-            gender: values[genderIdx] || "",
-            status: "pending",
-          });
-        }
+      let table: string[][];
+      if (/\.xlsx$/i.test(file.name)) {
+        const sheets = (await readXlsxSheets(await file.arrayBuffer())).filter((sheet) => sheet.rows.length > 0);
+        // Start on the first sheet that looks like a roster
+        const first = sheets.find((sheet) => sheet.rows.length > 1) ?? sheets[0];
+        setWorkbookSheets(sheets);
+        setSelectedSheet(first?.name ?? "");
+        table = first?.rows ?? [];
+      } else {
+        setWorkbookSheets([]);
+        setSelectedSheet("");
+        table = parseCsv(await file.text());
       }
 
-      const updatedStudents = students.map(student => ({
-        ...student,
-        hasImage: uploadedImages.some(img => img.serialNo === student.serialNo),
-        status: uploadedImages.some(img => img.serialNo === student.serialNo) 
-          ? "pending" as const 
-          : "no_image" as const,
-      }));
+      if (table.length < 2) {
+        throw new Error("The file has no data rows");
+      }
 
-      setParsedStudents(updatedStudents);
+      setParsedStudents([]);
+      setImportTable(table);
 
       toast({
-        title: "CSV Parsed",
-        description: `Found ${students.length} students in the file.`,
+        title: "Roster Parsed",
+        description: `Found ${table.length - 1} rows. Check the column mapping below.`,
       });
     } catch (error) {
       toast({
         title: "Parse Error",
-        description: "Failed to parse CSV file. Please check the format.",
+        description: error instanceof Error ? error.message : "Failed to read the file. Please check the format.",
         variant: "destructive",
       });
     } finally {
@@ -229,6 +258,37 @@ export default function BulkUpload() {
     }
   };
 
+  const handleSheetChange = (name: string) => {
+    setSelectedSheet(name);
+    setParsedStudents([]);
+    setImportTable(workbookSheets.find((sheet) => sheet.name === name)?.rows ?? null);
+  };
+
+  const handleImportConfirm = (rows: ImportRow[]) => {
+    setParsedStudents(
+      withImageFlags(
+        rows.map((row) => ({
+          serialNo: row.serialNo,
+          rollNumber: row.rollNumber,
+          studentName: row.studentName,
+          branch: row.branch,
+          semester: row.semester,
+          gender: row.gender,
+          status: "pending" as const,
+        })),
+        uploadedImages,
+      ),
+    );
+    setImportTable(null);
+  };
+
+  const discardImport = () => {
+    setImportTable(null);
+    setWorkbookSheets([]);
+    setRosterFile(null);
+    if (rosterInputRef.current) rosterInputRef.current.value = "";
+  };
+
   const handleZipUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -243,42 +303,27 @@ export default function BulkUpload() {
 
       const images: UploadedImage[] = [];
 
-      const fileNames = Object.keys(zip.files);
-      for (const fileName of fileNames) {
-        const zipEntry = zip.files[fileName];
-        if (!zipEntry.dir && /\.(jpg|jpeg|png|webp)$/i.test(fileName)) {
-          const match = fileName.match(/(\d+)\.(jpg|jpeg|png|webp)$/i);
-          if (match) {
-            const serialNo = parseInt(match[1]);
-            const blob = await zipEntry.async("blob");
-            const dataUrl = await new Promise<string>((resolve) => {
-              const reader = new FileReader();
-              reader.onload = () => resolve(reader.result as string);
-              reader.readAsDataURL(blob);
-            });
-
-            images.push({
-              serialNo,
-              fileName: fileName.split("/").pop() || fileName,
-              dataUrl,
-            });
-          }
-        }
-      }
+      for (const path of Object.keys(zip.files)) {
+        const zipEntry = zip.files[path];
+        if (zipEntry.dir || !isMatchableImagePath(path)) continue;
 
-      setUploadedImages(images);
+        const blob = await zipEntry.async("blob");
+        const dataUrl = await new Promise<string>((resolve) => {
+          const reader = new FileReader();
+          reader.onload = () => resolve(reader.result as string);
+          reader.readAsDataURL(blob);
+        });
 
-      if (parsedStudents.length > 0) {
-        const updatedStudents = parsedStudents.map(student => ({
-          ...student,
-          hasImage: images.some(img => img.serialNo === student.serialNo),
-          status: images.some(img => img.serialNo === student.serialNo) 
-            ? "pending" as const 
-            : "no_image" as const,
-        }));
-        setParsedStudents(updatedStudents);
+        images.push({
+          path,
+          fileName: path.split("/").pop() || path,
+          dataUrl,
+        });
       }
 
+      setUploadedImages(images);
+      setParsedStudents((prev) => withImageFlags(prev, images));
+
       toast({
         title: "Images Extracted",
         description: `Found ${images.length} images in the ZIP file.`,
@@ -294,7 +339,16 @@ export default function BulkUpload() {
     }
   };
 
-  const startBulkTraining = async () => {
+  const imageMatch = useMemo(
+    () => matchZipImages(uploadedImages.map((image) => image.path), parsedStudents),
+    [uploadedImages, parsedStudents],
+  );
+
+  const runTraining = async (
+    targets: ParsedStudent[],
+    students: ParsedStudent[],
+    images: UploadedImage[],
+  ) => {
     if (!selectedSectionId) {
       toast({
         title: "Error",
@@ -304,31 +358,41 @@ export default function BulkUpload() {
       return;
     }
 
-    const studentsToTrain = parsedStudents.filter(s => s.status === "pending" && s.hasImage);
-    if (studentsToTrain.length === 0) {
-      toast({
-        title: "No Students to Train",
-        description: "All students are either missing images or already processed.",
-        variant: "destructive",
-      });
-      return;
-    }
+    const sectionId = selectedSectionId;
+    const targetSerials = new Set(targets.map((student) => student.serialNo));
+    const batches = chunk(targets, TRAINING_CHUNK_SIZE);
+    const { imagesBySerial } = matchZipImages(images.map((image) => image.path), students);
+    const dataUrlByPath = new Map(images.map((image) => [image.path, image.dataUrl]));
+
+    // Kept locally so each chunk builds on the last without waiting for a render
+    let current = students.map((student) =>
+      targetSerials.has(student.serialNo)
+        ? { ...student, status: "uploading" as const, message: undefined }
+        : student,
+    );
+    const persist = () =>
+      saveTrainingJob({
+        section_id: sectionId,
+        roster_name: rosterFile?.name ?? savedJob?.roster_name ?? null,
+        zip_name: zipFile?.name ?? savedJob?.zip_name ?? null,
+        students: current,
+        images,
+      }).catch((error) => console.error("Error saving training job:", error));
 
     setIsUploading(true);
     setTrainingProgress(0);
+    setParsedStudents(current);
+    await persist();
 
-    try {
-      // First, create/update all students in the database
-      for (let i = 0; i < studentsToTrain.length; i++) {
-        const student = studentsToTrain[i];
-        setCurrentTrainingStudent(student.studentName);
-
-        setParsedStudents(prev =>
-          prev.map(s =>
-            s.serialNo === student.serialNo ? { ...s, status: "uploading" as const } : s
-          )
-        );
+    let trained = 0;
+    let paused = false;
+
+    for (let i = 0; i < batches.length; i++) {
+      const batch = batches[i];
+      setCurrentTrainingStudent(`batch ${i + 1} of ${batches.length}`);
 
+      // Register students that aren't in the database yet
+      for (const student of batch) {
         try {
           const { data: existingStudent } = await supabase
             .from("students")
@@ -342,83 +406,154 @@ export default function BulkUpload() {
               .insert({
                 full_name: student.studentName,
                 roll_number: student.rollNumber,
-                section_id: selectedSectionId,
+                section_id: sectionId,
                 face_registered: false,
               });
           }
         } catch (error: any) {
           console.error("Error creating student:", error);
         }
-
-        setTrainingProgress(((i + 1) / studentsToTrain.length) * 50);
       }
 
-      // Now call the bulk training API
-      const imagesMap: Record<string, string> = {};
-      studentsToTrain.forEach(student => {
-        const image = uploadedImages.find(img => img.serialNo === student.serialNo);
-        if (image) {
-          imagesMap[student.serialNo.toString()] = image.dataUrl;
+      const imagesMap: Record<string, string[]> = {};
+      batch.forEach((student) => {
+        const paths = imagesBySerial.get(student.serialNo) ?? [];
+        if (paths.length > 0) {
+          imagesMap[student.serialNo.toString()] = paths.map((path) => dataUrlByPath.get(path) as string);
         }
       });
 
-      const result = await trainBulk({
-        section_id: selectedSectionId,
-        students: studentsToTrain.map(s => ({
-          serial_no: s.serialNo,
-          roll_number: s.rollNumber,
-          student_name: s.studentName,
-          branch: s.branch,
-          semester: s.semester,
-          gender: s.gender,
-        })),
-        images: imagesMap,
-      });
+      try {
+        const result = await trainBulkStudents({
+          section_id: sectionId,
+          students: batch.map((s) => ({
+            serial_no: s.serialNo,
+            roll_number: s.rollNumber,
+            student_name: s.studentName,
+            branch: s.branch,
+            semester: s.semester,
+            gender: s.gender,
+          })),
+          images: imagesMap,
+        });
 
-      // Update statuses based on API response
-      if (result) {
         for (const res of result.results) {
-          setParsedStudents(prev =>
-            prev.map(s =>
-              s.serialNo === res.serial_no
-                ? { 
-                    ...s, 
-                    status: res.status as "success" | "failed", 
-                    message: res.message || res.error 
-                  }
-                : s
-            )
-          );
-
-          // Update face_registered in database for successful ones
           if (res.status === "success" && res.student_id) {
             await supabase
               .from("students")
-              .update({ 
+              .update({
                 face_registered: true,
                 face_embedding_id: res.face_embedding_id,
               })
               .eq("id", res.student_id);
           }
         }
+
+        trained += result.trained;
+        current = applyTrainingResults(current, batch.map((s) => s.serialNo), result.results);
+      } catch (error: any) {
+        if (isRetryable(error)) {
+          // Backend unreachable or overloaded: leave the rest pending so the run can be resumed
+          current = current.map((student) =>
+            student.status === "uploading" ? { ...student, status: "pending" as const } : student,
+          );
+          paused = true;
+        } else {
+          current = applyTrainingResults(
+            current,
+            batch.map((s) => s.serialNo),
+            [],
+            error.message || "Training request failed",
+          );
+        }
       }
 
-      setTrainingProgress(100);
+      setParsedStudents(current);
+      setTrainingProgress(((i + 1) / batches.length) * 100);
+      await persist();
+      if (paused) break;
+    }
+
+    const failed = current.filter((student) => student.status === "failed").length;
+    const remaining = current.filter((student) => student.hasImage && student.status !== "success").length;
+    if (remaining === 0) {
+      await clearTrainingJob(sectionId).catch(() => undefined);
+    }
 
+    if (paused) {
+      toast({
+        title: "Training Paused",
+        description: `The training server is unavailable. ${trained} students trained; resume once it's back.`,
+        variant: "destructive",
+      });
+    } else {
       toast({
         title: "Bulk Training Complete",
-        description: `Successfully processed ${result?.trained || 0} students.`,
+        description: failed > 0
+          ? `Trained ${trained} students, ${failed} failed. Retry them from the table below.`
+          : `Successfully trained ${trained} students.`,
+        variant: failed > 0 ? "destructive" : "default",
       });
-    } catch (error: any) {
+    }
+
+    setIsUploading(false);
+    setCurrentTrainingStudent(null);
+  };
+
+  const startBulkTraining = () => {
+    const studentsToTrain = parsedStudents.filter(s => s.status === "pending" && s.hasImage);
+    if (studentsToTrain.length === 0) {
       toast({
-        title: "Training Error",
-        description: error.message || "Failed to complete bulk training.",
+        title: "No Students to Train",
+        description: "All students are either missing images or already processed.",
         variant: "destructive",
       });
-    } finally {
-      setIsUploading(false);
-      setCurrentTrainingStudent(null);
+      return;
     }
+    void runTraining(studentsToTrain, parsedStudents, uploadedImages);
+  };
+
+  const retryFailed = () => {
+    void runTraining(
+      parsedStudents.filter((s) => s.status === "failed" && s.hasImage),
+      parsedStudents,
+      uploadedImages,
+    );
+  };
+
+  const retryStudent = (student: ParsedStudent) => {
+    void runTraining([student], parsedStudents, uploadedImages);
+  };
+
+  const resumeJob = () => {
+    if (!savedJob) return;
+    const students = savedJob.students.map((student) =>
+      student.status === "uploading" ? { ...student, status: "pending" as const } : student,
+    );
+    setParsedStudents(students);
+    setUploadedImages(savedJob.images);
+    setImportTable(null);
+
+    const pending = students.filter((s) => s.status === "pending" && s.hasImage);
+    if (pending.length > 0 && isApiAvailable) {
+      void runTraining(pending, students, savedJob.images);
+    }
+  };
+
+  const discardJob = async () => {
+    if (!savedJob) return;
+    await clearTrainingJob(savedJob.section_id).catch(() => undefined);
+    setSavedJob(null);
+  };
+
+  const downloadTrainingReport = () => {
+    const imageCounts = new Map(
+      Array.from(imageMatch.imagesBySerial, ([serialNo, paths]) => [serialNo, paths.length]),
+    );
+    downloadCsv(
+      `training_report_${new Date().toISOString().slice(0, 10)}.csv`,
+      trainingReportRows(parsedStudents, imageCounts),
+    );
   };
 
   const handleTrainModel = async () => {
@@ -427,34 +562,60 @@ export default function BulkUpload() {
   };
 
   const clearAll = () => {
-    setCsvFile(null);
+    if (selectedSectionId) void clearTrainingJob(selectedSectionId).catch(() => undefined);
+    setSavedJob(null);
+    setRosterFile(null);
     setZipFile(null);
+    setImportTable(null);
+    setWorkbookSheets([]);
     setParsedStudents([]);
     setUploadedImages([]);
     setTrainingProgress(0);
-    if (csvInputRef.current) csvInputRef.current.value = "";
+    if (rosterInputRef.current) rosterInputRef.current.value = "";
     if (zipInputRef.current) zipInputRef.current.value = "";
   };
 
   const downloadSampleCsv = () => {
-    const sampleData = `S.No,Roll.No,Student Name,Branch,Semester,Gender
-1,22KT1A4301,ADIVARAPU KAVYA SRI,CSE-AI,VIII Semester,F
-2,22KT1A4302,BHIMANA CHARITHASRI,CSE-AI,VIII Semester,F
-3,22KT1A4303,STUDENT NAME,CSE-AI,VIII Semester,M`;
-
-    const blob = new Blob([sampleData], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "sample_students.csv";
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadCsv("sample_students.csv", [
+      ["S.No", "Roll.No", "Student Name", "Branch", "Semester", "Gender"],
+      ...SAMPLE_ROSTER_ROWS,
+    ]);
+  };
+
+  const downloadSampleXlsx = () => {
+    void downloadXlsx("sample_students.xlsx", [
+      {
+        name: "Students",
+        columns: [
+          { header: "S.No", type: "number", width: 8 },
+          { header: "Roll.No", type: "text", width: 16 },
+          { header: "Student Name", type: "text", width: 28 },
+          { header: "Branch", type: "text" },
+          { header: "Semester", type: "text", width: 16 },
+          { header: "Gender", type: "text", width: 10 },
+        ],
+        rows: SAMPLE_ROSTER_ROWS.map(([serialNo, ...rest]) => [Number(serialNo), ...rest]),
+      },
+    ]);
+  };
+
+  const downloadImageReport = () => {
+    downloadCsv("image_matching_report.csv", [
+      ["Type", "Item", "Detail"],
+      ...imageMatch.unmatchedFiles.map((path) => ["Unmatched file", path, "No student with this roll number, folder or S.No"]),
+      ...imageMatch.studentsWithoutImages.map((student) => [
+        "Student without photo",
+        student.rollNumber,
+        `S.No ${student.serialNo}`,
+      ]),
+    ]);
   };
 
   const selectedSection = assignedSections.find(s => s.id === selectedSectionId);
   const pendingCount = parsedStudents.filter(s => s.status === "pending" && s.hasImage).length;
   const successCount = parsedStudents.filter(s => s.status === "success").length;
   const failedCount = parsedStudents.filter(s => s.status === "failed").length;
+  const retryableCount = parsedStudents.filter(s => s.status === "failed" && s.hasImage).length;
   const noImageCount = parsedStudents.filter(s => !s.hasImage).length;
 
   return (
@@ -472,7 +633,7 @@ export default function BulkUpload() {
               Bulk Upload & Training
             </h1>
             <p className="text-muted-foreground">
-              Upload CSV with student data and ZIP with face images for bulk training
+              Upload a CSV or Excel roster and a ZIP of face images for bulk training
             </p>
           </div>
           
@@ -571,49 +732,77 @@ export default function BulkUpload() {
 
             {/* Upload Cards */}
             <div className="grid gap-6 lg:grid-cols-2">
-              {/* CSV Upload */}
+              {/* Roster Upload */}
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <FileSpreadsheet className="h-5 w-5" />
-                    Student Data (CSV)
+                    Student Data (CSV or Excel)
                   </CardTitle>
                   <CardDescription>
-                    Upload CSV with columns: S.No, Roll.No, Student Name, Branch, Semester, Gender
+                    Upload CSV or .xlsx with columns: S.No, Roll.No, Student Name, Branch, Semester, Gender
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="border-2 border-dashed rounded-lg p-6 text-center">
                     <input
-                      ref={csvInputRef}
+                      ref={rosterInputRef}
                       type="file"
-                      accept=".csv"
-                      onChange={handleCsvUpload}
+                      accept=".csv,.xlsx"
+                      onChange={handleRosterUpload}
                       className="hidden"
-                      id="csv-upload"
+                      id="roster-upload"
                     />
                     <label
-                      htmlFor="csv-upload"
+                      htmlFor="roster-upload"
                       className="cursor-pointer flex flex-col items-center gap-2"
                     >
                       <FileSpreadsheet className="h-10 w-10 text-muted-foreground" />
                       <span className="text-sm font-medium">
-                        {csvFile ? csvFile.name : "Click to upload CSV"}
+                        {rosterFile ? rosterFile.name : "Click to upload CSV or Excel"}
                       </span>
                       <span className="text-xs text-muted-foreground">
                         or drag and drop
                       </span>
                     </label>
                   </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={downloadSampleCsv}
-                    className="gap-2"
-                  >
-                    <Download className="h-4 w-4" />
-                    Download Sample CSV
-                  </Button>
+                  {workbookSheets.length > 1 && (
+                    <div className="space-y-2">
+                      <span className="text-sm font-medium">Sheet</span>
+                      <Select value={selectedSheet} onValueChange={handleSheetChange}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {workbookSheets.map((sheet) => (
+                            <SelectItem key={sheet.name} value={sheet.name}>
+                              {sheet.name} ({Math.max(sheet.rows.length - 1, 0)} rows)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="flex gap-2 flex-wrap">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={downloadSampleCsv}
+                      className="gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Sample CSV
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={downloadSampleXlsx}
+                      className="gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Sample Excel
+                    </Button>
+                  </div>
                 </CardContent>
               </Card>
 
@@ -625,7 +814,7 @@ export default function BulkUpload() {
                     Face Images (ZIP)
                   </CardTitle>
                   <CardDescription>
-                    Upload ZIP with images named by S.No (e.g., 1.jpg, 2.png)
+                    Name images by roll number (21CS045.jpg, 21CS045_2.jpg), put them in a folder per roll number, or name them by S.No (1.jpg)
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -657,6 +846,111 @@ export default function BulkUpload() {
               </Card>
             </div>
 
+            {/* Interrupted training run */}
+            {savedJob && parsedStudents.length === 0 && !importTable && (
+              <Card className="border-primary/40">
+                <CardContent className="py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div className="flex items-start gap-3">
+                    <History className="h-5 w-5 text-primary mt-0.5" />
+                    <div>
+                      <p className="font-medium">Unfinished training run</p>
+                      <p className="text-sm text-muted-foreground">
+                        {savedJob.students.filter((s) => s.status === "success").length} of{" "}
+                        {savedJob.students.filter((s) => s.hasImage).length} students trained from{" "}
+                        {savedJob.roster_name ?? "a roster"}, last saved{" "}
+                        {new Date(savedJob.updated_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={discardJob}>
+                      Discard
+                    </Button>
+                    <Button onClick={resumeJob} className="gap-2">
+                      <Play className="h-4 w-4" />
+                      Resume
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Column mapping and validation before anything is saved */}
+            {importTable && rosterFile && (
+              <ImportPreviewCard
+                fileName={rosterFile.name}
+                table={importTable}
+                sectionId={selectedSectionId}
+                onConfirm={handleImportConfirm}
+                onCancel={discardImport}
+              />
+            )}
+
+            {/* Image matching report */}
+            {uploadedImages.length > 0 && parsedStudents.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="text-lg">Image Matching</CardTitle>
+                      <CardDescription>
+                        {uploadedImages.length - imageMatch.unmatchedFiles.length} of {uploadedImages.length} images
+                        matched to {imageMatch.imagesBySerial.size} students
+                      </CardDescription>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={downloadImageReport}
+                      disabled={imageMatch.unmatchedFiles.length === 0 && imageMatch.studentsWithoutImages.length === 0}
+                      className="gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download Report
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="grid gap-6 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">
+                      Unmatched files ({imageMatch.unmatchedFiles.length})
+                    </p>
+                    {imageMatch.unmatchedFiles.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Every image matched a student</p>
+                    ) : (
+                      <ul className="text-sm text-muted-foreground space-y-1 font-mono">
+                        {imageMatch.unmatchedFiles.slice(0, REPORT_PREVIEW_LIMIT).map((path) => (
+                          <li key={path} className="truncate">{path}</li>
+                        ))}
+                        {imageMatch.unmatchedFiles.length > REPORT_PREVIEW_LIMIT && (
+                          <li>…and {imageMatch.unmatchedFiles.length - REPORT_PREVIEW_LIMIT} more</li>
+                        )}
+                      </ul>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">
+                      Students without photos ({imageMatch.studentsWithoutImages.length})
+                    </p>
+                    {imageMatch.studentsWithoutImages.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Every student has at least one photo</p>
+                    ) : (
+                      <ul className="text-sm text-muted-foreground space-y-1">
+                        {imageMatch.studentsWithoutImages.slice(0, REPORT_PREVIEW_LIMIT).map((student) => (
+                          <li key={student.serialNo}>
+                            <span className="font-mono">{student.rollNumber}</span> · S.No {student.serialNo}
+                          </li>
+                        ))}
+                        {imageMatch.studentsWithoutImages.length > REPORT_PREVIEW_LIMIT && (
+                          <li>…and {imageMatch.studentsWithoutImages.length - REPORT_PREVIEW_LIMIT} more</li>
+                        )}
+                      </ul>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Summary & Actions */}
             {parsedStudents.length > 0 && (
               <Card>
@@ -665,10 +959,20 @@ export default function BulkUpload() {
                     <div>
                       <CardTitle className="text-lg">Upload Summary</CardTitle>
                       <CardDescription>
-                        {parsedStudents.length} students parsed from CSV
+                        {parsedStudents.length} students imported from{" "}
+                        {rosterFile?.name ?? savedJob?.roster_name ?? "the roster"}
                       </CardDescription>
                     </div>
-                    <div className="flex gap-2">
+                    <div className="flex gap-2 flex-wrap justify-end">
+                      <Button
+                        variant="outline"
+                        onClick={downloadTrainingReport}
+                        disabled={isUploading}
+                        className="gap-2"
+                      >
+                        <Download className="h-4 w-4" />
+                        Report
+                      </Button>
                       <Button
                         variant="outline"
                         onClick={clearAll}
@@ -677,6 +981,17 @@ export default function BulkUpload() {
                         <Trash2 className="h-4 w-4 mr-2" />
                         Clear All
                       </Button>
+                      {retryableCount > 0 && (
+                        <Button
+                          variant="outline"
+                          onClick={retryFailed}
+                          disabled={isUploading || !isApiAvailable}
+                          className="gap-2"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                          Retry Failed ({retryableCount})
+                        </Button>
+                      )}
                       <Button
                         onClick={startBulkTraining}
                         disabled={pendingCount === 0 || isUploading || !isApiAvailable}
@@ -699,7 +1014,7 @@ export default function BulkUpload() {
                   {isUploading && (
                     <div className="space-y-2">
                       <div className="flex items-center justify-between text-sm">
-                        <span>Training: {currentTrainingStudent}</span>
+                        <span>Training {currentTrainingStudent}</span>
                         <span>{Math.round(trainingProgress)}%</span>
                       </div>
                       <Progress value={trainingProgress} />
@@ -734,8 +1049,9 @@ export default function BulkUpload() {
                           <TableHead>Roll Number</TableHead>
                           <TableHead>Name</TableHead>
                           <TableHead>Branch</TableHead>
-                          <TableHead className="text-center">Image</TableHead>
+                          <TableHead className="text-center">Images</TableHead>
                           <TableHead className="text-center">Status</TableHead>
+                          <TableHead className="w-12" />
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -749,7 +1065,10 @@ export default function BulkUpload() {
                             <TableCell>{student.branch}</TableCell>
                             <TableCell className="text-center">
                               {student.hasImage ? (
-                                <CheckCircle className="h-4 w-4 text-green-600 mx-auto" />
+                                <span className="inline-flex items-center gap-1 text-sm text-green-600">
+                                  <CheckCircle className="h-4 w-4" />
+                                  {imageMatch.imagesBySerial.get(student.serialNo)?.length ?? 0}
+                                </span>
                               ) : (
                                 <XCircle className="h-4 w-4 text-red-500 mx-auto" />
                               )}
@@ -770,12 +1089,26 @@ export default function BulkUpload() {
                                 </Badge>
                               )}
                               {student.status === "failed" && (
-                                <Badge variant="destructive">Failed</Badge>
+                                <Badge variant="destructive" title={student.message}>Failed</Badge>
                               )}
                               {student.status === "no_image" && (
                                 <Badge variant="outline">No Image</Badge>
                               )}
                             </TableCell>
+                            <TableCell>
+                              {student.status === "failed" && student.hasImage && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  title="Retry training"
+                                  onClick={() => retryStudent(student)}
+                                  disabled={isUploading || !isApiAvailable}
+                                >
+                                  <RotateCcw className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </TableCell>
                           </TableRow>
                         ))}
                       </TableBody>
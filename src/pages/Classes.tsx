@@ -1,12 +1,18 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { motion } from "framer-motion";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
+import { EditAttendanceDialog } from "@/components/attendance/EditAttendanceDialog";
+import { ScheduleClassDialog } from "@/components/classes/ScheduleClassDialog";
+import { EditClassDialog, EditableClass } from "@/components/classes/EditClassDialog";
+import { CancelClassDialog } from "@/components/classes/CancelClassDialog";
+import { SubstituteTeacherDialog } from "@/components/classes/SubstituteTeacherDialog";
+import { ClassHistoryDialog } from "@/components/classes/ClassHistoryDialog";
+import { canTransition, isClassMissed } from "@/lib/classLifecycle";
+import { downloadXlsx } from "@/lib/xlsx";
+import { fetchClassRegister } from "@/services/registerApi";
 import { useToast } from "@/hooks/use-toast";
 import {
   Table,
@@ -16,21 +22,19 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
 import {
   Users,
   Plus,
   Calendar,
   Clock,
   BookOpen,
-  Loader2,
+  PencilLine,
+  Repeat,
+  XCircle,
+  CalendarClock,
+  UserCog,
+  History,
+  FileDown,
 } from "lucide-react";
 
 interface ClassSchedule {
@@ -39,6 +43,12 @@ interface ClassSchedule {
   start_time: string;
   end_time: string;
   status: string;
+  subject_id: string;
+  teacher_id: string | null;
+  original_teacher_id: string | null;
+  series_id: string | null;
+  is_series_exception: boolean;
+  cancellation_reason: string | null;
   subject: {
     name: string;
     code: string;
@@ -51,13 +61,25 @@ export default function Classes() {
   const [loading, setLoading] = useState(true);
   const [isAddingClass, setIsAddingClass] = useState(false);
   const [subjects, setSubjects] = useState<any[]>([]);
-  const [newClass, setNewClass] = useState({
-    subjectId: "",
-    date: new Date().toISOString().split("T")[0],
-    startTime: "09:00",
-    endTime: "10:00",
-  });
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingClass, setEditingClass] = useState<ClassSchedule | null>(null);
+  const [reschedulingClass, setReschedulingClass] = useState<EditableClass | null>(null);
+  const [cancellingClass, setCancellingClass] = useState<ClassSchedule | null>(null);
+  const [substitutingClass, setSubstitutingClass] = useState<ClassSchedule | null>(null);
+  const [historyClass, setHistoryClass] = useState<ClassSchedule | null>(null);
+
+  const substitutableClass = useMemo(
+    () =>
+      substitutingClass && {
+        id: substitutingClass.id,
+        subjectId: substitutingClass.subject_id,
+        teacherId: substitutingClass.teacher_id,
+        originalTeacherId: substitutingClass.original_teacher_id,
+        classDate: substitutingClass.class_date,
+        startTime: substitutingClass.start_time,
+        endTime: substitutingClass.end_time,
+      },
+    [substitutingClass],
+  );
 
   useEffect(() => {
     fetchClasses();
@@ -74,6 +96,12 @@ export default function Classes() {
         start_time,
         end_time,
         status,
+        subject_id,
+        teacher_id,
+        original_teacher_id,
+        series_id,
+        is_series_exception,
+        cancellation_reason,
         subjects (
           name,
           code
@@ -88,6 +116,12 @@ export default function Classes() {
         start_time: c.start_time,
         end_time: c.end_time,
         status: c.status,
+        subject_id: c.subject_id,
+        teacher_id: c.teacher_id,
+        original_teacher_id: c.original_teacher_id,
+        series_id: c.series_id,
+        is_series_exception: c.is_series_exception,
+        cancellation_reason: c.cancellation_reason,
         subject: {
           name: c.subjects?.name || "Unknown",
           code: c.subjects?.code || "",
@@ -117,58 +151,14 @@ export default function Classes() {
     setSubjects(data || []);
   };
 
-  const addClass = async () => {
-    if (!newClass.subjectId) {
-      toast({
-        title: "Missing Information",
-        description: "Please select a subject.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setIsSubmitting(true);
-
-    const { data: userData } = await supabase.auth.getUser();
-
-    const { error } = await supabase.from("classes").insert({
-      subject_id: newClass.subjectId,
-      class_date: newClass.date,
-      start_time: newClass.startTime,
-      end_time: newClass.endTime,
-      teacher_id: userData.user?.id,
-      status: "scheduled",
-    });
-
-    if (error) {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    } else {
-      toast({
-        title: "Success",
-        description: "Class scheduled successfully.",
-      });
-      setNewClass({
-        subjectId: "",
-        date: new Date().toISOString().split("T")[0],
-        startTime: "09:00",
-        endTime: "10:00",
-      });
-      setIsAddingClass(false);
-      fetchClasses();
-    }
-    setIsSubmitting(false);
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case "completed":
         return "bg-success/10 text-success border-success/20";
       case "in_progress":
         return "bg-warning/10 text-warning border-warning/20";
+      case "missed":
+        return "bg-warning/10 text-warning border-warning/40 border-dashed";
       case "cancelled":
         return "bg-danger/10 text-danger border-danger/20";
       default:
@@ -176,6 +166,39 @@ export default function Classes() {
     }
   };
 
+  const exportRegister = async (cls: ClassSchedule) => {
+    try {
+      const register = await fetchClassRegister(cls.id);
+      await downloadXlsx(`register_${register.subjectCode || "class"}_${register.classDate}.xlsx`, [
+        {
+          name: `${register.subjectCode} ${register.classDate}`,
+          columns: [
+            { header: "Roll Number", type: "text", width: 16 },
+            { header: "Student Name", type: "text", width: 28 },
+            { header: "Status", type: "text", width: 10 },
+            { header: "Marked At", type: "datetime", width: 18 },
+            { header: "Manual", type: "text", width: 8 },
+            { header: "Face Match", type: "percent", width: 12 },
+          ],
+          rows: register.entries.map((entry) => [
+            entry.rollNumber,
+            entry.fullName,
+            entry.status,
+            entry.markedAt,
+            entry.status ? (entry.isManualOverride ? "Yes" : "No") : null,
+            entry.faceConfidence,
+          ]),
+        },
+      ]);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Could not export the register",
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString("en-US", {
       weekday: "short",
@@ -198,72 +221,10 @@ export default function Classes() {
               Schedule and manage your class sessions
             </p>
           </div>
-          <Dialog open={isAddingClass} onOpenChange={setIsAddingClass}>
-            <DialogTrigger asChild>
-              <Button className="gap-2">
-                <Plus className="h-4 w-4" />
-                Schedule Class
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Schedule New Class</DialogTitle>
-                <DialogDescription>
-                  Create a new class session
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4 pt-4">
-                <div className="space-y-2">
-                  <Label>Subject</Label>
-                  <Select
-                    value={newClass.subjectId}
-                    onValueChange={(value) => setNewClass({ ...newClass, subjectId: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select subject" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {subjects.map((subject) => (
-                        <SelectItem key={subject.id} value={subject.id}>
-                          {subject.name} ({subject.code})
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label>Date</Label>
-                  <Input
-                    type="date"
-                    value={newClass.date}
-                    onChange={(e) => setNewClass({ ...newClass, date: e.target.value })}
-                  />
-                </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label>Start Time</Label>
-                    <Input
-                      type="time"
-                      value={newClass.startTime}
-                      onChange={(e) => setNewClass({ ...newClass, startTime: e.target.value })}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>End Time</Label>
-                    <Input
-                      type="time"
-                      value={newClass.endTime}
-                      onChange={(e) => setNewClass({ ...newClass, endTime: e.target.value })}
-                    />
-                  </div>
-                </div>
-                <Button onClick={addClass} className="w-full" disabled={isSubmitting}>
-                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                  Schedule Class
-                </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
+          <Button className="gap-2" onClick={() => setIsAddingClass(true)}>
+            <Plus className="h-4 w-4" />
+            Schedule Class
+          </Button>
         </div>
 
         <Card>
@@ -296,6 +257,7 @@ export default function Classes() {
                       <TableHead>Date</TableHead>
                       <TableHead>Time</TableHead>
                       <TableHead className="text-center">Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -307,7 +269,21 @@ export default function Classes() {
                               <BookOpen className="h-4 w-4 text-accent" />
                             </div>
                             <div>
-                              <p className="font-medium">{cls.subject.name}</p>
+                              <p className="font-medium flex items-center gap-1.5">
+                                {cls.subject.name}
+                                {cls.original_teacher_id && (
+                                  <UserCog
+                                    className="h-3.5 w-3.5 text-muted-foreground"
+                                    aria-label="Taken by a substitute teacher"
+                                  />
+                                )}
+                                {cls.series_id && (
+                                  <Repeat
+                                    className="h-3.5 w-3.5 text-muted-foreground"
+                                    aria-label={cls.is_series_exception ? "Edited occurrence of a weekly series" : "Weekly series"}
+                                  />
+                                )}
+                              </p>
                               <p className="text-sm text-muted-foreground">
                                 {cls.subject.code}
                               </p>
@@ -327,13 +303,103 @@ export default function Classes() {
                           </div>
                         </TableCell>
                         <TableCell className="text-center">
-                          <span
-                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(
-                              cls.status
-                            )}`}
+                          {isClassMissed(cls) ? (
+                            <span
+                              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(
+                                "missed"
+                              )}`}
+                              title="The class has ended without attendance being submitted"
+                            >
+                              Missed
+                            </span>
+                          ) : (
+                            <span
+                              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(
+                                cls.status
+                              )}`}
+                            >
+                              {cls.status.charAt(0).toUpperCase() + cls.status.slice(1).replace("_", " ")}
+                            </span>
+                          )}
+                          {cls.status === "cancelled" && cls.cancellation_reason && (
+                            <p className="text-xs text-muted-foreground mt-1">{cls.cancellation_reason}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {cls.status === "scheduled" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() =>
+                                setReschedulingClass({
+                                  id: cls.id,
+                                  subjectId: cls.subject_id,
+                                  teacherId: cls.teacher_id,
+                                  seriesId: cls.series_id,
+                                  classDate: cls.class_date,
+                                  startTime: cls.start_time,
+                                  endTime: cls.end_time,
+                                  label: `${cls.subject.name} · ${formatDate(cls.class_date)}`,
+                                })
+                              }
+                            >
+                              <CalendarClock className="h-4 w-4" />
+                              Edit
+                            </Button>
+                          )}
+                          {cls.status === "scheduled" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() => setSubstitutingClass(cls)}
+                            >
+                              <UserCog className="h-4 w-4" />
+                              Substitute
+                            </Button>
+                          )}
+                          {canTransition(cls.status, "cancelled") && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="gap-2 text-danger hover:text-danger"
+                              onClick={() => setCancellingClass(cls)}
+                            >
+                              <XCircle className="h-4 w-4" />
+                              Cancel
+                            </Button>
+                          )}
+                          {cls.status === "completed" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() => setEditingClass(cls)}
+                            >
+                              <PencilLine className="h-4 w-4" />
+                              Edit Attendance
+                            </Button>
+                          )}
+                          {cls.status === "completed" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => void exportRegister(cls)}
+                              aria-label="Export register"
+                              title="Export register (.xlsx)"
+                            >
+                              <FileDown className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistoryClass(cls)}
+                            aria-label="Change history"
                           >
-                            {cls.status.charAt(0).toUpperCase() + cls.status.slice(1).replace("_", " ")}
-                          </span>
+                            <History className="h-4 w-4" />
+                          </Button>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -344,6 +410,50 @@ export default function Classes() {
           </CardContent>
         </Card>
       </motion.div>
+
+      <ScheduleClassDialog
+        open={isAddingClass}
+        onOpenChange={setIsAddingClass}
+        subjects={subjects}
+        onScheduled={fetchClasses}
+      />
+
+      <EditClassDialog
+        classInfo={reschedulingClass}
+        open={reschedulingClass !== null}
+        onOpenChange={(open) => !open && setReschedulingClass(null)}
+        onSaved={fetchClasses}
+      />
+
+      <CancelClassDialog
+        classId={cancellingClass?.id ?? null}
+        classLabel={cancellingClass ? `${cancellingClass.subject.name} · ${formatDate(cancellingClass.class_date)}` : undefined}
+        open={cancellingClass !== null}
+        onOpenChange={(open) => !open && setCancellingClass(null)}
+        onCancelled={fetchClasses}
+      />
+
+      <SubstituteTeacherDialog
+        classInfo={substitutableClass}
+        classLabel={substitutingClass ? `${substitutingClass.subject.name} · ${formatDate(substitutingClass.class_date)}` : undefined}
+        open={substitutingClass !== null}
+        onOpenChange={(open) => !open && setSubstitutingClass(null)}
+        onAssigned={fetchClasses}
+      />
+
+      <ClassHistoryDialog
+        classId={historyClass?.id ?? null}
+        classLabel={historyClass ? `${historyClass.subject.name} · ${formatDate(historyClass.class_date)}` : undefined}
+        open={historyClass !== null}
+        onOpenChange={(open) => !open && setHistoryClass(null)}
+      />
+
+      <EditAttendanceDialog
+        classId={editingClass?.id ?? null}
+        classLabel={editingClass ? `${editingClass.subject.name} · ${formatDate(editingClass.class_date)}` : undefined}
+        open={editingClass !== null}
+        onOpenChange={(open) => !open && setEditingClass(null)}
+      />
     </DashboardLayout>
   );
 }
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import { useAuth } from "@/contexts/AuthContext";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
@@ -8,6 +8,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
+import { useSystemSettings } from "@/hooks/useSystemSettings";
+import { useAcademicCalendar } from "@/hooks/useAcademicCalendar";
+import { fetchStudentAttendanceSummary } from "@/services/analyticsApi";
+import { getRiskLevel, getRiskThresholds } from "@/lib/attendanceRisk";
+import type { AcademicTerm } from "@/lib/academicCalendar";
+import { isClassMissed } from "@/lib/classLifecycle";
 import {
   Users,
   GraduationCap,
@@ -18,8 +24,12 @@ import {
   CheckCircle2,
   Clock,
   ArrowRight,
+  CalendarX,
 } from "lucide-react";
 
+// How far back unfinished classes are still flagged as missed
+const MISSED_LOOKBACK_DAYS = 14;
+
 interface DashboardStats {
   totalStudents: number;
   totalClasses: number;
@@ -28,9 +38,21 @@ interface DashboardStats {
   atRiskStudents: number;
 }
 
+/** Columns selected for the missed-classes card */
+interface MissedClass {
+  id: string;
+  class_date: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  subjects: { name: string; code: string } | null;
+}
+
 export default function Dashboard() {
   const { user, role } = useAuth();
   const navigate = useNavigate();
+  const { settings } = useSystemSettings();
+  const { currentTerm, isLoading: calendarLoading } = useAcademicCalendar();
   const [stats, setStats] = useState<DashboardStats>({
     totalStudents: 0,
     totalClasses: 0,
@@ -39,13 +61,10 @@ export default function Dashboard() {
     atRiskStudents: 0,
   });
   const [todaysClasses, setTodaysClasses] = useState<any[]>([]);
+  const [missedClasses, setMissedClasses] = useState<MissedClass[]>([]);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    fetchDashboardData();
-  }, [user, role]);
-
-  const fetchDashboardData = async () => {
+  const fetchDashboardData = useCallback(async (term: AcademicTerm | null) => {
     try {
       // Fetch students count
       const { count: studentsCount } = await supabase
@@ -62,21 +81,55 @@ export default function Dashboard() {
         `)
         .eq("class_date", today);
 
+      // Classes whose end time passed without attendance being submitted
+      const lookback = new Date();
+      lookback.setDate(lookback.getDate() - MISSED_LOOKBACK_DAYS);
+      const { data: unfinishedData } = role === "student"
+        ? { data: [] }
+        : await supabase
+            .from("classes")
+            .select(`
+              id, class_date, start_time, end_time, status,
+              subjects (name, code)
+            `)
+            .in("status", ["scheduled", "in_progress"])
+            .gte("class_date", lookback.toISOString().split("T")[0])
+            .lte("class_date", today)
+            .order("class_date", { ascending: false });
+
+      // Percentages only count classes in the current term, when one is defined
+      const summaries = role === "student"
+        ? []
+        : await fetchStudentAttendanceSummary(
+            term ? { from: term.startDate, to: term.endDate } : {},
+          );
+      const withClasses = summaries.filter((summary) => summary.totalClasses > 0);
+
       setStats({
         totalStudents: studentsCount || 0,
         totalClasses: classesData?.length || 0,
         todayAttendance: 0,
-        averageAttendance: 85, // Placeholder
-        atRiskStudents: 0,
+        averageAttendance: withClasses.length > 0
+          ? Math.round(withClasses.reduce((acc, summary) => acc + summary.percentage, 0) / withClasses.length)
+          : 0,
+        atRiskStudents: withClasses.filter(
+          (summary) =>
+            getRiskLevel(summary.percentage, getRiskThresholds(settings, summary.departmentId)) === "risk",
+        ).length,
       });
 
       setTodaysClasses(classesData || []);
+      setMissedClasses((unfinishedData || []).filter((cls) => isClassMissed(cls)));
     } catch (error) {
       console.error("Error fetching dashboard data:", error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [role, settings]);
+
+  useEffect(() => {
+    if (!calendarLoading) fetchDashboardData(currentTerm);
+  }, [user, calendarLoading, currentTerm, fetchDashboardData]);
 
   const containerVariants = {
     hidden: { opacity: 0 },
@@ -133,14 +186,14 @@ export default function Dashboard() {
             value={`${stats.averageAttendance}%`}
             icon={TrendingUp}
             variant="success"
-            subtitle="This month"
+            subtitle={currentTerm ? currentTerm.name : "All time"}
           />
           <StatCard
             title="At Risk Students"
             value={stats.atRiskStudents}
             icon={AlertTriangle}
             variant={stats.atRiskStudents > 0 ? "danger" : "default"}
-            subtitle="Below 70%"
+            subtitle={`Below ${settings.lowAttendanceAlertThreshold}%`}
           />
         </motion.div>
 
@@ -196,21 +249,27 @@ export default function Dashboard() {
                             </p>
                           </div>
                         </div>
-                        <StatusBadge
-                          variant={
-                            cls.status === "completed"
-                              ? "safe"
+                        {isClassMissed(cls) ? (
+                          <StatusBadge variant="risk">Missed</StatusBadge>
+                        ) : (
+                          <StatusBadge
+                            variant={
+                              cls.status === "completed"
+                                ? "safe"
+                                : cls.status === "in_progress"
+                                ? "warning"
+                                : "default"
+                            }
+                          >
+                            {cls.status === "completed"
+                              ? "Completed"
                               : cls.status === "in_progress"
-                              ? "warning"
-                              : "default"
-                          }
-                        >
-                          {cls.status === "completed"
-                            ? "Completed"
-                            : cls.status === "in_progress"
-                            ? "In Progress"
-                            : "Scheduled"}
-                        </StatusBadge>
+                              ? "In Progress"
+                              : cls.status === "cancelled"
+                              ? "Cancelled"
+                              : "Scheduled"}
+                          </StatusBadge>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -262,13 +321,13 @@ export default function Dashboard() {
                 <Button
                   variant="outline"
                   className="w-full justify-between h-14 px-4"
-                  onClick={() => navigate("/analytics")}
+                  onClick={() => navigate(role === "student" ? "/my-attendance" : "/analytics")}
                 >
                   <div className="flex items-center gap-3">
                     <div className="h-8 w-8 rounded-lg bg-success/10 flex items-center justify-center">
                       <TrendingUp className="h-4 w-4 text-success" />
                     </div>
-                    <span>View Analytics</span>
+                    <span>{role === "student" ? "View My Attendance" : "View Analytics"}</span>
                   </div>
                   <ArrowRight className="h-4 w-4 text-muted-foreground" />
                 </Button>
@@ -277,6 +336,49 @@ export default function Dashboard() {
           </motion.div>
         </div>
 
+        {/* Missed Classes */}
+        {missedClasses.length > 0 && (
+          <motion.div variants={itemVariants}>
+            <Card className="border-danger/30">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <CalendarX className="h-5 w-5 text-danger" />
+                    Missed Classes
+                  </CardTitle>
+                  <CardDescription>
+                    Ended without attendance in the last {MISSED_LOOKBACK_DAYS} days
+                  </CardDescription>
+                </div>
+                <Button variant="outline" onClick={() => navigate("/classes")}>
+                  Review
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {missedClasses.map((cls) => (
+                    <div
+                      key={cls.id}
+                      className="flex items-center justify-between p-3 rounded-lg bg-danger/5"
+                    >
+                      <p className="font-medium">
+                        {cls.subjects?.name || "Unknown Subject"}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {new Date(`${cls.class_date}T00:00:00`).toLocaleDateString("en-US", {
+                          month: "short",
+                          day: "numeric",
+                        })}{" "}
+                        · {cls.start_time} - {cls.end_time}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
         {/* Attendance Overview */}
         <motion.div variants={itemVariants}>
           <Card>
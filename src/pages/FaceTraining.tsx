@@ -15,6 +15,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { CaptureGuidance, QualityScoreBadge } from "@/components/face-capture/CaptureGuidance";
+import { FaceQuality, POSE_PROMPTS, assessFaceQuality, measureFrame } from "@/lib/faceQuality";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useFaceApi } from "@/hooks/useFaceApi";
@@ -38,6 +40,7 @@ import {
 interface CapturedImage {
   id: number;
   dataUrl: string;
+  quality: FaceQuality;
 }
 
 interface TrainingSession {
@@ -87,6 +90,8 @@ export default function FaceTraining() {
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [capturedImages, setCapturedImages] = useState<CapturedImage[]>([]);
   const [isCapturing, setIsCapturing] = useState(false);
+  const [isCheckingQuality, setIsCheckingQuality] = useState(false);
+  const [lastQuality, setLastQuality] = useState<FaceQuality | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
 
@@ -234,7 +239,7 @@ export default function FaceTraining() {
     setIsCameraActive(false);
   };
 
-  const captureImage = useCallback(() => {
+  const captureImage = useCallback(async () => {
     if (!videoRef.current || !canvasRef.current) return;
 
     const video = videoRef.current;
@@ -245,19 +250,26 @@ export default function FaceTraining() {
       canvas.width = video.videoWidth;
       canvas.height = video.videoHeight;
       context.drawImage(video, 0, 0);
-
       const dataUrl = canvas.toDataURL("image/jpeg", 0.8);
-      const newImage: CapturedImage = {
-        id: Date.now(),
-        dataUrl,
-      };
 
-      setCapturedImages(prev => [...prev, newImage]);
+      setIsCheckingQuality(true);
+      try {
+        const quality = assessFaceQuality(
+          await measureFrame(canvas),
+          capturedImages.map((img) => img.quality.hash),
+        );
+        setLastQuality(quality);
+        if (!quality.acceptable) return;
+
+        setCapturedImages(prev => [...prev, { id: Date.now(), dataUrl, quality }]);
 
-      setIsCapturing(true);
-      setTimeout(() => setIsCapturing(false), 150);
+        setIsCapturing(true);
+        setTimeout(() => setIsCapturing(false), 150);
+      } finally {
+        setIsCheckingQuality(false);
+      }
     }
-  }, []);
+  }, [capturedImages]);
 
   const removeImage = (id: number) => {
     setCapturedImages(prev => prev.filter(img => img.id !== id));
@@ -265,6 +277,7 @@ export default function FaceTraining() {
 
   const clearAllImages = () => {
     setCapturedImages([]);
+    setLastQuality(null);
   };
 
   const handleTrainStudent = async (e: React.FormEvent) => {
@@ -363,6 +376,7 @@ export default function FaceTraining() {
         // Reset form
         setFormData({ fullName: "", rollNumber: "", email: "" });
         setCapturedImages([]);
+        setLastQuality(null);
       } else {
         setRecentTrainings(prev =>
           prev.map(t =>
@@ -661,9 +675,13 @@ export default function FaceTraining() {
                         <Button
                           onClick={captureImage}
                           className="flex-1 gap-2"
-                          disabled={capturedImages.length >= 10}
+                          disabled={capturedImages.length >= 10 || isCheckingQuality}
                         >
-                          <Camera className="h-4 w-4" />
+                          {isCheckingQuality ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Camera className="h-4 w-4" />
+                          )}
                           Capture ({capturedImages.length}/10)
                         </Button>
                         <Button variant="destructive" onClick={stopCamera}>
@@ -673,6 +691,10 @@ export default function FaceTraining() {
                     )}
                   </div>
 
+                  {isCameraActive && (
+                    <CaptureGuidance quality={lastQuality} initialPrompt={POSE_PROMPTS[0]} />
+                  )}
+
                   {/* Captured Images */}
                   {capturedImages.length > 0 && (
                     <div className="space-y-3">
@@ -698,6 +720,7 @@ export default function FaceTraining() {
                               alt="Captured face"
                               className="w-full aspect-square object-cover rounded-lg"
                             />
+                            <QualityScoreBadge score={img.quality.score} />
                             <button
                               onClick={() => removeImage(img.id)}
                               className="absolute -top-1 -right-1 h-5 w-5 bg-destructive text-destructive-foreground rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
@@ -0,0 +1,437 @@
+import { useState, useEffect, useCallback } from "react";
+import { motion } from "framer-motion";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { StatCard } from "@/components/ui/stat-card";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSystemSettings } from "@/hooks/useSystemSettings";
+import { getRiskThresholds } from "@/lib/attendanceRisk";
+import {
+  attendancePercentage,
+  classesCanMiss,
+  classesNeededToReach,
+  isAttendedStatus,
+} from "@/lib/attendanceMath";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  BookOpen,
+  Calendar,
+  CheckCircle2,
+  Clock,
+  GraduationCap,
+  History,
+  ShieldCheck,
+  TrendingUp,
+  AlertTriangle,
+} from "lucide-react";
+
+interface StudentProfile {
+  id: string;
+  fullName: string;
+  rollNumber: string;
+  sectionId: string;
+  departmentId: string | null;
+}
+
+interface ClassRecord {
+  id: string;
+  classDate: string;
+  startTime: string;
+  endTime: string;
+  classStatus: string;
+  subjectId: string;
+  subjectName: string;
+  subjectCode: string;
+  attendanceStatus: string | null;
+}
+
+interface SubjectSummary {
+  subjectId: string;
+  subjectName: string;
+  subjectCode: string;
+  total: number;
+  attended: number;
+  percentage: number;
+  canMiss: number;
+  needed: number;
+}
+
+const STATUS_VARIANTS = ["present", "absent", "late", "excused"] as const;
+
+export default function MyAttendance() {
+  const { user } = useAuth();
+  const { settings } = useSystemSettings();
+  const [student, setStudent] = useState<StudentProfile | null>(null);
+  const [classRecords, setClassRecords] = useState<ClassRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMyAttendance = useCallback(async () => {
+    setLoading(true);
+
+    const { data: studentData } = await supabase
+      .from("students")
+      .select("id, full_name, roll_number, section_id, sections(years(department_id))")
+      .eq("user_id", user?.id)
+      .maybeSingle();
+
+    if (!studentData) {
+      setStudent(null);
+      setLoading(false);
+      return;
+    }
+
+    setStudent({
+      id: studentData.id,
+      fullName: studentData.full_name,
+      rollNumber: studentData.roll_number,
+      sectionId: studentData.section_id,
+      departmentId: studentData.sections?.years?.department_id ?? null,
+    });
+
+    // RLS limits both queries to the student's own section and records.
+    const [{ data: classesData }, { data: attendanceData }] = await Promise.all([
+      supabase
+        .from("classes")
+        .select(`
+          id,
+          class_date,
+          start_time,
+          end_time,
+          status,
+          subject_id,
+          subjects!inner (
+            name,
+            code,
+            section_id
+          )
+        `)
+        .eq("subjects.section_id", studentData.section_id)
+        .order("class_date", { ascending: false })
+        .order("start_time", { ascending: false }),
+      supabase
+        .from("attendance")
+        .select("class_id, status")
+        .eq("student_id", studentData.id),
+    ]);
+
+    const statusByClass = new Map<string, string>(
+      (attendanceData || []).map((row) => [row.class_id, row.status])
+    );
+
+    setClassRecords(
+      (classesData || []).map((cls) => ({
+        id: cls.id,
+        classDate: cls.class_date,
+        startTime: cls.start_time,
+        endTime: cls.end_time,
+        classStatus: cls.status,
+        subjectId: cls.subject_id,
+        subjectName: cls.subjects?.name || "Unknown",
+        subjectCode: cls.subjects?.code || "",
+        attendanceStatus: statusByClass.get(cls.id) ?? null,
+      }))
+    );
+    setLoading(false);
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (user) {
+      fetchMyAttendance();
+    }
+  }, [user, fetchMyAttendance]);
+
+  const threshold = getRiskThresholds(settings, student?.departmentId).required;
+  const today = new Date().toISOString().split("T")[0];
+  const completedClasses = classRecords.filter((c) => c.classStatus === "completed");
+  const upcomingClasses = classRecords
+    .filter((c) => c.classStatus === "scheduled" && c.classDate >= today)
+    .sort((a, b) => `${a.classDate} ${a.startTime}`.localeCompare(`${b.classDate} ${b.startTime}`))
+    .slice(0, 8);
+
+  const subjectSummaries: SubjectSummary[] = Array.from(
+    completedClasses
+      .reduce((map, cls) => {
+        const summary = map.get(cls.subjectId) || {
+          subjectId: cls.subjectId,
+          subjectName: cls.subjectName,
+          subjectCode: cls.subjectCode,
+          total: 0,
+          attended: 0,
+        };
+        summary.total += 1;
+        if (isAttendedStatus(cls.attendanceStatus)) summary.attended += 1;
+        return map.set(cls.subjectId, summary);
+      }, new Map<string, Omit<SubjectSummary, "percentage" | "canMiss" | "needed">>())
+      .values()
+  )
+    .map((summary) => ({
+      ...summary,
+      percentage: attendancePercentage(summary.attended, summary.total),
+      canMiss: classesCanMiss(summary.attended, summary.total, threshold),
+      needed: classesNeededToReach(summary.attended, summary.total, threshold),
+    }))
+    .sort((a, b) => a.subjectName.localeCompare(b.subjectName));
+
+  const totalAttended = completedClasses.filter((c) => isAttendedStatus(c.attendanceStatus)).length;
+  const overallPercentage = attendancePercentage(totalAttended, completedClasses.length);
+  const overallCanMiss = classesCanMiss(totalAttended, completedClasses.length, threshold);
+  const overallNeeded = classesNeededToReach(totalAttended, completedClasses.length, threshold);
+
+  const formatDate = (dateStr: string) =>
+    new Date(`${dateStr}T00:00:00`).toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: {
+      opacity: 1,
+      transition: { staggerChildren: 0.1 },
+    },
+  };
+
+  const itemVariants = {
+    hidden: { opacity: 0, y: 20 },
+    visible: { opacity: 1, y: 0 },
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center py-24">
+          <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!student) {
+    return (
+      <DashboardLayout>
+        <Card>
+          <CardContent className="py-12 text-center">
+            <GraduationCap className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+            <h3 className="text-lg font-medium mb-2">No Student Record Linked</h3>
+            <p className="text-muted-foreground">
+              Your account isn't linked to a student record yet. Please contact your class teacher.
+            </p>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <motion.div
+        variants={containerVariants}
+        initial="hidden"
+        animate="visible"
+        className="space-y-6"
+      >
+        <motion.div variants={itemVariants}>
+          <h1 className="text-3xl font-display font-bold">My Attendance</h1>
+          <p className="text-muted-foreground">
+            {student.fullName} · {student.rollNumber}
+          </p>
+        </motion.div>
+
+        {/* Overview */}
+        <motion.div variants={itemVariants} className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <StatCard
+            title="Overall Attendance"
+            value={`${overallPercentage}%`}
+            icon={TrendingUp}
+            variant={overallPercentage >= threshold ? "success" : "danger"}
+            subtitle={`Minimum required: ${threshold}%`}
+          />
+          <StatCard
+            title="Classes Attended"
+            value={`${totalAttended} / ${completedClasses.length}`}
+            icon={CheckCircle2}
+            variant="accent"
+          />
+          {overallNeeded > 0 ? (
+            <StatCard
+              title="Classes Needed"
+              value={overallNeeded}
+              icon={AlertTriangle}
+              variant="warning"
+              subtitle={`Attend in a row to reach ${threshold}%`}
+            />
+          ) : (
+            <StatCard
+              title="Can Still Miss"
+              value={overallCanMiss}
+              icon={ShieldCheck}
+              variant="success"
+              subtitle={`While staying above ${threshold}%`}
+            />
+          )}
+          <StatCard
+            title="Upcoming Classes"
+            value={upcomingClasses.length}
+            icon={Calendar}
+            variant="default"
+          />
+        </motion.div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Per-subject breakdown */}
+          <motion.div variants={itemVariants} className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <BookOpen className="h-5 w-5" />
+                  By Subject
+                </CardTitle>
+                <CardDescription>
+                  Attendance percentage and margin for each subject
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {subjectSummaries.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <BookOpen className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                    <p>No completed classes yet</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {subjectSummaries.map((summary) => (
+                      <div key={summary.subjectId} className="space-y-2">
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <p className="font-medium">{summary.subjectName}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {summary.subjectCode} · {summary.attended}/{summary.total} attended
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-display font-bold">{summary.percentage}%</p>
+                            <p className="text-xs text-muted-foreground">
+                              {summary.needed > 0
+                                ? `Attend next ${summary.needed} to recover`
+                                : `Can miss ${summary.canMiss} more`}
+                            </p>
+                          </div>
+                        </div>
+                        <Progress value={summary.percentage} className="h-2" />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+
+          {/* Upcoming */}
+          <motion.div variants={itemVariants}>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Calendar className="h-5 w-5" />
+                  Upcoming Classes
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {upcomingClasses.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Calendar className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                    <p>No upcoming classes scheduled</p>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {upcomingClasses.map((cls) => (
+                      <div key={cls.id} className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+                        <div className="h-9 w-9 rounded-lg bg-accent/10 flex items-center justify-center">
+                          <Clock className="h-4 w-4 text-accent" />
+                        </div>
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{cls.subjectName}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {formatDate(cls.classDate)} · {cls.startTime} - {cls.endTime}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        </div>
+
+        {/* Class-by-class history */}
+        <motion.div variants={itemVariants}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Class History
+              </CardTitle>
+              <CardDescription>
+                {completedClasses.length} completed class(es)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {completedClasses.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <History className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                  <p>No attendance history yet</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Subject</TableHead>
+                        <TableHead>Time</TableHead>
+                        <TableHead className="text-center">Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {completedClasses.map((cls) => (
+                        <TableRow key={cls.id}>
+                          <TableCell>{formatDate(cls.classDate)}</TableCell>
+                          <TableCell>
+                            <p className="font-medium">{cls.subjectName}</p>
+                            <p className="text-sm text-muted-foreground">{cls.subjectCode}</p>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {cls.startTime} - {cls.endTime}
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <StatusBadge
+                              variant={STATUS_VARIANTS.find((s) => s === cls.attendanceStatus) ?? "default"}
+                            >
+                              {cls.attendanceStatus
+                                ? cls.attendanceStatus.charAt(0).toUpperCase() + cls.attendanceStatus.slice(1)
+                                : "Not Recorded"}
+                            </StatusBadge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </motion.div>
+    </DashboardLayout>
+  );
+}
@@ -5,8 +5,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { CaptureGuidance, QualityScoreBadge } from "@/components/face-capture/CaptureGuidance";
+import { FaceQuality, POSE_PROMPTS, assessFaceQuality, measureFrame } from "@/lib/faceQuality";
+import { StudentTrainingResult, TrainingStage, trainRegisteredStudent } from "@/services/studentTrainingApi";
 import { supabase } from "@/integrations/supabase/client";
 import {
   Camera,
@@ -20,9 +24,16 @@ import {
   AlertCircle,
 } from "lucide-react";
 
+const TRAINING_STAGE_LABELS: Record<TrainingStage, string> = {
+  storing: "Saving face images...",
+  training: "Training face model...",
+  done: "Done",
+};
+
 interface CapturedImage {
   id: number;
   dataUrl: string;
+  quality: FaceQuality;
 }
 
 export default function RegisterStudent() {
@@ -46,7 +57,11 @@ export default function RegisterStudent() {
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [capturedImages, setCapturedImages] = useState<CapturedImage[]>([]);
   const [isCapturing, setIsCapturing] = useState(false);
+  const [isCheckingQuality, setIsCheckingQuality] = useState(false);
+  const [lastQuality, setLastQuality] = useState<FaceQuality | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [trainingStage, setTrainingStage] = useState<TrainingStage | null>(null);
+  const [trainingProgress, setTrainingProgress] = useState(0);
   const [stream, setStream] = useState<MediaStream | null>(null);
 
   useEffect(() => {
@@ -159,7 +174,7 @@ export default function RegisterStudent() {
     setIsCameraActive(false);
   };
 
-  const captureImage = useCallback(() => {
+  const captureImage = useCallback(async () => {
     if (!videoRef.current || !canvasRef.current) return;
 
     const video = videoRef.current;
@@ -170,20 +185,27 @@ export default function RegisterStudent() {
       canvas.width = video.videoWidth;
       canvas.height = video.videoHeight;
       context.drawImage(video, 0, 0);
-      
       const dataUrl = canvas.toDataURL("image/jpeg", 0.8);
-      const newImage: CapturedImage = {
-        id: Date.now(),
-        dataUrl,
-      };
-
-      setCapturedImages(prev => [...prev, newImage]);
-      
-      // Flash effect
-      setIsCapturing(true);
-      setTimeout(() => setIsCapturing(false), 150);
+
+      setIsCheckingQuality(true);
+      try {
+        const quality = assessFaceQuality(
+          await measureFrame(canvas),
+          capturedImages.map((img) => img.quality.hash),
+        );
+        setLastQuality(quality);
+        if (!quality.acceptable) return;
+
+        setCapturedImages(prev => [...prev, { id: Date.now(), dataUrl, quality }]);
+
+        // Flash effect
+        setIsCapturing(true);
+        setTimeout(() => setIsCapturing(false), 150);
+      } finally {
+        setIsCheckingQuality(false);
+      }
     }
-  }, []);
+  }, [capturedImages]);
 
   const removeImage = (id: number) => {
     setCapturedImages(prev => prev.filter(img => img.id !== id));
@@ -191,6 +213,7 @@ export default function RegisterStudent() {
 
   const clearAllImages = () => {
     setCapturedImages([]);
+    setLastQuality(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -232,15 +255,39 @@ export default function RegisterStudent() {
 
       if (studentError) throw studentError;
 
-      // TODO: Call backend API to process face images and create embeddings
-      // For now, we'll just store the student record
-      
-      toast({
-        title: "Student Registered",
-        description: `${formData.fullName} has been registered successfully. Face training will be processed.`,
-      });
+      // The student exists from here on; a failed training run leaves them
+      // marked for retry from the Students page rather than undoing this
+      let result: StudentTrainingResult;
+      try {
+        result = await trainRegisteredStudent(
+          { studentId: studentData.id, rollNumber: studentData.roll_number },
+          capturedImages.map((img) => img.dataUrl),
+          (stage, fraction) => {
+            setTrainingStage(stage);
+            setTrainingProgress(fraction * 100);
+          },
+        );
+      } catch (error) {
+        result = {
+          success: false,
+          message: error instanceof Error ? error.message : "Face training failed",
+        };
+      }
+
+      if (result.success) {
+        toast({
+          title: "Student Registered",
+          description: `${formData.fullName} has been registered and their face trained.`,
+        });
+      } else {
+        toast({
+          title: "Registered, Training Pending",
+          description: `${formData.fullName} was registered but face training failed: ${result.message}. Retry it from the Students page.`,
+          variant: "destructive",
+        });
+      }
 
-      // Reset form
+      // Reset form either way, so the same roll number isn't submitted twice
       setFormData({
         fullName: "",
         rollNumber: "",
@@ -250,6 +297,7 @@ export default function RegisterStudent() {
         sectionId: "",
       });
       setCapturedImages([]);
+      setLastQuality(null);
       stopCamera();
 
     } catch (error: any) {
@@ -260,6 +308,8 @@ export default function RegisterStudent() {
       });
     } finally {
       setIsSubmitting(false);
+      setTrainingStage(null);
+      setTrainingProgress(0);
     }
   };
 
@@ -452,9 +502,13 @@ export default function RegisterStudent() {
                       type="button"
                       onClick={captureImage}
                       className="flex-1 gap-2"
-                      disabled={capturedImages.length >= 10}
+                      disabled={capturedImages.length >= 10 || isCheckingQuality}
                     >
-                      <Camera className="h-4 w-4" />
+                      {isCheckingQuality ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Camera className="h-4 w-4" />
+                      )}
                       Capture ({capturedImages.length}/10)
                     </Button>
                     <Button
@@ -468,6 +522,10 @@ export default function RegisterStudent() {
                 )}
               </div>
 
+              {isCameraActive && (
+                <CaptureGuidance quality={lastQuality} initialPrompt={POSE_PROMPTS[0]} />
+              )}
+
               {/* Captured Images */}
               {capturedImages.length > 0 && (
                 <div className="space-y-3">
@@ -499,6 +557,7 @@ export default function RegisterStudent() {
                           alt="Captured face"
                           className="w-full h-full object-cover rounded-lg"
                         />
+                        <QualityScoreBadge score={img.quality.score} />
                         <button
                           type="button"
                           onClick={() => removeImage(img.id)}
@@ -518,8 +577,8 @@ export default function RegisterStudent() {
                   <AlertCircle className="h-4 w-4 text-muted-foreground mt-0.5" />
                   <div className="space-y-1 text-muted-foreground">
                     <p>• Capture at least 5 clear face images</p>
-                    <p>• Ensure good lighting and face visibility</p>
-                    <p>• Capture from slightly different angles</p>
+                    <p>• Blurry, dark, off-centre or repeated shots are rejected</p>
+                    <p>• Follow the prompt under the camera for each angle</p>
                   </div>
                 </div>
               </div>
@@ -537,7 +596,7 @@ export default function RegisterStudent() {
               {isSubmitting ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Registering...
+                  {trainingStage ? TRAINING_STAGE_LABELS[trainingStage] : "Registering..."}
                 </>
               ) : (
                 <>
@@ -546,6 +605,9 @@ export default function RegisterStudent() {
                 </>
               )}
             </Button>
+            {trainingStage && (
+              <Progress value={trainingProgress} className="h-2 mt-3" />
+            )}
           </div>
         </form>
       </motion.div>
@@ -8,6 +8,17 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { useSystemSettings, useSystemSettingsHistory } from "@/hooks/useSystemSettings";
+import { supabase } from "@/integrations/supabase/client";
+import { SystemSettings, SYSTEM_SETTING_LABELS } from "@/lib/systemSettings";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import {
   Settings as SettingsIcon,
   Bell,
@@ -17,52 +28,67 @@ import {
   Clock,
   Save,
   Loader2,
+  History,
 } from "lucide-react";
 
-interface SystemSettings {
-  attendanceThreshold: number;
-  faceConfidenceThreshold: number;
-  autoMarkAbsent: boolean;
-  autoMarkAbsentAfterMinutes: number;
-  emailNotifications: boolean;
-  lowAttendanceAlertThreshold: number;
-}
-
 export default function Settings() {
   const { toast } = useToast();
-  const [saving, setSaving] = useState(false);
-  const [settings, setSettings] = useState<SystemSettings>({
-    attendanceThreshold: 75,
-    faceConfidenceThreshold: 80,
-    autoMarkAbsent: true,
-    autoMarkAbsentAfterMinutes: 30,
-    emailNotifications: true,
-    lowAttendanceAlertThreshold: 60,
-  });
+  const { settings: savedSettings, isLoading, isSaving, saveSettings } = useSystemSettings();
+  const { changes, isLoading: historyLoading } = useSystemSettingsHistory();
+  const [settings, setSettings] = useState<SystemSettings>(savedSettings);
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
 
-  // Load settings from localStorage on mount
   useEffect(() => {
-    const savedSettings = localStorage.getItem("systemSettings");
-    if (savedSettings) {
-      setSettings(JSON.parse(savedSettings));
-    }
+    supabase
+      .from("departments")
+      .select("id, name")
+      .order("name")
+      .then(({ data }) => setDepartments(data || []));
   }, []);
 
+  // Reset the form whenever the saved settings (re)load
+  useEffect(() => {
+    setSettings(savedSettings);
+  }, [savedSettings]);
+
+  const setDepartmentThreshold = (departmentId: string, value: string) => {
+    const departmentThresholds = { ...settings.departmentThresholds };
+    if (value === "") {
+      delete departmentThresholds[departmentId];
+    } else {
+      departmentThresholds[departmentId] = Math.min(100, Math.max(0, parseInt(value) || 0));
+    }
+    setSettings({ ...settings, departmentThresholds });
+  };
+
   const handleSaveSettings = async () => {
-    setSaving(true);
-    
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    // Save to localStorage for now (can be migrated to DB later)
-    localStorage.setItem("systemSettings", JSON.stringify(settings));
-    
-    toast({
-      title: "Settings Saved",
-      description: "Your settings have been updated successfully.",
-    });
-    
-    setSaving(false);
+    try {
+      await saveSettings(settings);
+      toast({
+        title: "Settings Saved",
+        description: "Settings now apply to every user of the system.",
+      });
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Could not save settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatSettingValue = (value: unknown): string => {
+    if (value === null || value === undefined) return "—";
+    if (typeof value === "boolean") return value ? "On" : "Off";
+    if (typeof value === "object") {
+      const entries = Object.entries(value as Record<string, number>);
+      if (entries.length === 0) return "None";
+      return entries
+        .map(([id, threshold]) => `${departments.find((d) => d.id === id)?.name || "Unknown"}: ${threshold}%`)
+        .join(", ");
+    }
+    return String(value);
   };
 
   return (
@@ -142,10 +168,39 @@ export default function Settings() {
                   className="w-24"
                 />
                 <span className="text-sm text-muted-foreground">
-                  Send alerts when attendance drops below this level
+                  Students between this and the minimum are a warning; below it they are at risk
                 </span>
               </div>
             </div>
+
+            {departments.length > 0 && (
+              <>
+                <Separator />
+
+                <div className="space-y-3">
+                  <div className="space-y-0.5">
+                    <Label>Department Overrides</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Leave blank to use the minimum requirement above
+                    </p>
+                  </div>
+                  {departments.map((dept) => (
+                    <div key={dept.id} className="flex items-center justify-between gap-4">
+                      <span className="text-sm">{dept.name}</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        placeholder={String(settings.attendanceThreshold)}
+                        value={settings.departmentThresholds[dept.id] ?? ""}
+                        onChange={(e) => setDepartmentThreshold(dept.id, e.target.value)}
+                        className="w-24"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
 
@@ -185,6 +240,33 @@ export default function Settings() {
                 </span>
               </div>
             </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="recognitionMinFrames">
+                Frames Required Before Auto-Marking
+              </Label>
+              <div className="flex items-center gap-4">
+                <Input
+                  id="recognitionMinFrames"
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={settings.recognitionMinFrames}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      recognitionMinFrames: parseInt(e.target.value) || 1,
+                    })
+                  }
+                  className="w-24"
+                />
+                <span className="text-sm text-muted-foreground">
+                  Students seen fewer times are held as tentative for teacher confirmation
+                </span>
+              </div>
+            </div>
           </CardContent>
         </Card>
 
@@ -200,11 +282,38 @@ export default function Settings() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="lateGracePeriod">
+                Late arrival grace period (minutes)
+              </Label>
+              <div className="flex items-center gap-4">
+                <Input
+                  id="lateGracePeriod"
+                  type="number"
+                  min={0}
+                  max={60}
+                  value={settings.lateGracePeriodMinutes}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      lateGracePeriodMinutes: parseInt(e.target.value) || 0,
+                    })
+                  }
+                  className="w-24"
+                />
+                <span className="text-sm text-muted-foreground">
+                  Students first recognized after this are marked late
+                </span>
+              </div>
+            </div>
+
+            <Separator />
+
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
                 <Label>Auto-mark absent students</Label>
                 <p className="text-sm text-muted-foreground">
-                  Automatically mark students as absent after class time
+                  Stop recognizing new arrivals after a cutoff; anyone not seen is marked absent
                 </p>
               </div>
               <Switch
@@ -278,8 +387,8 @@ export default function Settings() {
 
         {/* Save Button */}
         <div className="flex justify-end">
-          <Button onClick={handleSaveSettings} disabled={saving} className="gap-2">
-            {saving ? (
+          <Button onClick={handleSaveSettings} disabled={isSaving || isLoading} className="gap-2">
+            {isSaving ? (
               <Loader2 className="h-4 w-4 animate-spin" />
             ) : (
               <Save className="h-4 w-4" />
@@ -287,6 +396,57 @@ export default function Settings() {
             Save Settings
           </Button>
         </div>
+
+        {/* Change History */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Change History
+            </CardTitle>
+            <CardDescription>
+              Recent changes to system settings
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {historyLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No changes recorded yet
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Setting</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map((change) => (
+                    <TableRow key={change.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {new Date(change.changedAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-sm">{SYSTEM_SETTING_LABELS[change.key]}</TableCell>
+                      <TableCell className="text-sm">
+                        <span className="text-muted-foreground">{formatSettingValue(change.previousValue)}</span>
+                        {" → "}
+                        <span className="font-medium">{formatSettingValue(change.newValue)}</span>
+                      </TableCell>
+                      <TableCell className="text-sm">{change.changedByName || "Unknown"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
       </motion.div>
     </DashboardLayout>
   );
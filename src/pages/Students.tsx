@@ -9,6 +9,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { downloadXlsx } from "@/lib/xlsx";
+import { fetchStudentAttendanceSummary } from "@/services/analyticsApi";
+import { FaceTrainingStatus, retryStudentTraining } from "@/services/studentTrainingApi";
 import {
   Table,
   TableBody,
@@ -26,6 +30,9 @@ import {
   MoreHorizontal,
   Edit,
   Trash2,
+  FileDown,
+  Loader2,
+  RotateCcw,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -40,6 +47,8 @@ interface Student {
   full_name: string;
   email: string | null;
   face_registered: boolean;
+  face_training_status: FaceTrainingStatus | null;
+  face_training_error: string | null;
   section: {
     name: string;
     year: {
@@ -54,11 +63,14 @@ interface Student {
 
 export default function Students() {
   const navigate = useNavigate();
+  const { toast } = useToast();
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
   const [departments, setDepartments] = useState<any[]>([]);
   const [selectedDepartment, setSelectedDepartment] = useState<string>("all");
+  const [exporting, setExporting] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchDepartments();
@@ -80,6 +92,8 @@ export default function Students() {
         full_name,
         email,
         face_registered,
+        face_training_status,
+        face_training_error,
         sections (
           name,
           years (
@@ -100,6 +114,8 @@ export default function Students() {
         full_name: s.full_name,
         email: s.email,
         face_registered: s.face_registered,
+        face_training_status: s.face_training_status,
+        face_training_error: s.face_training_error,
         section: {
           name: s.sections?.name || "N/A",
           year: {
@@ -116,6 +132,30 @@ export default function Students() {
     setLoading(false);
   };
 
+  const retryTraining = async (student: Student) => {
+    setRetryingId(student.id);
+    try {
+      const result = await retryStudentTraining({
+        studentId: student.id,
+        rollNumber: student.roll_number,
+      });
+      toast({
+        title: result.success ? "Face Training Complete" : "Training Failed",
+        description: result.success ? `${student.full_name}'s face is now registered.` : result.message,
+        variant: result.success ? "default" : "destructive",
+      });
+      await fetchStudents();
+    } catch (error) {
+      toast({
+        title: "Training Failed",
+        description: error instanceof Error ? error.message : "Could not retry face training.",
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
   const filteredStudents = students.filter((student) => {
     const matchesSearch =
       student.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -129,6 +169,55 @@ export default function Students() {
     return matchesSearch && matchesDepartment;
   });
 
+  const exportXlsx = async () => {
+    setExporting(true);
+    try {
+      const summaries = await fetchStudentAttendanceSummary();
+      const summaryById = new Map(summaries.map((summary) => [summary.studentId, summary]));
+
+      await downloadXlsx(`students_${new Date().toISOString().split("T")[0]}.xlsx`, [
+        {
+          name: "Students",
+          columns: [
+            { header: "Roll Number", type: "text", width: 16 },
+            { header: "Name", type: "text", width: 28 },
+            { header: "Email", type: "text", width: 28 },
+            { header: "Department", type: "text", width: 20 },
+            { header: "Year", type: "text" },
+            { header: "Section", type: "text", width: 10 },
+            { header: "Face Registered", type: "text", width: 16 },
+            { header: "Classes", type: "number", width: 10 },
+            { header: "Attended", type: "number", width: 10 },
+            { header: "Attendance", type: "percent", width: 12 },
+          ],
+          rows: filteredStudents.map((student) => {
+            const summary = summaryById.get(student.id);
+            return [
+              student.roll_number,
+              student.full_name,
+              student.email,
+              student.section.year.department.name,
+              student.section.year.name,
+              student.section.name,
+              student.face_registered ? "Yes" : "No",
+              summary?.totalClasses ?? 0,
+              summary?.attended ?? 0,
+              summary && summary.totalClasses > 0 ? summary.attended / summary.totalClasses : null,
+            ];
+          }),
+        },
+      ]);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Could not export students",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -152,10 +241,21 @@ export default function Students() {
               Manage registered students and their face data
             </p>
           </div>
-          <Button onClick={() => navigate("/register-student")} className="gap-2">
-            <Plus className="h-4 w-4" />
-            Register Student
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={exportXlsx}
+              disabled={exporting || filteredStudents.length === 0}
+              className="gap-2"
+            >
+              {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+              Export Excel
+            </Button>
+            <Button onClick={() => navigate("/register-student")} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Register Student
+            </Button>
+          </div>
         </div>
 
         {/* Filters */}
@@ -269,6 +369,25 @@ export default function Students() {
                               <Camera className="h-3.5 w-3.5" />
                               Registered
                             </StatusBadge>
+                          ) : retryingId === student.id ? (
+                            <StatusBadge variant="default" dot={false}>
+                              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                              Training
+                            </StatusBadge>
+                          ) : student.face_training_status === "failed" ? (
+                            <StatusBadge
+                              variant="risk"
+                              dot={false}
+                              title={student.face_training_error ?? undefined}
+                            >
+                              <CameraOff className="h-3.5 w-3.5" />
+                              Training failed
+                            </StatusBadge>
+                          ) : student.face_training_status === "pending" ? (
+                            <StatusBadge variant="warning" dot={false}>
+                              <CameraOff className="h-3.5 w-3.5" />
+                              Pending training
+                            </StatusBadge>
                           ) : (
                             <StatusBadge variant="warning" dot={false}>
                               <CameraOff className="h-3.5 w-3.5" />
@@ -284,6 +403,15 @@ export default function Students() {
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
+                              {student.face_training_status && !student.face_registered && (
+                                <DropdownMenuItem
+                                  disabled={retryingId !== null}
+                                  onClick={() => retryTraining(student)}
+                                >
+                                  <RotateCcw className="mr-2 h-4 w-4" />
+                                  Retry training
+                                </DropdownMenuItem>
+                              )}
                               <DropdownMenuItem>
                                 <Edit className="mr-2 h-4 w-4" />
                                 Edit
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -6,10 +6,39 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { StatusBadge } from "@/components/ui/status-badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useFaceApi } from "@/hooks/useFaceApi";
+import { useSystemSettings } from "@/hooks/useSystemSettings";
+import { FaceOverlay, OverlayFrame } from "@/components/attendance/FaceOverlay";
+import { EditAttendanceDialog } from "@/components/attendance/EditAttendanceDialog";
+import {
+  saveSession,
+  loadSession,
+  clearSession,
+  enqueueSubmission,
+  isNetworkError,
+} from "@/services/attendanceOutbox";
+import { startClass } from "@/services/classLifecycleApi";
+import {
+  getOnDeviceUnavailableReason,
+  prepareOnDeviceRecognition,
+  recognizeOnDevice,
+} from "@/services/onDeviceRecognition";
+import type { FaceRecognitionResponse } from "@/services/faceRecognitionApi";
+import {
+  FaceVoteMap,
+  VoteCriteria,
+  addFrameVotes,
+  isVoteConfirmed,
+  meanConfidence,
+  partitionVotes,
+} from "@/lib/recognitionVotes";
+import { buildAttendanceRecords } from "@/lib/attendanceRecords";
+import { formatTimeOfDay, getArrivalStatus, getClassTiming, isPastCutoff } from "@/lib/attendanceTiming";
 import {
   Camera,
   CameraOff,
@@ -20,9 +49,13 @@ import {
   Loader2,
   CheckCircle2,
   Clock,
+  Timer,
   WifiOff,
   Save,
   RefreshCw,
+  Check,
+  HelpCircle,
+  PencilLine,
 } from "lucide-react";
 
 interface DetectedStudent {
@@ -32,6 +65,7 @@ interface DetectedStudent {
   confidence: number;
   status: "present" | "absent" | "late";
   isManual?: boolean;
+  firstSeenAt?: string;
 }
 
 interface ClassInfo {
@@ -39,6 +73,7 @@ interface ClassInfo {
   subject_name: string;
   subject_code: string;
   section_id: string;
+  class_date: string;
   start_time: string;
   end_time: string;
   status: string;
@@ -50,6 +85,12 @@ export default function TakeAttendance() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const recognitionInFlightRef = useRef(false);
+  const recognitionAbortRef = useRef<AbortController | null>(null);
+  // Class whose persisted session has been restored; guards against saving one class's list under another.
+  const restoredClassRef = useRef<string | null>(null);
+  // Running per-student vote tally; a ref so performRecognition can diff before/after each frame.
+  const faceVotesRef = useRef<FaceVoteMap>({});
+  const dismissedStudentsRef = useRef<Set<string>>(new Set());
   
   const {
     isApiAvailable,
@@ -63,10 +104,32 @@ export default function TakeAttendance() {
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [isRecognizing, setIsRecognizing] = useState(false);
   const [detectedStudents, setDetectedStudents] = useState<DetectedStudent[]>([]);
+  const [faceVotes, setFaceVotes] = useState<FaceVoteMap>({});
+  const [overlayFrame, setOverlayFrame] = useState<OverlayFrame | null>(null);
+  const { settings: systemSettings } = useSystemSettings();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isEditingSubmitted, setIsEditingSubmitted] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [allStudents, setAllStudents] = useState<any[]>([]);
   const [recognitionInterval, setRecognitionIntervalId] = useState<NodeJS.Timeout | null>(null);
+  // "device" matches against stored embeddings in the browser instead of calling the backend
+  const [recognitionMode, setRecognitionMode] = useState<"server" | "device">("server");
+  const [preparingDevice, setPreparingDevice] = useState(false);
+  // Why on-device recognition can't be used here; undefined while still checking
+  const [onDeviceUnavailable, setOnDeviceUnavailable] = useState<string | null | undefined>(undefined);
+  // Server recognition was stopped because the backend went away, to be resumed when it's back
+  const [pausedForBackend, setPausedForBackend] = useState(false);
+  const voteCriteria = useMemo<VoteCriteria>(() => ({
+    minHits: Math.max(1, systemSettings.recognitionMinFrames),
+    minConfidence: systemSettings.faceConfidenceThreshold / 100,
+  }), [systemSettings]);
+
+  // Grace window decides present vs. late; the auto-absent cutoff closes recognition entirely.
+  const timingFor = useCallback(
+    (classInfo: ClassInfo) => getClassTiming(classInfo.class_date, classInfo.start_time, systemSettings),
+    [systemSettings],
+  );
+
   const [lastRecognition, setLastRecognition] = useState<{
     facesDetected: number;
     recognizedCount: number;
@@ -79,6 +142,26 @@ export default function TakeAttendance() {
     fetchTodaysClasses();
   }, [user]);
 
+  useEffect(() => {
+    let cancelled = false;
+    getOnDeviceUnavailableReason().then((reason) => {
+      if (!cancelled) setOnDeviceUnavailable(reason);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Persist in-progress detections so a reload or dropped connection doesn't lose them.
+  useEffect(() => {
+    if (!selectedClass || restoredClassRef.current !== selectedClass) return;
+
+    const persist = detectedStudents.length > 0
+      ? saveSession(selectedClass, detectedStudents)
+      : clearSession(selectedClass);
+    persist.catch((error) => console.error("Failed to persist attendance session:", error));
+  }, [selectedClass, detectedStudents]);
+
   // Cleanup camera stream when it changes or on unmount.
   // IMPORTANT: Do NOT depend on recognitionInterval here; changing the interval would
   // trigger cleanup and stop the camera, causing the preview to go black.
@@ -99,6 +182,11 @@ export default function TakeAttendance() {
     };
   }, [recognitionInterval]);
 
+  // Abort any frame still in flight when leaving the page.
+  useEffect(() => {
+    return () => recognitionAbortRef.current?.abort();
+  }, []);
+
   // Attach stream after <video> mounts (camera preview was blank when ref was null during startCamera).
   useEffect(() => {
     if (!isCameraActive || !stream || !videoRef.current) return;
@@ -138,6 +226,7 @@ export default function TakeAttendance() {
       .from("classes")
       .select(`
         id,
+        class_date,
         start_time,
         end_time,
         status,
@@ -156,6 +245,7 @@ export default function TakeAttendance() {
         subject_name: cls.subjects?.name || "Unknown",
         subject_code: cls.subjects?.code || "",
         section_id: cls.subjects?.section_id || "",
+        class_date: cls.class_date,
         start_time: cls.start_time,
         end_time: cls.end_time,
         status: cls.status,
@@ -188,6 +278,50 @@ export default function TakeAttendance() {
     }
   };
 
+  const resetVotes = () => {
+    faceVotesRef.current = {};
+    dismissedStudentsRef.current = new Set();
+    setFaceVotes({});
+  };
+
+  const restoreSession = async (classId: string) => {
+    restoredClassRef.current = null;
+    setDetectedStudents([]);
+    resetVotes();
+
+    try {
+      const session = await loadSession<DetectedStudent>(classId);
+      if (session && session.students.length > 0) {
+        setDetectedStudents(session.students);
+        toast({
+          title: "Session Restored",
+          description: `Recovered ${session.students.length} student(s) from an unfinished session.`,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to restore attendance session:", error);
+    } finally {
+      restoredClassRef.current = classId;
+    }
+  };
+
+  // Opening the camera starts the session; offline starts are skipped and the
+  // class goes straight from scheduled to completed when the outbox syncs.
+  const markClassInProgress = async (classId: string) => {
+    const cls = todaysClasses.find(c => c.id === classId);
+    if (!cls || cls.status !== "scheduled" || !navigator.onLine) return;
+
+    try {
+      if (await startClass(classId)) {
+        setTodaysClasses(prev =>
+          prev.map(c => c.id === classId ? { ...c, status: "in_progress" } : c)
+        );
+      }
+    } catch (error) {
+      console.error("Failed to mark class in progress:", error);
+    }
+  };
+
   const startCamera = async () => {
     try {
       const mediaStream = await navigator.mediaDevices.getUserMedia({
@@ -196,6 +330,7 @@ export default function TakeAttendance() {
       });
       setStream(mediaStream);
       setIsCameraActive(true);
+      void markClassInProgress(selectedClass);
     } catch (error) {
       toast({
         title: "Camera Error",
@@ -205,6 +340,13 @@ export default function TakeAttendance() {
     }
   };
 
+  /** Abort the frame being recognized so a hung request can't hold the next one back */
+  const cancelRecognitionRequest = () => {
+    recognitionAbortRef.current?.abort();
+    recognitionAbortRef.current = null;
+    recognitionInFlightRef.current = false;
+  };
+
   const stopCamera = () => {
     if (stream) {
       stream.getTracks().forEach(track => track.stop());
@@ -216,10 +358,12 @@ export default function TakeAttendance() {
       clearInterval(recognitionInterval);
       setRecognitionIntervalId(null);
     }
-    recognitionInFlightRef.current = false;
+    cancelRecognitionRequest();
+    setPausedForBackend(false);
     setStream(null);
     setIsCameraActive(false);
     setIsRecognizing(false);
+    setOverlayFrame(null);
   };
 
   const captureFrameBase64 = useCallback(async (): Promise<string | null> => {
@@ -274,16 +418,39 @@ export default function TakeAttendance() {
     if (!selectedClassInfo) return;
 
     recognitionInFlightRef.current = true;
+    const controller = new AbortController();
+    recognitionAbortRef.current = controller;
     try {
       const frameData = await captureFrameBase64();
       if (!frameData) return;
+      // Boxes come back in the coordinates of the downscaled capture, not the preview.
+      const frameWidth = canvasRef.current?.width ?? 0;
+      const frameHeight = canvasRef.current?.height ?? 0;
 
-      const result = await recognize({
+      const request = {
         class_id: selectedClass,
         section_id: selectedClassInfo.section_id,
         image: frameData,
         timestamp: new Date().toISOString(),
-      });
+      };
+      let result: FaceRecognitionResponse | null;
+      if (recognitionMode === "device") {
+        try {
+          result = await recognizeOnDevice(request);
+        } catch (error) {
+          result = {
+            success: false,
+            faces_detected: 0,
+            recognized: [],
+            unrecognized: [],
+            error: error instanceof Error ? error.message : "On-device recognition failed",
+          };
+        }
+      } else {
+        result = await recognize(request, controller.signal);
+      }
+      // Recognition was stopped while this frame was in flight
+      if (controller.signal.aborted) return;
 
       // Log payload to confirm correct base64 format for debugging backend.
       console.log("Recognition payload:", {
@@ -302,35 +469,96 @@ export default function TakeAttendance() {
         at: new Date().toLocaleTimeString(),
       });
 
-      if (result?.success && result.recognized.length > 0) {
-        // Add newly recognized students (avoid duplicates)
-        setDetectedStudents(prev => {
-          const newStudents = [...prev];
-          for (const face of result.recognized) {
-            if (!newStudents.find(s => s.id === face.student_id)) {
-              newStudents.push({
-                id: face.student_id,
-                rollNumber: face.roll_number,
-                fullName: face.student_name,
-                confidence: face.confidence,
-                status: "present",
-              });
+      setOverlayFrame(result?.success ? {
+        width: frameWidth,
+        height: frameHeight,
+        recognized: Array.isArray(result.recognized) ? result.recognized : [],
+        unrecognized: Array.isArray(result.unrecognized) ? result.unrecognized : [],
+      } : null);
+
+      const { start: classStart, cutoff } = timingFor(selectedClassInfo);
+      const arrivalsClosed = isPastCutoff(new Date(), cutoff);
+
+      if (result?.success && result.recognized.length > 0 && !arrivalsClosed) {
+        // A single frame is not enough to mark someone present: accumulate votes and only
+        // promote students once they cross the configured hit count and mean confidence.
+        const faces = result.recognized.filter(f => !dismissedStudentsRef.current.has(f.student_id));
+        const previousVotes = faceVotesRef.current;
+        const nextVotes = addFrameVotes(previousVotes, faces);
+        faceVotesRef.current = nextVotes;
+        setFaceVotes(nextVotes);
+
+        const newlyConfirmed = Object.values(nextVotes).filter(
+          vote => isVoteConfirmed(vote, voteCriteria) && !isVoteConfirmed(previousVotes[vote.studentId], voteCriteria)
+        );
+
+        if (newlyConfirmed.length > 0) {
+          setDetectedStudents(prev => {
+            const newStudents = [...prev];
+            for (const vote of newlyConfirmed) {
+              if (!newStudents.find(s => s.id === vote.studentId)) {
+                newStudents.push({
+                  id: vote.studentId,
+                  rollNumber: vote.rollNumber,
+                  fullName: vote.studentName,
+                  confidence: meanConfidence(vote),
+                  status: getArrivalStatus(
+                    new Date(vote.firstSeenAt),
+                    classStart,
+                    systemSettings.lateGracePeriodMinutes,
+                  ),
+                  firstSeenAt: vote.firstSeenAt,
+                });
+              }
             }
-          }
-          return newStudents;
-        });
-
-        toast({
-          title: "Faces Recognized",
-          description: `${result.recognized.length} new student(s) detected`,
-        });
+            return newStudents;
+          });
+
+          toast({
+            title: "Faces Recognized",
+            description: `${newlyConfirmed.length} new student(s) detected`,
+          });
+        }
+      }
+    } finally {
+      // A cancelled frame has already released the slot, possibly to a newer one
+      if (recognitionAbortRef.current === controller) {
+        recognitionAbortRef.current = null;
+        recognitionInFlightRef.current = false;
       }
+    }
+  }, [selectedClass, todaysClasses, captureFrameBase64, recognize, recognitionMode, toast, voteCriteria, timingFor, systemSettings]);
+
+  const handleRecognitionModeChange = async (onDevice: boolean) => {
+    if (!onDevice) {
+      setRecognitionMode("server");
+      return;
+    }
+
+    const classInfo = todaysClasses.find(c => c.id === selectedClass);
+    if (!classInfo) return;
+
+    setPreparingDevice(true);
+    try {
+      const count = await prepareOnDeviceRecognition(classInfo.section_id);
+      setRecognitionMode("device");
+      setPausedForBackend(false);
+      toast({
+        title: "On-Device Recognition Ready",
+        description: `Matching against ${count} students' stored faces. Frames stay on this device.`,
+      });
+    } catch (error) {
+      toast({
+        title: "On-Device Recognition Unavailable",
+        description: error instanceof Error ? error.message : "Couldn't prepare on-device recognition.",
+        variant: "destructive",
+      });
     } finally {
-      recognitionInFlightRef.current = false;
+      setPreparingDevice(false);
     }
-  }, [selectedClass, todaysClasses, captureFrameBase64, recognize, toast]);
+  };
 
-  const startRecognition = async () => {
+  const startRecognition = async (resumed = false) => {
     // Ensure video is fully ready before starting
     const video = videoRef.current;
     if (!video || video.videoWidth === 0 || video.videoHeight === 0) {
@@ -352,8 +580,10 @@ export default function TakeAttendance() {
     setIsRecognizing(true);
     
     toast({
-      title: "Recognition Started",
-      description: "AI is analyzing the camera feed for faces...",
+      title: resumed ? "Recognition Resumed" : "Recognition Started",
+      description: resumed
+        ? "The backend is reachable again."
+        : "AI is analyzing the camera feed for faces...",
     });
 
     // Perform recognition every 2 seconds
@@ -375,19 +605,48 @@ export default function TakeAttendance() {
     }
   };
 
-  const stopRecognition = () => {
+  const haltRecognition = () => {
     if (recognitionInterval) {
       clearInterval(recognitionInterval);
       setRecognitionIntervalId(null);
     }
-    recognitionInFlightRef.current = false;
+    cancelRecognitionRequest();
     setIsRecognizing(false);
+    setOverlayFrame(null);
+  };
+
+  const stopRecognition = () => {
+    haltRecognition();
     toast({
       title: "Recognition Stopped",
       description: "Face recognition paused",
     });
   };
 
+  // Pause server recognition while the backend is unreachable and resume it when it's back.
+  // Kept in a ref so the effect below runs on availability changes only, with current state.
+  const backendChangeRef = useRef<(available: boolean) => void>();
+  backendChangeRef.current = (available: boolean) => {
+    if (recognitionMode !== "server") return;
+    if (!available && isRecognizing) {
+      haltRecognition();
+      setPausedForBackend(true);
+      toast({
+        title: "Recognition Paused",
+        description: "The face backend is unreachable. Recognition will resume when it's back.",
+        variant: "destructive",
+      });
+    } else if (available && pausedForBackend) {
+      setPausedForBackend(false);
+      if (isCameraActive) void startRecognition(true);
+    }
+  };
+
+  useEffect(() => {
+    if (checkingApi) return;
+    backendChangeRef.current?.(isApiAvailable);
+  }, [isApiAvailable, checkingApi]);
+
   const updateStudentStatus = (studentId: string, status: "present" | "absent" | "late") => {
     setDetectedStudents(prev => 
       prev.map(s => s.id === studentId ? { ...s, status } : s)
@@ -406,10 +665,37 @@ export default function TakeAttendance() {
         confidence: 1.0,
         status: "present" as const,
         isManual: true,
+        firstSeenAt: new Date().toISOString(),
       },
     ]);
   };
 
+  const confirmTentativeStudent = (studentId: string) => {
+    const vote = faceVotesRef.current[studentId];
+    if (!vote || !selectedClassInfo || detectedStudents.find(d => d.id === studentId)) return;
+
+    const { start } = timingFor(selectedClassInfo);
+
+    setDetectedStudents(prev => [
+      ...prev,
+      {
+        id: vote.studentId,
+        rollNumber: vote.rollNumber,
+        fullName: vote.studentName,
+        confidence: meanConfidence(vote),
+        status: getArrivalStatus(new Date(vote.firstSeenAt), start, systemSettings.lateGracePeriodMinutes),
+        firstSeenAt: vote.firstSeenAt,
+      },
+    ]);
+  };
+
+  const dismissTentativeStudent = (studentId: string) => {
+    dismissedStudentsRef.current.add(studentId);
+    const { [studentId]: _dismissed, ...remaining } = faceVotesRef.current;
+    faceVotesRef.current = remaining;
+    setFaceVotes(remaining);
+  };
+
   const removeStudent = (studentId: string) => {
     setDetectedStudents(prev => prev.filter(s => s.id !== studentId));
   };
@@ -427,37 +713,45 @@ export default function TakeAttendance() {
     setIsSubmitting(true);
 
     try {
-      // Insert attendance records for detected students
-      const attendanceRecords = detectedStudents.map(student => ({
-        class_id: selectedClass,
-        student_id: student.id,
-        status: student.status,
-        marked_by: user?.id,
-        face_confidence: student.isManual ? null : student.confidence,
-        // Always send explicit boolean to avoid PostgREST inserting NULL.
-        is_manual_override: Boolean(student.isManual),
-      }));
+      const allRecords = buildAttendanceRecords(
+        selectedClass,
+        user?.id,
+        detectedStudents,
+        allStudents.map((student) => student.id),
+        new Date().toISOString(),
+      );
+
+      const queueOffline = async () => {
+        await enqueueSubmission(selectedClass, allRecords);
+        toast({
+          title: "Saved Offline",
+          description: `No connection. Attendance for ${allRecords.length} students will sync automatically.`,
+        });
+        setDetectedStudents([]);
+        resetVotes();
+        stopCamera();
+      };
+
+      if (!navigator.onLine) {
+        await queueOffline();
+        return;
+      }
 
-      // Also mark absent students
-      const absentStudents = allStudents
-        .filter(s => !detectedStudents.find(d => d.id === s.id))
-        .map(student => ({
-          class_id: selectedClass,
-          student_id: student.id,
-          status: "absent" as const,
-          marked_by: user?.id,
-          // Always include explicit boolean (fixes: null value violates not-null constraint).
-          is_manual_override: false,
-          face_confidence: null,
-        }));
-
-      const allRecords = [...attendanceRecords, ...absentStudents];
-
-      const { error } = await supabase
+      // Only missing rows are inserted: a retried or repeated submission (another device,
+      // a stale tab) must not overwrite marks that were already submitted. Corrections go
+      // through EditAttendanceDialog, which records a reason.
+      const { data: inserted, error } = await supabase
         .from("attendance")
-        .insert(allRecords);
-
-      if (error) throw error;
+        .upsert(allRecords, { onConflict: "class_id,student_id", ignoreDuplicates: true })
+        .select("id");
+
+      if (error) {
+        if (isNetworkError(error)) {
+          await queueOffline();
+          return;
+        }
+        throw error;
+      }
 
       // Update class status to completed
       await supabase
@@ -465,13 +759,18 @@ export default function TakeAttendance() {
         .update({ status: "completed" })
         .eq("id", selectedClass);
 
+      const alreadySubmitted = allRecords.length - (inserted?.length ?? 0);
       toast({
         title: "Attendance Submitted",
-        description: `Attendance recorded for ${allRecords.length} students.`,
+        description: alreadySubmitted > 0
+          ? `Attendance recorded for ${inserted?.length ?? 0} students. ${alreadySubmitted} were already submitted and were left unchanged; use Edit Submitted to correct them.`
+          : `Attendance recorded for ${allRecords.length} students.`,
       });
 
       // Reset state
+      await clearSession(selectedClass);
       setDetectedStudents([]);
+      resetVotes();
       stopCamera();
       fetchTodaysClasses();
 
@@ -487,6 +786,10 @@ export default function TakeAttendance() {
   };
 
   const selectedClassInfo = todaysClasses.find(c => c.id === selectedClass);
+  const recognitionCutoff = selectedClassInfo ? timingFor(selectedClassInfo).cutoff : null;
+  const isRecognitionClosed = isPastCutoff(new Date(), recognitionCutoff);
+  const tentativeStudents = partitionVotes(faceVotes, voteCriteria).tentative
+    .filter(vote => !detectedStudents.find(d => d.id === vote.studentId));
 
   return (
     <DashboardLayout>
@@ -537,6 +840,12 @@ export default function TakeAttendance() {
                     </CardDescription>
                   </div>
                   <div className="flex items-center gap-2">
+                    {isRecognitionClosed && (
+                      <Badge variant="outline" className="gap-1 text-warning border-warning/40">
+                        <Timer className="h-3 w-3" />
+                        Arrivals closed at {formatTimeOfDay(recognitionCutoff.toISOString())}
+                      </Badge>
+                    )}
                     {isRecognizing && (
                       <div className="flex items-center gap-2 text-sm text-accent">
                         <span className="relative flex h-2 w-2">
@@ -555,7 +864,11 @@ export default function TakeAttendance() {
                   value={selectedClass}
                   onValueChange={(value) => {
                     setSelectedClass(value);
+                    // Embeddings are per section; switch on again to load the new one's
+                    setRecognitionMode("server");
+                    setPausedForBackend(false);
                     fetchStudentsForClass(value);
+                    void restoreSession(value);
                   }}
                 >
                   <SelectTrigger>
@@ -568,15 +881,38 @@ export default function TakeAttendance() {
                       </SelectItem>
                     ) : (
                       todaysClasses.map((cls) => (
-                        <SelectItem key={cls.id} value={cls.id}>
+                        <SelectItem key={cls.id} value={cls.id} disabled={cls.status === "cancelled"}>
                           {cls.subject_name} ({cls.subject_code}) - {cls.start_time} to {cls.end_time}
                           {cls.status === "completed" && " ✓"}
+                          {cls.status === "cancelled" && " (cancelled)"}
                         </SelectItem>
                       ))
                     )}
                   </SelectContent>
                 </Select>
 
+                {/* Recognition mode */}
+                <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor="on-device-recognition" className="font-medium">
+                      On-device recognition
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      {onDeviceUnavailable
+                        ?? "Match faces in the browser using stored embeddings; works without the backend"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {preparingDevice && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                    <Switch
+                      id="on-device-recognition"
+                      checked={recognitionMode === "device"}
+                      onCheckedChange={(checked) => void handleRecognitionModeChange(checked)}
+                      disabled={onDeviceUnavailable !== null || !selectedClass || preparingDevice || isRecognizing}
+                    />
+                  </div>
+                </div>
+
                 {/* Video Preview */}
                 <div className="relative aspect-video bg-muted rounded-lg overflow-hidden">
                   {isCameraActive ? (
@@ -589,6 +925,9 @@ export default function TakeAttendance() {
                         className="w-full h-full object-cover"
                       />
 
+                      {/* Face boxes from the latest recognition result */}
+                      <FaceOverlay videoRef={videoRef} frame={overlayFrame} />
+
                       {/* Last recognition status (helps diagnose: no detection vs no match) */}
                       {lastRecognition && (
                         <div className="absolute bottom-2 left-2">
@@ -640,9 +979,9 @@ export default function TakeAttendance() {
                     <>
                       {!isRecognizing ? (
                         <Button
-                          onClick={startRecognition}
+                          onClick={() => void startRecognition()}
                           className="flex-1 gap-2 bg-accent hover:bg-accent/90"
-                          disabled={!isApiAvailable}
+                          disabled={!isApiAvailable && recognitionMode !== "device"}
                         >
                           <Play className="h-4 w-4" />
                           Start Recognition
@@ -667,8 +1006,36 @@ export default function TakeAttendance() {
                   )}
                 </div>
 
+                {/* Backend went away mid-class; recognition picks up again on its own */}
+                {pausedForBackend && (
+                  <div className="flex items-center gap-2 p-3 rounded-lg bg-warning/10 border border-warning/20 text-sm">
+                    <WifiOff className="h-4 w-4 text-warning shrink-0" />
+                    Backend unreachable. Recognition is paused and resumes automatically when it's back,
+                    or switch to on-device recognition.
+                  </div>
+                )}
+
+                {/* Already submitted: corrections go through the audited edit flow */}
+                {selectedClassInfo?.status === "completed" && (
+                  <div className="flex items-center justify-between gap-4 p-3 rounded-lg bg-success/5 border border-success/20">
+                    <div className="flex items-center gap-2 text-sm">
+                      <CheckCircle2 className="h-4 w-4 text-success" />
+                      Attendance already submitted for this class
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => setIsEditingSubmitted(true)}
+                    >
+                      <PencilLine className="h-4 w-4" />
+                      Edit Submitted
+                    </Button>
+                  </div>
+                )}
+
                 {/* Submit Button */}
-                {detectedStudents.length > 0 && (
+                {detectedStudents.length > 0 && selectedClassInfo?.status !== "completed" && (
                   <Button
                     onClick={submitAttendance}
                     className="w-full gap-2"
@@ -726,6 +1093,12 @@ export default function TakeAttendance() {
                                 ({Math.round(student.confidence * 100)}% match)
                               </span>
                             )}
+                            {student.firstSeenAt && (
+                              <span className="text-xs flex items-center gap-1">
+                                <Clock className="h-3 w-3" />
+                                {formatTimeOfDay(student.firstSeenAt)}
+                              </span>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
@@ -759,6 +1132,52 @@ export default function TakeAttendance() {
                 </div>
               )}
 
+              {/* Tentative matches awaiting teacher confirmation */}
+              {tentativeStudents.length > 0 && (
+                <div className="border-t pt-4">
+                  <p className="text-sm font-medium mb-1 flex items-center gap-2">
+                    <HelpCircle className="h-4 w-4 text-warning" />
+                    Tentative ({tentativeStudents.length})
+                  </p>
+                  <p className="text-xs text-muted-foreground mb-2">
+                    Needs {voteCriteria.minHits} frame(s) at ≥{systemSettings.faceConfidenceThreshold}% to auto-mark
+                  </p>
+                  <div className="max-h-40 overflow-y-auto space-y-1">
+                    {tentativeStudents.map(vote => (
+                      <div
+                        key={vote.studentId}
+                        className="flex items-center justify-between px-3 py-2 rounded bg-warning/5 border border-warning/20 text-sm"
+                      >
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{vote.studentName}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {vote.rollNumber} · {vote.hits}/{voteCriteria.minHits} frames · {Math.round(meanConfidence(vote) * 100)}% avg
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-success hover:text-success"
+                            onClick={() => confirmTentativeStudent(vote.studentId)}
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                            onClick={() => dismissTentativeStudent(vote.studentId)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* All Students List for Manual Add */}
               {selectedClass && allStudents.length > 0 && (
                 <div className="border-t pt-4">
@@ -807,6 +1226,13 @@ export default function TakeAttendance() {
           </Card>
         </div>
       </motion.div>
+
+      <EditAttendanceDialog
+        classId={selectedClass || null}
+        classLabel={selectedClassInfo ? `${selectedClassInfo.subject_name} (${selectedClassInfo.subject_code})` : undefined}
+        open={isEditingSubmitted}
+        onOpenChange={setIsEditingSubmitted}
+      />
     </DashboardLayout>
   );
 }
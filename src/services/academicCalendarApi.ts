@@ -0,0 +1,89 @@
+/**
+ * Academic Calendar API Service
+ *
+ * Terms, holidays and exam blackout periods. Everyone signed in can read
+ * them; RLS only lets admins write. The database also refuses classes on
+ * blocked dates, so these checks in the UI are for early feedback only.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { AcademicTerm, CalendarEvent, CalendarEventKind } from "@/lib/academicCalendar";
+
+// ============================================================
+// Types
+// ============================================================
+
+export type AcademicTermInput = Omit<AcademicTerm, "id">;
+export type CalendarEventInput = Omit<CalendarEvent, "id">;
+
+// ============================================================
+// API Functions
+// ============================================================
+
+export async function fetchAcademicTerms(): Promise<AcademicTerm[]> {
+  const { data, error } = await supabase
+    .from("academic_terms")
+    .select("id, name, start_date, end_date")
+    .order("start_date", { ascending: false });
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    name: row.name,
+    startDate: row.start_date,
+    endDate: row.end_date,
+  }));
+}
+
+export async function fetchCalendarEvents(): Promise<CalendarEvent[]> {
+  const { data, error } = await supabase
+    .from("calendar_events")
+    .select("id, name, kind, start_date, end_date")
+    .order("start_date");
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    name: row.name,
+    kind: row.kind as CalendarEventKind,
+    startDate: row.start_date,
+    endDate: row.end_date,
+  }));
+}
+
+/**
+ * Insert a term, or update it when `id` is given
+ */
+export async function saveAcademicTerm(term: AcademicTermInput, id?: string): Promise<void> {
+  const row = { name: term.name, start_date: term.startDate, end_date: term.endDate };
+  const { error } = id
+    ? await supabase.from("academic_terms").update(row).eq("id", id)
+    : await supabase.from("academic_terms").insert(row);
+  if (error) throw error;
+}
+
+export async function deleteAcademicTerm(id: string): Promise<void> {
+  const { error } = await supabase.from("academic_terms").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * Insert a holiday/blackout, or update it when `id` is given
+ */
+export async function saveCalendarEvent(event: CalendarEventInput, id?: string): Promise<void> {
+  const row = {
+    name: event.name,
+    kind: event.kind,
+    start_date: event.startDate,
+    end_date: event.endDate,
+  };
+  const { error } = id
+    ? await supabase.from("calendar_events").update(row).eq("id", id)
+    : await supabase.from("calendar_events").insert(row);
+  if (error) throw error;
+}
+
+export async function deleteCalendarEvent(id: string): Promise<void> {
+  const { error } = await supabase.from("calendar_events").delete().eq("id", id);
+  if (error) throw error;
+}
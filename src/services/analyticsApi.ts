@@ -0,0 +1,168 @@
+/**
+ * Analytics API Service
+ *
+ * Typed wrappers around the attendance summary views. Aggregation happens in
+ * Postgres (see the `*_attendance_summary` views), so each call is a single
+ * round trip regardless of how many students are involved.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { attendancePercentage } from "@/lib/attendanceMath";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface StudentAttendanceSummary {
+  studentId: string;
+  rollNumber: string;
+  fullName: string;
+  sectionId: string;
+  yearId: string;
+  departmentId: string;
+  totalClasses: number;
+  attended: number;
+  missed: number;
+  percentage: number;
+}
+
+export interface SubjectAttendanceSummary {
+  subjectId: string;
+  name: string;
+  code: string;
+  sectionId: string;
+  teacherId: string | null;
+  totalClasses: number;
+  studentCount: number;
+  attended: number;
+  expected: number;
+  percentage: number;
+}
+
+export interface SectionAttendanceSummary {
+  sectionId: string;
+  name: string;
+  yearId: string;
+  departmentId: string;
+  totalClasses: number;
+  studentCount: number;
+  attended: number;
+  expected: number;
+  percentage: number;
+}
+
+export interface AttendanceSummaryFilters {
+  departmentId?: string;
+  sectionId?: string;
+  /** Only count classes held on or after this date (yyyy-MM-dd) */
+  from?: string;
+  /** Only count classes held on or before this date (yyyy-MM-dd) */
+  to?: string;
+}
+
+// ============================================================
+// API Functions
+// ============================================================
+
+/**
+ * Per-student attended/total counts, scoped to each student's own section.
+ * With a date range the counts come from `student_attendance_summary_between`
+ * instead of the all-time view.
+ */
+export async function fetchStudentAttendanceSummary(
+  filters: AttendanceSummaryFilters = {},
+): Promise<StudentAttendanceSummary[]> {
+  let query = filters.from || filters.to
+    ? supabase
+        .rpc("student_attendance_summary_between", {
+          _from: filters.from || "0001-01-01",
+          _to: filters.to || "9999-12-31",
+        })
+        .select("*")
+    : supabase
+        .from("student_attendance_summary")
+        .select("*")
+        .order("roll_number");
+
+  if (filters.departmentId) query = query.eq("department_id", filters.departmentId);
+  if (filters.sectionId) query = query.eq("section_id", filters.sectionId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((row) => {
+    const totalClasses = row.total_classes ?? 0;
+    const attended = row.attended ?? 0;
+    return {
+      studentId: row.student_id ?? "",
+      rollNumber: row.roll_number ?? "",
+      fullName: row.full_name ?? "",
+      sectionId: row.section_id ?? "",
+      yearId: row.year_id ?? "",
+      departmentId: row.department_id ?? "",
+      totalClasses,
+      attended,
+      missed: totalClasses - attended,
+      percentage: attendancePercentage(attended, totalClasses),
+    };
+  });
+}
+
+/**
+ * Per-subject attendance across all students of the subject's section
+ */
+export async function fetchSubjectAttendanceSummary(
+  filters: AttendanceSummaryFilters = {},
+): Promise<SubjectAttendanceSummary[]> {
+  let query = supabase
+    .from("subject_attendance_summary")
+    .select("*")
+    .order("name");
+
+  if (filters.sectionId) query = query.eq("section_id", filters.sectionId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    subjectId: row.subject_id ?? "",
+    name: row.name ?? "",
+    code: row.code ?? "",
+    sectionId: row.section_id ?? "",
+    teacherId: row.teacher_id,
+    totalClasses: row.total_classes ?? 0,
+    studentCount: row.student_count ?? 0,
+    attended: row.attended ?? 0,
+    expected: row.expected ?? 0,
+    percentage: attendancePercentage(row.attended ?? 0, row.expected ?? 0),
+  }));
+}
+
+/**
+ * Per-section attendance rolled up over all of the section's subjects
+ */
+export async function fetchSectionAttendanceSummary(
+  filters: AttendanceSummaryFilters = {},
+): Promise<SectionAttendanceSummary[]> {
+  let query = supabase
+    .from("section_attendance_summary")
+    .select("*")
+    .order("name");
+
+  if (filters.departmentId) query = query.eq("department_id", filters.departmentId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    sectionId: row.section_id ?? "",
+    name: row.name ?? "",
+    yearId: row.year_id ?? "",
+    departmentId: row.department_id ?? "",
+    totalClasses: row.total_classes ?? 0,
+    studentCount: row.student_count ?? 0,
+    attended: row.attended ?? 0,
+    expected: row.expected ?? 0,
+    percentage: attendancePercentage(row.attended ?? 0, row.expected ?? 0),
+  }));
+}
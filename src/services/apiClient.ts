@@ -0,0 +1,188 @@
+/**
+ * API Client
+ *
+ * Shared JSON-over-HTTP layer for backend services: per-request timeouts,
+ * caller cancellation through an AbortSignal, exponential retry for
+ * idempotent calls, typed errors and zod validation of every response.
+ */
+
+import type { z } from "zod";
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * What went wrong, coarse enough for the UI to pick a message and decide
+ * whether trying again can help
+ */
+export type ApiErrorKind =
+  | "auth" // 401/403: session expired or not allowed
+  | "validation" // 4xx: the request was rejected as invalid
+  | "model_not_trained" // the section has no trained model yet
+  | "unavailable" // network failure, 408/429/502/503/504
+  | "server" // any other 5xx
+  | "timeout" // no response within the request's timeout
+  | "cancelled" // the caller aborted the request
+  | "invalid_response"; // the body didn't match the expected schema
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  /** HTTP status, when a response was received */
+  status?: number;
+  /** Machine-readable `error` code from the response body */
+  code?: string;
+
+  constructor(kind: ApiErrorKind, message: string, options: { status?: number; code?: string } = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = options.status;
+    this.code = options.code;
+  }
+}
+
+export interface ApiRequest<T> {
+  method: "GET" | "POST";
+  path: string;
+  body?: unknown;
+  schema: z.ZodType<T>;
+  timeoutMs: number;
+  /** Extra attempts after the first. Only set this for idempotent calls. */
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  /** Headers added to every request, e.g. Authorization */
+  getHeaders?: () => Promise<Record<string, string>>;
+  /** First retry delay; doubles on each further attempt */
+  retryDelayMs?: number;
+}
+
+export interface ApiClient {
+  request<T>(request: ApiRequest<T>): Promise<T>;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const UNAVAILABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+const MODEL_NOT_TRAINED_CODES = new Set(["model_not_trained"]);
+const RETRYABLE_KINDS = new Set<ApiErrorKind>(["unavailable", "server", "timeout"]);
+
+/**
+ * Map a non-2xx response to an ApiError kind
+ */
+export function classifyStatus(status: number, code?: string): ApiErrorKind {
+  if (code && MODEL_NOT_TRAINED_CODES.has(code)) return "model_not_trained";
+  if (status === 401 || status === 403 || code === "unauthorized") return "auth";
+  if (UNAVAILABLE_STATUSES.has(status)) return "unavailable";
+  if (status >= 500) return "server";
+  return "validation";
+}
+
+export function isRetryable(error: unknown): boolean {
+  return error instanceof ApiError && RETRYABLE_KINDS.has(error.kind);
+}
+
+export function isCancelled(error: unknown): boolean {
+  return error instanceof ApiError && error.kind === "cancelled";
+}
+
+async function errorFromResponse(response: Response): Promise<ApiError> {
+  const body = await response.json().catch(() => null);
+  const code = typeof body?.error === "string" ? body.error : undefined;
+  const message =
+    (typeof body?.message === "string" && body.message) || code || `HTTP ${response.status}`;
+  return new ApiError(classifyStatus(response.status, code), message, { status: response.status, code });
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError("cancelled", "Request cancelled"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError("cancelled", "Request cancelled"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ============================================================
+// Client
+// ============================================================
+
+export function createApiClient({ baseUrl, getHeaders, retryDelayMs = 500 }: ApiClientOptions): ApiClient {
+  async function attempt<T>({ method, path, body, schema, timeoutMs, signal }: ApiRequest<T>): Promise<T> {
+    if (signal?.aborted) throw new ApiError("cancelled", "Request cancelled");
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      const headers = getHeaders ? await getHeaders() : {};
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}${path}`, {
+          method,
+          headers: body === undefined ? headers : { "Content-Type": "application/json", ...headers },
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (signal?.aborted) throw new ApiError("cancelled", "Request cancelled");
+        if (timedOut) throw new ApiError("timeout", `No response after ${Math.round(timeoutMs / 1000)}s`);
+        throw new ApiError("unavailable", error instanceof Error ? error.message : "Network error");
+      }
+
+      if (!response.ok) throw await errorFromResponse(response);
+
+      const json = await response.json().catch(() => {
+        throw new ApiError("invalid_response", "Response was not valid JSON", { status: response.status });
+      });
+      const parsed = schema.safeParse(json);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new ApiError(
+          "invalid_response",
+          `Unexpected response from ${path}: ${issue.path.join(".") || "body"} ${issue.message}`,
+          { status: response.status },
+        );
+      }
+      return parsed.data;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  return {
+    async request<T>(request: ApiRequest<T>): Promise<T> {
+      const retries = request.retries ?? 0;
+      for (let tries = 0; ; tries++) {
+        try {
+          return await attempt(request);
+        } catch (error) {
+          if (tries >= retries || !isRetryable(error)) throw error;
+          await wait(retryDelayMs * 2 ** tries, request.signal);
+        }
+      }
+    },
+  };
+}
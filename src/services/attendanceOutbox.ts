@@ -0,0 +1,279 @@
+/**
+ * Attendance Outbox
+ *
+ * IndexedDB-backed store for attendance work that has not reached Supabase yet.
+ * It keeps two kinds of records:
+ *  - sessions: the in-progress detected student list for a class, so a reload
+ *    or dropped connection does not lose what recognition already found
+ *  - submissions: finalized `attendance` rows waiting to be inserted
+ *
+ * Pending submissions are replayed by `flushOutbox` when connectivity returns.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+
+// ============================================================
+// Types
+// ============================================================
+
+export type AttendanceRecord = TablesInsert<"attendance">;
+
+export interface OutboxSession<T = unknown> {
+  class_id: string;
+  students: T[];
+  updated_at: string;
+}
+
+export interface OutboxSubmission {
+  id: string;
+  class_id: string;
+  records: AttendanceRecord[];
+  created_at: string;
+  attempts: number;
+  last_error?: string;
+}
+
+export interface FlushResult {
+  synced: number;
+  failed: number;
+}
+
+// ============================================================
+// IndexedDB helpers
+// ============================================================
+
+const DB_NAME = "attendance-outbox";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+const SUBMISSIONS_STORE = "submissions";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser"));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: "class_id" });
+        }
+        if (!db.objectStoreNames.contains(SUBMISSIONS_STORE)) {
+          db.createObjectStore(SUBMISSIONS_STORE, { keyPath: "id" });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Failed to open attendance outbox"));
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openDb();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Outbox transaction aborted"));
+  });
+}
+
+// ============================================================
+// Change notification
+// ============================================================
+
+type OutboxListener = () => void;
+
+const listeners = new Set<OutboxListener>();
+
+/**
+ * Subscribe to outbox changes (enqueue, sync, discard)
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyListeners() {
+  listeners.forEach((listener) => listener());
+}
+
+// ============================================================
+// Sessions
+// ============================================================
+
+/**
+ * Persist the in-progress detected students for a class
+ */
+export async function saveSession<T>(classId: string, students: T[]): Promise<void> {
+  const session: OutboxSession<T> = {
+    class_id: classId,
+    students,
+    updated_at: new Date().toISOString(),
+  };
+  await runRequest(SESSIONS_STORE, "readwrite", (store) => store.put(session));
+}
+
+/**
+ * Load a previously persisted session for a class, if any
+ */
+export async function loadSession<T>(classId: string): Promise<OutboxSession<T> | null> {
+  const session = await runRequest<OutboxSession<T> | undefined>(
+    SESSIONS_STORE,
+    "readonly",
+    (store) => store.get(classId),
+  );
+  return session ?? null;
+}
+
+/**
+ * Remove the persisted session for a class
+ */
+export async function clearSession(classId: string): Promise<void> {
+  await runRequest(SESSIONS_STORE, "readwrite", (store) => store.delete(classId));
+}
+
+// ============================================================
+// Submissions
+// ============================================================
+
+/**
+ * Queue finalized attendance records for a class to be synced later
+ */
+export async function enqueueSubmission(
+  classId: string,
+  records: AttendanceRecord[],
+): Promise<OutboxSubmission> {
+  const submission: OutboxSubmission = {
+    id: crypto.randomUUID(),
+    class_id: classId,
+    records,
+    created_at: new Date().toISOString(),
+    attempts: 0,
+  };
+  await runRequest(SUBMISSIONS_STORE, "readwrite", (store) => store.put(submission));
+  notifyListeners();
+  return submission;
+}
+
+/**
+ * List all submissions still waiting to be synced, oldest first
+ */
+export async function getPendingSubmissions(): Promise<OutboxSubmission[]> {
+  const submissions = await runRequest<OutboxSubmission[]>(
+    SUBMISSIONS_STORE,
+    "readonly",
+    (store) => store.getAll(),
+  );
+  return submissions.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Count submissions still waiting to be synced
+ */
+export async function countPendingSubmissions(): Promise<number> {
+  return runRequest<number>(SUBMISSIONS_STORE, "readonly", (store) => store.count());
+}
+
+async function removeSubmission(id: string): Promise<void> {
+  await runRequest(SUBMISSIONS_STORE, "readwrite", (store) => store.delete(id));
+}
+
+async function markAttemptFailed(submission: OutboxSubmission, message: string): Promise<void> {
+  const updated: OutboxSubmission = {
+    ...submission,
+    attempts: submission.attempts + 1,
+    last_error: message,
+  };
+  await runRequest(SUBMISSIONS_STORE, "readwrite", (store) => store.put(updated));
+}
+
+/**
+ * Whether a Supabase/fetch error means the request never reached the server
+ */
+export function isNetworkError(error: { message?: string; code?: string } | null | undefined): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  if (!error) return false;
+  if (error.code) return false;
+  return /failed to fetch|network|load failed/i.test(error.message || "");
+}
+
+let flushPromise: Promise<FlushResult> | null = null;
+
+async function replaySubmissions(): Promise<FlushResult> {
+  const submissions = await getPendingSubmissions();
+  let synced = 0;
+  let failed = 0;
+
+  for (const submission of submissions) {
+    // Submissions queued before every row carried marked_at would insert NULL into
+    // a NOT NULL column; fall back to when they were queued.
+    const records = submission.records.map((record) => ({
+      ...record,
+      marked_at: record.marked_at ?? submission.created_at,
+    }));
+
+    // Rows that already exist (an earlier attempt landed, or the class was edited since)
+    // are left untouched; only missing rows are inserted.
+    const { error } = await supabase
+      .from("attendance")
+      .upsert(records, { onConflict: "class_id,student_id", ignoreDuplicates: true });
+
+    if (error) {
+      failed++;
+      await markAttemptFailed(submission, error.message);
+      // Still offline; no point hammering the remaining submissions.
+      if (isNetworkError(error)) break;
+      continue;
+    }
+
+    await supabase
+      .from("classes")
+      .update({ status: "completed" })
+      .eq("id", submission.class_id);
+
+    await removeSubmission(submission.id);
+    await clearSession(submission.class_id);
+    synced++;
+  }
+
+  if (submissions.length > 0) notifyListeners();
+  return { synced, failed };
+}
+
+/**
+ * Replay all pending submissions against Supabase
+ * Concurrent calls share a single in-flight replay.
+ *
+ * @returns Number of submissions synced and failed
+ */
+export function flushOutbox(): Promise<FlushResult> {
+  if (!flushPromise) {
+    flushPromise = replaySubmissions().finally(() => {
+      flushPromise = null;
+    });
+  }
+  return flushPromise;
+}
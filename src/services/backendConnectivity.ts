@@ -0,0 +1,149 @@
+/**
+ * Backend Connectivity Service
+ *
+ * Polls the face backend's /health endpoint while anything is subscribed:
+ * every 30s while it's up, backing off from 2s to 30s while it's down, and
+ * immediately when the browser goes online or offline. One shared monitor
+ * serves the whole app, so the layout indicator and the pages agree.
+ */
+
+import { getBackendHealth } from "@/services/faceRecognitionApi";
+import type { BackendHealth } from "@/services/faceRecognitionApi";
+
+// ============================================================
+// Types
+// ============================================================
+
+/** "unknown" until the first check completes */
+export type BackendStatus = "unknown" | "online" | "offline";
+
+export interface BackendConnectivity {
+  status: BackendStatus;
+  /** Version and model info from the last successful check */
+  health: BackendHealth | null;
+  /** A check is in flight */
+  checking: boolean;
+  /** Epoch ms of the last completed check */
+  lastCheckedAt: number | null;
+  /** Consecutive failed checks */
+  failures: number;
+}
+
+type ConnectivityListener = () => void;
+
+// ============================================================
+// Configuration
+// ============================================================
+
+export const HEALTH_POLL_INTERVAL_MS = 30_000;
+const HEALTH_RETRY_BASE_MS = 2_000;
+
+/**
+ * Delay before the next check: the regular interval while the backend is up,
+ * exponential backoff capped at the same interval while it's down
+ */
+export function nextHealthCheckDelay(failures: number): number {
+  if (failures === 0) return HEALTH_POLL_INTERVAL_MS;
+  return Math.min(HEALTH_RETRY_BASE_MS * 2 ** (failures - 1), HEALTH_POLL_INTERVAL_MS);
+}
+
+// ============================================================
+// State
+// ============================================================
+
+let state: BackendConnectivity = {
+  status: "unknown",
+  health: null,
+  checking: false,
+  lastCheckedAt: null,
+  failures: 0,
+};
+
+const listeners = new Set<ConnectivityListener>();
+let timer: ReturnType<typeof setTimeout> | null = null;
+let inFlight: Promise<void> | null = null;
+
+function setState(patch: Partial<BackendConnectivity>) {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener());
+}
+
+function clearTimer() {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
+
+function scheduleCheck(delayMs = nextHealthCheckDelay(state.failures)) {
+  clearTimer();
+  if (listeners.size === 0) return;
+  timer = setTimeout(() => void checkBackendNow(), delayMs);
+}
+
+/** The browser's own online/offline events are a cue to look again right away */
+const handleNetworkChange = () => void checkBackendNow();
+
+// ============================================================
+// API Functions
+// ============================================================
+
+/**
+ * Current connectivity snapshot. A new object after every change, so it can
+ * back useSyncExternalStore.
+ */
+export function getConnectivity(): BackendConnectivity {
+  return state;
+}
+
+/**
+ * Check the backend now instead of waiting for the next poll, e.g. after a
+ * request failed. Concurrent calls share one check.
+ */
+export function checkBackendNow(): Promise<void> {
+  if (inFlight) return inFlight;
+
+  clearTimer();
+  setState({ checking: true });
+  inFlight = (async () => {
+    try {
+      const health = await getBackendHealth();
+      setState({ status: "online", health, checking: false, lastCheckedAt: Date.now(), failures: 0 });
+    } catch {
+      setState({ status: "offline", checking: false, lastCheckedAt: Date.now(), failures: state.failures + 1 });
+    } finally {
+      inFlight = null;
+      scheduleCheck();
+    }
+  })();
+  return inFlight;
+}
+
+/**
+ * Subscribe to connectivity changes. Polling runs while there is at least
+ * one subscriber.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToConnectivity(listener: ConnectivityListener): () => void {
+  listeners.add(listener);
+
+  if (listeners.size === 1) {
+    window.addEventListener("online", handleNetworkChange);
+    window.addEventListener("offline", handleNetworkChange);
+    const remaining = state.lastCheckedAt === null
+      ? 0
+      : nextHealthCheckDelay(state.failures) - (Date.now() - state.lastCheckedAt);
+    if (remaining <= 0) void checkBackendNow();
+    else if (!inFlight) scheduleCheck(remaining);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener("online", handleNetworkChange);
+      window.removeEventListener("offline", handleNetworkChange);
+      clearTimer();
+    }
+  };
+}
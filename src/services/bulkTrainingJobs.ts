@@ -0,0 +1,102 @@
+/**
+ * Bulk Training Jobs
+ *
+ * IndexedDB-backed snapshot of a bulk face training run: the imported roster
+ * with each student's status, plus the extracted images. One job is kept per
+ * section and saved after every chunk, so a reload (or a dropped connection)
+ * can resume with only the students that haven't been trained yet.
+ */
+
+import type { ParsedStudent, UploadedImage } from "@/lib/bulkTraining";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface BulkTrainingJob {
+  section_id: string;
+  roster_name: string | null;
+  zip_name: string | null;
+  students: ParsedStudent[];
+  images: UploadedImage[];
+  updated_at: string;
+}
+
+// ============================================================
+// IndexedDB helpers
+// ============================================================
+
+const DB_NAME = "bulk-training-jobs";
+const DB_VERSION = 1;
+const JOBS_STORE = "jobs";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser"));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(JOBS_STORE)) {
+          db.createObjectStore(JOBS_STORE, { keyPath: "section_id" });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Failed to open bulk training jobs"));
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openDb();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(JOBS_STORE, mode);
+    const request = operation(transaction.objectStore(JOBS_STORE));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Training job transaction aborted"));
+  });
+}
+
+// ============================================================
+// Jobs
+// ============================================================
+
+/**
+ * Persist the current state of a section's training run
+ */
+export async function saveTrainingJob(job: Omit<BulkTrainingJob, "updated_at">): Promise<void> {
+  const record: BulkTrainingJob = { ...job, updated_at: new Date().toISOString() };
+  await runRequest("readwrite", (store) => store.put(record));
+}
+
+/**
+ * Load the saved training run for a section, if any
+ */
+export async function loadTrainingJob(sectionId: string): Promise<BulkTrainingJob | null> {
+  const job = await runRequest<BulkTrainingJob | undefined>("readonly", (store) => store.get(sectionId));
+  return job ?? null;
+}
+
+/**
+ * Forget a section's training run
+ */
+export async function clearTrainingJob(sectionId: string): Promise<void> {
+  await runRequest("readwrite", (store) => store.delete(sectionId));
+}
@@ -0,0 +1,136 @@
+/**
+ * Class Changes API Service
+ *
+ * Substitute teacher assignment and the per-class change history. Reschedules
+ * and cancellations go through timetableApi / classLifecycleApi. Every kind of
+ * change is written to `class_changes` by the `record_class_change` trigger,
+ * and students are notified by the statement-level `notify_class_changes`
+ * trigger (once per update, so a series edit is one notification), so nothing
+ * here logs or notifies by hand.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { ClassClashError, findClassClashes } from "@/services/timetableApi";
+
+// ============================================================
+// Types
+// ============================================================
+
+export type ClassChangeType = "rescheduled" | "cancelled" | "substitute_assigned";
+
+export interface ClassChange {
+  id: string;
+  changeType: ClassChangeType;
+  oldValues: Record<string, string | null>;
+  newValues: Record<string, string | null>;
+  reason: string | null;
+  changedByName: string | null;
+  changedAt: string;
+}
+
+export interface TeacherOption {
+  userId: string;
+  fullName: string;
+}
+
+export interface SubstitutableClass {
+  id: string;
+  subjectId: string;
+  teacherId: string | null;
+  originalTeacherId: string | null;
+  classDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+// ============================================================
+// API Functions
+// ============================================================
+
+/**
+ * Everyone with the teacher role, for substitute pickers
+ */
+export async function fetchTeachers(): Promise<TeacherOption[]> {
+  const { data, error } = await supabase.rpc("list_teachers");
+  if (error) throw error;
+  return (data || []).map((row) => ({ userId: row.user_id, fullName: row.full_name }));
+}
+
+/**
+ * Hand a class to another teacher after checking they're free. Assigning the
+ * regular teacher again hands the class back.
+ */
+export async function assignSubstituteTeacher(
+  cls: SubstitutableClass,
+  substituteId: string,
+): Promise<void> {
+  const clashes = await findClassClashes(
+    {
+      subjectId: cls.subjectId,
+      teacherId: substituteId,
+      startTime: cls.startTime,
+      endTime: cls.endTime,
+    },
+    [cls.classDate],
+    [cls.id],
+  );
+  const teacherClashes = clashes.filter((clash) => clash.clashType === "teacher");
+  if (teacherClashes.length > 0) throw new ClassClashError(teacherClashes);
+
+  const regularTeacherId = cls.originalTeacherId ?? cls.teacherId;
+  const { error } = await supabase
+    .from("classes")
+    .update({
+      teacher_id: substituteId,
+      original_teacher_id: substituteId === regularTeacherId ? null : regularTeacherId,
+    })
+    .eq("id", cls.id);
+  if (error) throw error;
+}
+
+/**
+ * Change history for one class, newest first, with people's names resolved
+ */
+export async function fetchClassChanges(classId: string): Promise<ClassChange[]> {
+  const { data, error } = await supabase
+    .from("class_changes")
+    .select("*")
+    .eq("class_id", classId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  const rows = data || [];
+  const asRecord = (value: unknown) => (value ?? {}) as Record<string, string | null>;
+
+  // Editors and substitute teachers are both staff, whose profiles are readable
+  const userIds = new Set<string>();
+  for (const row of rows) {
+    if (row.changed_by) userIds.add(row.changed_by);
+    for (const values of [asRecord(row.old_values), asRecord(row.new_values)]) {
+      if (values.teacher_id) userIds.add(values.teacher_id);
+    }
+  }
+  const names = new Map<string, string>();
+  if (userIds.size > 0) {
+    const { data: profiles } = await supabase
+      .from("profiles")
+      .select("user_id, full_name")
+      .in("user_id", Array.from(userIds));
+    for (const profile of profiles || []) names.set(profile.user_id, profile.full_name);
+  }
+
+  const withTeacherName = (values: Record<string, string | null>) =>
+    values.teacher_id
+      ? { ...values, teacher_name: names.get(values.teacher_id) ?? null }
+      : values;
+
+  return rows.map((row) => ({
+    id: row.id,
+    changeType: row.change_type as ClassChangeType,
+    oldValues: withTeacherName(asRecord(row.old_values)),
+    newValues: withTeacherName(asRecord(row.new_values)),
+    reason: row.reason,
+    changedByName: row.changed_by ? names.get(row.changed_by) ?? null : null,
+    changedAt: row.created_at,
+  }));
+}
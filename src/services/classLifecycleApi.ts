@@ -0,0 +1,43 @@
+/**
+ * Class Lifecycle API Service
+ *
+ * Status changes for a class session. The `enforce_class_status_transition`
+ * trigger rejects anything outside scheduled -> in_progress -> completed
+ * (or -> cancelled), so these calls fail loudly on a stale screen rather than
+ * re-opening a finished class.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+// ============================================================
+// API Functions
+// ============================================================
+
+/**
+ * Mark a scheduled class as in progress. A class that has already moved on
+ * is left untouched; returns whether the status changed.
+ */
+export async function startClass(classId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("classes")
+    .update({ status: "in_progress" })
+    .eq("id", classId)
+    .eq("status", "scheduled")
+    .select("id");
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * Cancel a class that hasn't had attendance submitted
+ */
+export async function cancelClass(classId: string, reason: string): Promise<void> {
+  const trimmed = reason.trim();
+  if (!trimmed) throw new Error("A reason is required to cancel a class");
+
+  const { error } = await supabase
+    .from("classes")
+    .update({ status: "cancelled", cancellation_reason: trimmed })
+    .eq("id", classId);
+  if (error) throw error;
+}
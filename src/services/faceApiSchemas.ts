@@ -0,0 +1,113 @@
+/**
+ * Face API Response Schemas
+ *
+ * Runtime checks for the face backend's responses. Each schema is built
+ * field by field against the interface declared in faceRecognitionApi.ts, so
+ * the two can't drift apart without a type error.
+ */
+
+import { z } from "zod";
+import type {
+  BackendHealth,
+  BulkTrainingResponse,
+  BulkTrainingResult,
+  FaceRecognitionResponse,
+  FaceTrainingResponse,
+  ModelStatusResponse,
+  RecognizedFace,
+  TrainModelResponse,
+  UnrecognizedFace,
+} from "@/services/faceRecognitionApi";
+
+/** One validator per field of T: missing, extra or mistyped fields don't compile */
+type SchemaShape<T> = { [K in keyof T]-?: z.ZodType<T[K]> };
+
+/**
+ * z.object for an existing interface. With strictNullChecks off zod infers
+ * every field as optional, so the shape is checked instead of the result.
+ */
+function objectSchema<T>(shape: SchemaShape<T>): z.ZodType<T> {
+  return z.object(shape) as unknown as z.ZodType<T>;
+}
+
+/** Optional field; Python backends send null rather than leaving it out */
+const optional = <S extends z.ZodTypeAny>(schema: S) =>
+  schema.nullish().transform((value) => value ?? undefined);
+
+const boundingBoxSchema = objectSchema<RecognizedFace["bounding_box"]>({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+export const faceTrainingResponseSchema = objectSchema<FaceTrainingResponse>({
+  success: z.boolean(),
+  student_id: z.string(),
+  face_embedding_id: optional(z.string()),
+  message: z.string(),
+  confidence_score: optional(z.number()),
+  error: optional(z.string()),
+});
+
+const bulkTrainingResultSchema = objectSchema<BulkTrainingResult>({
+  serial_no: z.number(),
+  roll_number: z.string(),
+  status: z.enum(["success", "failed"]),
+  student_id: optional(z.string()),
+  face_embedding_id: optional(z.string()),
+  error: optional(z.string()),
+  message: optional(z.string()),
+});
+
+export const bulkTrainingResponseSchema = objectSchema<BulkTrainingResponse>({
+  success: z.boolean(),
+  total: z.number(),
+  trained: z.number(),
+  failed: z.number(),
+  results: z.array(bulkTrainingResultSchema),
+});
+
+const recognizedFaceSchema = objectSchema<RecognizedFace>({
+  student_id: z.string(),
+  roll_number: z.string(),
+  student_name: z.string(),
+  confidence: z.number(),
+  bounding_box: boundingBoxSchema,
+});
+
+const unrecognizedFaceSchema = objectSchema<UnrecognizedFace>({
+  bounding_box: boundingBoxSchema,
+  message: z.string(),
+});
+
+export const faceRecognitionResponseSchema = objectSchema<FaceRecognitionResponse>({
+  success: z.boolean(),
+  faces_detected: z.number(),
+  recognized: z.array(recognizedFaceSchema),
+  unrecognized: z.array(unrecognizedFaceSchema),
+  error: optional(z.string()),
+});
+
+export const trainModelResponseSchema = objectSchema<TrainModelResponse>({
+  success: z.boolean(),
+  message: z.string(),
+  model_id: optional(z.string()),
+  students_count: optional(z.number()),
+  error: optional(z.string()),
+});
+
+export const modelStatusResponseSchema = objectSchema<ModelStatusResponse>({
+  section_id: z.string(),
+  is_trained: z.boolean(),
+  last_trained_at: optional(z.string()),
+  students_count: z.number(),
+  trained_students_count: z.number(),
+});
+
+export const healthResponseSchema = objectSchema<BackendHealth>({
+  status: z.string(),
+  version: optional(z.string()),
+  detection_model: optional(z.string()),
+  recognition_model: optional(z.string()),
+});
@@ -1,16 +1,21 @@
 /**
  * Face Recognition API Service
  * 
- * This service handles all communication with the backend face training
- * and recognition APIs. Configure BASE_URL to point to your backend server.
+ * This service handles all communication with the face training and
+ * recognition backend through a FaceRecognitionProvider. Set
+ * VITE_FACE_PROVIDER=mock to use the in-process mock instead of the HTTP
+ * backend at VITE_FACE_API_URL. HTTP failures are thrown as ApiError (see
+ * apiClient.ts), whose `kind` says whether retrying can help.
  */
 
-import { supabase } from "@/integrations/supabase/client";
+import { createHttpFaceProvider } from "@/services/httpFaceProvider";
+import { createMockFaceProvider } from "@/services/mockFaceProvider";
 
 // ============================================================
 // CONFIGURATION - Set this to your backend server URL
 // ============================================================
 const BASE_URL = import.meta.env.VITE_FACE_API_URL || "http://localhost:8000";
+const PROVIDER = import.meta.env.VITE_FACE_PROVIDER === "mock" ? "mock" : "http";
 
 // ============================================================
 // Types
@@ -43,7 +48,7 @@ export interface BulkTrainingStudent {
 export interface BulkTrainingRequest {
   section_id: string;
   students: BulkTrainingStudent[];
-  images: Record<string, string>; // serial_no -> base64 image
+  images: Record<string, string[]>; // serial_no -> base64 images
 }
 
 export interface BulkTrainingResult {
@@ -122,25 +127,56 @@ export interface ModelStatusResponse {
   trained_students_count: number;
 }
 
+export interface BackendHealth {
+  status: string;
+  version?: string;
+  detection_model?: string;
+  recognition_model?: string;
+}
+
 // ============================================================
-// Helper Functions
+// Provider
 // ============================================================
 
-async function getAuthHeaders(): Promise<HeadersInit> {
-  const { data: { session } } = await supabase.auth.getSession();
-  
-  return {
-    "Content-Type": "application/json",
-    "Authorization": session?.access_token ? `Bearer ${session.access_token}` : "",
-  };
+export type FaceProviderName = "http" | "mock";
+
+export interface FaceRequestOptions {
+  /** Abort the request, e.g. when the camera stops */
+  signal?: AbortSignal;
+}
+
+/**
+ * Everything the app needs from a face backend. The HTTP provider calls the
+ * real server; the mock answers in-process from fake embeddings.
+ */
+export interface FaceRecognitionProvider {
+  name: FaceProviderName;
+  trainStudent(data: FaceTrainingRequest, options?: FaceRequestOptions): Promise<FaceTrainingResponse>;
+  trainBulk(data: BulkTrainingRequest, options?: FaceRequestOptions): Promise<BulkTrainingResponse>;
+  recognize(data: FaceRecognitionRequest, options?: FaceRequestOptions): Promise<FaceRecognitionResponse>;
+  trainModel(sectionId: string, options?: FaceRequestOptions): Promise<TrainModelResponse>;
+  getModelStatus(sectionId: string, options?: FaceRequestOptions): Promise<ModelStatusResponse>;
+  /** Throws when the backend can't be reached */
+  getHealth(options?: FaceRequestOptions): Promise<BackendHealth>;
 }
 
-async function handleResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ message: "Unknown error" }));
-    throw new Error(errorData.message || errorData.error || `HTTP ${response.status}`);
+let provider: FaceRecognitionProvider | null = null;
+
+/**
+ * The configured provider, created on first use
+ */
+export function getFaceProvider(): FaceRecognitionProvider {
+  if (!provider) {
+    provider = PROVIDER === "mock" ? createMockFaceProvider() : createHttpFaceProvider(BASE_URL);
   }
-  return response.json();
+  return provider;
+}
+
+/**
+ * Swap the provider, e.g. for tests. Pass null to go back to the configured one.
+ */
+export function setFaceProvider(next: FaceRecognitionProvider | null): void {
+  provider = next;
 }
 
 // ============================================================
@@ -153,16 +189,8 @@ async function handleResponse<T>(response: Response): Promise<T> {
  * @param data - Student ID, roll number, and array of face images
  * @returns Training result with face embedding ID
  */
-export async function trainSingleStudent(data: FaceTrainingRequest): Promise<FaceTrainingResponse> {
-  const headers = await getAuthHeaders();
-  
-  const response = await fetch(`${BASE_URL}/api/face-training`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify(data),
-  });
-  
-  return handleResponse<FaceTrainingResponse>(response);
+export async function trainSingleStudent(data: FaceTrainingRequest, options?: FaceRequestOptions): Promise<FaceTrainingResponse> {
+  return getFaceProvider().trainStudent(data, options);
 }
 
 /**
@@ -171,34 +199,19 @@ export async function trainSingleStudent(data: FaceTrainingRequest): Promise<Fac
  * @param data - Section ID, student data array, and image mapping
  * @returns Bulk training results for each student
  */
-export async function trainBulkStudents(data: BulkTrainingRequest): Promise<BulkTrainingResponse> {
-  const headers = await getAuthHeaders();
-  
-  const response = await fetch(`${BASE_URL}/api/face-training/bulk`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify(data),
-  });
-  
-  return handleResponse<BulkTrainingResponse>(response);
+export async function trainBulkStudents(data: BulkTrainingRequest, options?: FaceRequestOptions): Promise<BulkTrainingResponse> {
+  return getFaceProvider().trainBulk(data, options);
 }
 
 /**
  * Recognize faces in a camera frame
  * 
  * @param data - Class ID, section ID, and base64 image
+ * @param options - Pass a signal to cancel the request when the camera stops
  * @returns Recognized and unrecognized faces
  */
-export async function recognizeFaces(data: FaceRecognitionRequest): Promise<FaceRecognitionResponse> {
-  const headers = await getAuthHeaders();
-  
-  const response = await fetch(`${BASE_URL}/api/face-recognition`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify(data),
-  });
-  
-  return handleResponse<FaceRecognitionResponse>(response);
+export async function recognizeFaces(data: FaceRecognitionRequest, options?: FaceRequestOptions): Promise<FaceRecognitionResponse> {
+  return getFaceProvider().recognize(data, options);
 }
 
 /**
@@ -208,16 +221,8 @@ export async function recognizeFaces(data: FaceRecognitionRequest): Promise<Face
  * @param sectionId - The section ID to train the model for
  * @returns Training status
  */
-export async function trainSectionModel(sectionId: string): Promise<TrainModelResponse> {
-  const headers = await getAuthHeaders();
-  
-  const response = await fetch(`${BASE_URL}/api/model/train`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({ section_id: sectionId }),
-  });
-  
-  return handleResponse<TrainModelResponse>(response);
+export async function trainSectionModel(sectionId: string, options?: FaceRequestOptions): Promise<TrainModelResponse> {
+  return getFaceProvider().trainModel(sectionId, options);
 }
 
 /**
@@ -226,15 +231,8 @@ export async function trainSectionModel(sectionId: string): Promise<TrainModelRe
  * @param sectionId - The section ID to check
  * @returns Model status including training state and student counts
  */
-export async function getModelStatus(sectionId: string): Promise<ModelStatusResponse> {
-  const headers = await getAuthHeaders();
-  
-  const response = await fetch(`${BASE_URL}/api/model/status/${sectionId}`, {
-    method: "GET",
-    headers,
-  });
-  
-  return handleResponse<ModelStatusResponse>(response);
+export async function getModelStatus(sectionId: string, options?: FaceRequestOptions): Promise<ModelStatusResponse> {
+  return getFaceProvider().getModelStatus(sectionId, options);
 }
 
 /**
@@ -242,15 +240,24 @@ export async function getModelStatus(sectionId: string): Promise<ModelStatusResp
  * 
  * @returns True if the API is reachable
  */
-export async function checkApiHealth(): Promise<boolean> {
+export async function checkApiHealth(options?: FaceRequestOptions): Promise<boolean> {
   try {
-    const response = await fetch(`${BASE_URL}/health`, { method: "GET" });
-    return response.ok;
+    await getFaceProvider().getHealth(options);
+    return true;
   } catch {
     return false;
   }
 }
 
+/**
+ * Backend version and model info
+ * 
+ * @returns Health response; throws an ApiError when the backend is unreachable
+ */
+export async function getBackendHealth(options?: FaceRequestOptions): Promise<BackendHealth> {
+  return getFaceProvider().getHealth(options);
+}
+
 /**
  * Get the configured API base URL
  */
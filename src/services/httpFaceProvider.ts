@@ -0,0 +1,120 @@
+/**
+ * HTTP Face Recognition Provider
+ *
+ * Talks to the face training/recognition backend described in
+ * docs/BACKEND_API_SPECIFICATION.md, authenticating with the Supabase session.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { createApiClient } from "@/services/apiClient";
+import {
+  bulkTrainingResponseSchema,
+  faceRecognitionResponseSchema,
+  faceTrainingResponseSchema,
+  healthResponseSchema,
+  modelStatusResponseSchema,
+  trainModelResponseSchema,
+} from "@/services/faceApiSchemas";
+import type { FaceRecognitionProvider } from "@/services/faceRecognitionApi";
+
+// ============================================================
+// Configuration
+// ============================================================
+
+/** Per-endpoint timeouts; training runs embed every image server-side */
+const TIMEOUTS_MS = {
+  training: 60_000,
+  bulkTraining: 180_000,
+  // A stale frame is worthless; the next tick sends a fresh one
+  recognition: 8_000,
+  modelTraining: 120_000,
+  modelStatus: 10_000,
+  health: 5_000,
+};
+
+/** Retries for idempotent GETs. Training and recognition are never retried. */
+const READ_RETRIES = 2;
+
+// ============================================================
+// Helper Functions
+// ============================================================
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  return {
+    "Authorization": session?.access_token ? `Bearer ${session.access_token}` : "",
+  };
+}
+
+// ============================================================
+// Provider
+// ============================================================
+
+export function createHttpFaceProvider(baseUrl: string): FaceRecognitionProvider {
+  const client = createApiClient({ baseUrl, getHeaders: getAuthHeaders });
+
+  return {
+    name: "http",
+
+    trainStudent: (data, options) =>
+      client.request({
+        method: "POST",
+        path: "/api/face-training",
+        body: data,
+        schema: faceTrainingResponseSchema,
+        timeoutMs: TIMEOUTS_MS.training,
+        signal: options?.signal,
+      }),
+
+    trainBulk: (data, options) =>
+      client.request({
+        method: "POST",
+        path: "/api/face-training/bulk",
+        body: data,
+        schema: bulkTrainingResponseSchema,
+        timeoutMs: TIMEOUTS_MS.bulkTraining,
+        signal: options?.signal,
+      }),
+
+    recognize: (data, options) =>
+      client.request({
+        method: "POST",
+        path: "/api/face-recognition",
+        body: data,
+        schema: faceRecognitionResponseSchema,
+        timeoutMs: TIMEOUTS_MS.recognition,
+        signal: options?.signal,
+      }),
+
+    trainModel: (sectionId, options) =>
+      client.request({
+        method: "POST",
+        path: "/api/model/train",
+        body: { section_id: sectionId },
+        schema: trainModelResponseSchema,
+        timeoutMs: TIMEOUTS_MS.modelTraining,
+        signal: options?.signal,
+      }),
+
+    getModelStatus: (sectionId, options) =>
+      client.request({
+        method: "GET",
+        path: `/api/model/status/${encodeURIComponent(sectionId)}`,
+        schema: modelStatusResponseSchema,
+        timeoutMs: TIMEOUTS_MS.modelStatus,
+        retries: READ_RETRIES,
+        signal: options?.signal,
+      }),
+
+    // No retries: the connectivity monitor backs off between checks itself
+    getHealth: (options) =>
+      client.request({
+        method: "GET",
+        path: "/health",
+        schema: healthResponseSchema,
+        timeoutMs: TIMEOUTS_MS.health,
+        signal: options?.signal,
+      }),
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Mock Face Recognition Provider
+ *
+ * In-process stand-in for the face backend, enabled with
+ * VITE_FACE_PROVIDER=mock. Training stores a fake embedding per student
+ * (derived from the images); recognition derives one from the frame and
+ * reports the section's registered students whose embedding is close enough.
+ * Everything is deterministic, so TakeAttendance and BulkUpload can be
+ * demoed and tested end to end without a GPU server.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import {
+  averageEmbedding,
+  cosineSimilarity,
+  fakeEmbedding,
+  hashString,
+} from "@/lib/fakeFaceEmbeddings";
+import type {
+  BulkTrainingResult,
+  FaceRecognitionProvider,
+  RecognizedFace,
+  UnrecognizedFace,
+} from "@/services/faceRecognitionApi";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface MockStudent {
+  id: string;
+  roll_number: string;
+  full_name: string;
+  face_registered: boolean;
+}
+
+export interface MockFaceProviderOptions {
+  /** Students in a section; defaults to a Supabase query */
+  loadSectionStudents?: (sectionId: string) => Promise<MockStudent[]>;
+  /** Simulated latency per call */
+  delayMs?: number;
+}
+
+/** Frame-to-student similarity needed for a match */
+export const MOCK_MATCH_THRESHOLD = 0.3;
+const MAX_FACES_PER_FRAME = 6;
+const FACE_BOX = { width: 80, height: 100 };
+
+async function fetchSectionStudents(sectionId: string): Promise<MockStudent[]> {
+  const { data, error } = await supabase
+    .from("students")
+    .select("id, roll_number, full_name, face_registered")
+    .eq("section_id", sectionId);
+  if (error) throw error;
+  return data || [];
+}
+
+const embeddingId = (embedding: number[]) => `mock-${hashString(embedding.join(",")).toString(16)}`;
+
+// ============================================================
+// Provider
+// ============================================================
+
+export function createMockFaceProvider(options: MockFaceProviderOptions = {}): FaceRecognitionProvider {
+  const loadSectionStudents = options.loadSectionStudents ?? fetchSectionStudents;
+  const delayMs = options.delayMs ?? 250;
+
+  /** studentId -> embedding from the images it was trained on */
+  const embeddings = new Map<string, number[]>();
+  const trainedAt = new Map<string, string>();
+
+  const wait = () => (delayMs > 0 ? new Promise((resolve) => setTimeout(resolve, delayMs)) : Promise.resolve());
+
+  const embeddingFor = (student: MockStudent) => embeddings.get(student.id) ?? fakeEmbedding(student.id);
+  const isTrained = (student: MockStudent) => student.face_registered || embeddings.has(student.id);
+
+  return {
+    name: "mock",
+
+    async trainStudent(data) {
+      await wait();
+      if (data.images.length === 0) {
+        return { success: false, student_id: data.student_id, message: "Training failed", error: "No face images provided" };
+      }
+
+      const embedding = averageEmbedding(data.images.map(fakeEmbedding));
+      embeddings.set(data.student_id, embedding);
+      return {
+        success: true,
+        student_id: data.student_id,
+        face_embedding_id: embeddingId(embedding),
+        message: `Trained on ${data.images.length} images`,
+        confidence_score: 0.95,
+      };
+    },
+
+    async trainBulk(data) {
+      await wait();
+      const byRoll = new Map(
+        (await loadSectionStudents(data.section_id)).map((student) => [student.roll_number.toUpperCase(), student]),
+      );
+
+      const results: BulkTrainingResult[] = data.students.map((student) => {
+        const images = data.images[String(student.serial_no)] ?? [];
+        if (images.length === 0) {
+          return { serial_no: student.serial_no, roll_number: student.roll_number, status: "failed", error: "No images provided" };
+        }
+
+        const embedding = averageEmbedding(images.map(fakeEmbedding));
+        const existing = byRoll.get(student.roll_number.toUpperCase());
+        if (existing) embeddings.set(existing.id, embedding);
+        return {
+          serial_no: student.serial_no,
+          roll_number: student.roll_number,
+          status: "success",
+          student_id: existing?.id,
+          face_embedding_id: embeddingId(embedding),
+          message: `Trained on ${images.length} images`,
+        };
+      });
+
+      const trained = results.filter((result) => result.status === "success").length;
+      return { success: true, total: results.length, trained, failed: results.length - trained, results };
+    },
+
+    async recognize(data) {
+      await wait();
+      const frame = fakeEmbedding(data.image);
+      const frameHash = hashString(data.image);
+
+      const matches = (await loadSectionStudents(data.section_id))
+        .filter(isTrained)
+        .map((student) => ({ student, similarity: cosineSimilarity(frame, embeddingFor(student)) }))
+        .filter((match) => match.similarity >= MOCK_MATCH_THRESHOLD)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, MAX_FACES_PER_FRAME);
+
+      const box = (slot: number) => ({ x: 20 + slot * (FACE_BOX.width + 20), y: 120, ...FACE_BOX });
+
+      const recognized: RecognizedFace[] = matches.map(({ student, similarity }, slot) => ({
+        student_id: student.id,
+        roll_number: student.roll_number,
+        student_name: student.full_name,
+        confidence: Math.min(0.6 + similarity * 0.4, 0.99),
+        bounding_box: box(slot),
+      }));
+
+      // Every fifth frame or so also has someone the model doesn't know
+      const unrecognized: UnrecognizedFace[] = frameHash % 5 === 0
+        ? [{ bounding_box: box(recognized.length), message: "Face not recognized" }]
+        : [];
+
+      return {
+        success: true,
+        faces_detected: recognized.length + unrecognized.length,
+        recognized,
+        unrecognized,
+      };
+    },
+
+    async trainModel(sectionId) {
+      await wait();
+      const students = (await loadSectionStudents(sectionId)).filter(isTrained);
+      trainedAt.set(sectionId, new Date().toISOString());
+      return {
+        success: true,
+        message: `Model trained with ${students.length} students`,
+        model_id: `mock-model-${sectionId}`,
+        students_count: students.length,
+      };
+    },
+
+    async getModelStatus(sectionId) {
+      const students = await loadSectionStudents(sectionId);
+      return {
+        section_id: sectionId,
+        is_trained: trainedAt.has(sectionId),
+        last_trained_at: trainedAt.get(sectionId),
+        students_count: students.length,
+        trained_students_count: students.filter(isTrained).length,
+      };
+    },
+
+    async getHealth() {
+      return {
+        status: "ok",
+        version: "mock",
+        detection_model: "none",
+        recognition_model: "fake-embeddings",
+      };
+    },
+  };
+}
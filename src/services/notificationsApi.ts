@@ -0,0 +1,60 @@
+/**
+ * Notifications API Service
+ *
+ * In-app notifications for the signed-in user. Rows are created by database
+ * triggers (e.g. when a class is rescheduled or cancelled); the client only
+ * reads them and marks them read.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface AppNotification {
+  id: string;
+  title: string;
+  body: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// ============================================================
+// API Functions
+// ============================================================
+
+/**
+ * Most recent notifications for the current user
+ */
+export async function fetchNotifications(limit = 20): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    title: row.title,
+    body: row.body,
+    link: row.link,
+    readAt: row.read_at,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Mark the given notifications as read
+ */
+export async function markNotificationsRead(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .in("id", ids);
+  if (error) throw error;
+}
@@ -0,0 +1,267 @@
+/**
+ * On-Device Face Recognition
+ *
+ * Recognizes faces without the face backend: faces are found on-device (see
+ * lib/faceDetector), embedded by an ONNX model run in WebAssembly, and
+ * matched against the section's stored `face_embeddings`. Frames never leave
+ * the device. The model must produce embeddings comparable to the stored
+ * ones, i.e. the same model the backend trains with; it is served from
+ * VITE_FACE_EMBEDDING_MODEL_URL (default /models/face-embedding.onnx, put
+ * there at build time by scripts/fetch-face-model.mjs).
+ */
+
+import type * as Ort from "onnxruntime-web";
+import { supabase } from "@/integrations/supabase/client";
+import { detectFaces, isFaceDetectionSupported, PixelBox } from "@/lib/faceDetector";
+import {
+  GalleryEntry,
+  matchFaces,
+  normalizeEmbedding,
+  similarityToConfidence,
+} from "@/lib/embeddingMatching";
+import type {
+  FaceRecognitionRequest,
+  FaceRecognitionResponse,
+  RecognizedFace,
+  UnrecognizedFace,
+} from "@/services/faceRecognitionApi";
+
+// ============================================================
+// Configuration
+// ============================================================
+
+const MODEL_URL = import.meta.env.VITE_FACE_EMBEDDING_MODEL_URL || "/models/face-embedding.onnx";
+
+/** Square face crop the model expects (ArcFace-style 112x112 RGB, NCHW) */
+export const FACE_INPUT_SIZE = 112;
+
+/** Cosine similarity needed to count as the same person */
+export const ON_DEVICE_MATCH_THRESHOLD = 0.45;
+
+/** Crop this much wider than the detected box so the whole face is included */
+const CROP_MARGIN = 0.1;
+
+// ============================================================
+// Model
+// ============================================================
+
+interface EmbeddingModel {
+  ort: typeof Ort;
+  session: Ort.InferenceSession;
+}
+
+let modelPromise: Promise<EmbeddingModel> | null = null;
+
+function loadModel(): Promise<EmbeddingModel> {
+  if (!modelPromise) {
+    modelPromise = (async () => {
+      const ort = await import("onnxruntime-web");
+      // Threads need cross-origin isolation, which the app isn't served with
+      ort.env.wasm.numThreads = 1;
+      const session = await ort.InferenceSession.create(MODEL_URL, { executionProviders: ["wasm"] });
+      return { ort, session };
+    })().catch((error) => {
+      modelPromise = null;
+      throw new Error(`Couldn't load the face model from ${MODEL_URL}: ${error instanceof Error ? error.message : error}`);
+    });
+  }
+  return modelPromise;
+}
+
+let modelAvailablePromise: Promise<boolean> | null = null;
+
+/**
+ * Whether this deployment serves the embedding model. It isn't checked in;
+ * the build fetches it (see scripts/fetch-face-model.mjs), so builds without
+ * a configured source have none. Checked with a HEAD request, once per load.
+ */
+function isModelServed(): Promise<boolean> {
+  modelAvailablePromise ??= fetch(MODEL_URL, { method: "HEAD" })
+    .then((response) => {
+      // The dev server and most SPA hosts answer unknown paths with index.html
+      const contentType = response.headers.get("content-type") ?? "";
+      return response.ok && !contentType.includes("text/html");
+    })
+    .catch(() => false);
+  return modelAvailablePromise;
+}
+
+/**
+ * Why on-device recognition can't run here, or null when it can: the browser
+ * must detect faces and the deployment must serve the embedding model
+ */
+export async function getOnDeviceUnavailableReason(): Promise<string | null> {
+  if (!isFaceDetectionSupported()) return "This browser can't run face detection.";
+  if (!(await isModelServed())) {
+    return "The face embedding model isn't installed on this deployment. Ask an administrator to add it.";
+  }
+  return null;
+}
+
+let cropCanvas: HTMLCanvasElement | null = null;
+
+async function embedFace(model: EmbeddingModel, image: ImageBitmap, box: PixelBox): Promise<Float32Array> {
+  const marginX = box.width * CROP_MARGIN;
+  const marginY = box.height * CROP_MARGIN;
+
+  cropCanvas ??= document.createElement("canvas");
+  cropCanvas.width = FACE_INPUT_SIZE;
+  cropCanvas.height = FACE_INPUT_SIZE;
+  const context = cropCanvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Canvas is not available");
+
+  context.drawImage(
+    image,
+    box.x - marginX,
+    box.y - marginY,
+    box.width + marginX * 2,
+    box.height + marginY * 2,
+    0,
+    0,
+    FACE_INPUT_SIZE,
+    FACE_INPUT_SIZE,
+  );
+
+  const { data } = context.getImageData(0, 0, FACE_INPUT_SIZE, FACE_INPUT_SIZE);
+  const plane = FACE_INPUT_SIZE * FACE_INPUT_SIZE;
+  const input = new Float32Array(plane * 3);
+  for (let i = 0; i < plane; i++) {
+    input[i] = (data[i * 4] - 127.5) / 128;
+    input[plane + i] = (data[i * 4 + 1] - 127.5) / 128;
+    input[plane * 2 + i] = (data[i * 4 + 2] - 127.5) / 128;
+  }
+
+  const { ort, session } = model;
+  const tensor = new ort.Tensor("float32", input, [1, 3, FACE_INPUT_SIZE, FACE_INPUT_SIZE]);
+  const outputs = await session.run({ [session.inputNames[0]]: tensor });
+  return normalizeEmbedding(outputs[session.outputNames[0]].data as Float32Array);
+}
+
+// ============================================================
+// Gallery
+// ============================================================
+
+const galleries = new Map<string, Promise<GalleryEntry[]>>();
+
+async function fetchSectionGallery(sectionId: string): Promise<GalleryEntry[]> {
+  const { data: students, error } = await supabase
+    .from("students")
+    .select("id, roll_number, full_name, face_embedding_id")
+    .eq("section_id", sectionId)
+    .not("face_embedding_id", "is", null);
+  if (error) throw error;
+
+  const ids = (students || []).map((student) => student.face_embedding_id as string);
+  if (ids.length === 0) return [];
+
+  const { data: embeddings, error: embeddingsError } = await supabase
+    .from("face_embeddings")
+    .select("id, embedding")
+    .in("id", ids);
+  if (embeddingsError) throw embeddingsError;
+
+  const byId = new Map((embeddings || []).map((row) => [row.id, row.embedding]));
+  return (students || []).flatMap((student) => {
+    const embedding = byId.get(student.face_embedding_id as string);
+    return embedding?.length
+      ? [{
+          studentId: student.id,
+          rollNumber: student.roll_number,
+          studentName: student.full_name,
+          embedding: normalizeEmbedding(embedding),
+        }]
+      : [];
+  });
+}
+
+/**
+ * Stored embeddings for a section, fetched once per page session
+ */
+export function loadSectionGallery(sectionId: string): Promise<GalleryEntry[]> {
+  let gallery = galleries.get(sectionId);
+  if (!gallery) {
+    gallery = fetchSectionGallery(sectionId);
+    galleries.set(sectionId, gallery);
+    gallery.catch(() => galleries.delete(sectionId));
+  }
+  return gallery;
+}
+
+// ============================================================
+// Recognition
+// ============================================================
+
+/**
+ * Load everything on-device recognition needs for a section up front, so
+ * problems surface when the mode is switched on rather than mid-class
+ *
+ * @returns Number of students with stored embeddings
+ */
+export async function prepareOnDeviceRecognition(sectionId: string): Promise<number> {
+  if (!isFaceDetectionSupported()) {
+    throw new Error("This browser can't run face detection.");
+  }
+
+  const [gallery] = await Promise.all([loadSectionGallery(sectionId), loadModel()]);
+  if (gallery.length === 0) {
+    throw new Error("No stored face embeddings for this section. Train the students first.");
+  }
+  return gallery.length;
+}
+
+async function decodeFrame(dataUrl: string): Promise<ImageBitmap> {
+  const response = await fetch(dataUrl);
+  return createImageBitmap(await response.blob());
+}
+
+/**
+ * Drop-in for the backend's recognition call, run entirely in the browser
+ */
+export async function recognizeOnDevice(data: FaceRecognitionRequest): Promise<FaceRecognitionResponse> {
+  const [model, gallery, image] = await Promise.all([
+    loadModel(),
+    loadSectionGallery(data.section_id),
+    decodeFrame(data.image),
+  ]);
+
+  try {
+    const boxes = await detectFaces(image);
+    if (boxes === null) throw new Error("Face detection isn't available in this browser");
+
+    const embeddings: Float32Array[] = [];
+    for (const box of boxes) {
+      embeddings.push(await embedFace(model, image, box));
+    }
+
+    const expected = gallery[0]?.embedding.length;
+    if (expected && embeddings[0] && embeddings[0].length !== expected) {
+      throw new Error(
+        `The on-device model produces ${embeddings[0].length}-value embeddings but stored ones have ${expected}`,
+      );
+    }
+
+    const matches = matchFaces(embeddings, gallery, ON_DEVICE_MATCH_THRESHOLD);
+    const matchedFaces = new Set(matches.map((match) => match.faceIndex));
+
+    const recognized: RecognizedFace[] = matches.map((match) => ({
+      student_id: match.entry.studentId,
+      roll_number: match.entry.rollNumber,
+      student_name: match.entry.studentName,
+      confidence: similarityToConfidence(match.similarity, ON_DEVICE_MATCH_THRESHOLD),
+      bounding_box: boxes[match.faceIndex],
+    }));
+
+    const unrecognized: UnrecognizedFace[] = boxes
+      .filter((_, index) => !matchedFaces.has(index))
+      .map((box) => ({ bounding_box: box, message: "No match in this section" }));
+
+    return {
+      success: true,
+      faces_detected: boxes.length,
+      recognized,
+      unrecognized,
+    };
+  } finally {
+    image.close();
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Attendance Register API Service
+ *
+ * One row per student in a class's section with their attendance for that
+ * session, for exporting registers. Students without an attendance row (e.g.
+ * registered after the class) are included with no status.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface RegisterEntry {
+  rollNumber: string;
+  fullName: string;
+  status: string | null;
+  markedAt: string | null;
+  isManualOverride: boolean;
+  /** 0-1, only for face-recognised marks */
+  faceConfidence: number | null;
+}
+
+export interface ClassRegister {
+  subjectName: string;
+  subjectCode: string;
+  sectionName: string;
+  classDate: string;
+  startTime: string;
+  endTime: string;
+  entries: RegisterEntry[];
+}
+
+// ============================================================
+// API Functions
+// ============================================================
+
+/**
+ * Register for one class, ordered by roll number
+ */
+export async function fetchClassRegister(classId: string): Promise<ClassRegister> {
+  const { data: cls, error: classError } = await supabase
+    .from("classes")
+    .select(`
+      class_date,
+      start_time,
+      end_time,
+      subjects (
+        name,
+        code,
+        section_id,
+        sections (name)
+      )
+    `)
+    .eq("id", classId)
+    .single();
+  if (classError) throw classError;
+
+  const sectionId = cls.subjects?.section_id;
+
+  const [{ data: students, error: studentsError }, { data: attendance, error: attendanceError }] =
+    await Promise.all([
+      supabase
+        .from("students")
+        .select("id, roll_number, full_name")
+        .eq("section_id", sectionId ?? "")
+        .order("roll_number"),
+      supabase
+        .from("attendance")
+        .select("student_id, status, marked_at, is_manual_override, face_confidence")
+        .eq("class_id", classId),
+    ]);
+  if (studentsError) throw studentsError;
+  if (attendanceError) throw attendanceError;
+
+  const byStudent = new Map((attendance || []).map((row) => [row.student_id, row]));
+
+  return {
+    subjectName: cls.subjects?.name ?? "Unknown",
+    subjectCode: cls.subjects?.code ?? "",
+    sectionName: cls.subjects?.sections?.name ?? "",
+    classDate: cls.class_date,
+    startTime: cls.start_time,
+    endTime: cls.end_time,
+    entries: (students || []).map((student) => {
+      const mark = byStudent.get(student.id);
+      return {
+        rollNumber: student.roll_number,
+        fullName: student.full_name,
+        status: mark?.status ?? null,
+        markedAt: mark?.marked_at ?? null,
+        isManualOverride: mark?.is_manual_override ?? false,
+        faceConfidence: mark?.face_confidence ?? null,
+      };
+    }),
+  };
+}
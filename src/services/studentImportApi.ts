@@ -0,0 +1,37 @@
+/**
+ * Student Import API Service
+ *
+ * Lookups used to validate a bulk import before anything is written to
+ * `students`.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { ExistingRollNumber } from "@/lib/studentImport";
+
+// ============================================================
+// API Functions
+// ============================================================
+
+/**
+ * Which of `rollNumbers` are already registered, keyed by upper-cased roll
+ * number. Covers every section, not just the ones the caller can read.
+ */
+export async function fetchExistingRollNumbers(
+  rollNumbers: string[],
+): Promise<Map<string, ExistingRollNumber>> {
+  const existing = new Map<string, ExistingRollNumber>();
+  if (rollNumbers.length === 0) return existing;
+
+  const { data, error } = await supabase.rpc("find_students_by_roll", {
+    _roll_numbers: rollNumbers,
+  });
+  if (error) throw error;
+
+  for (const row of data || []) {
+    existing.set(row.roll_number.toUpperCase(), {
+      sectionId: row.section_id,
+      sectionName: row.section_name ?? "unknown",
+    });
+  }
+  return existing;
+}
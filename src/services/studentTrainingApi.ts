@@ -0,0 +1,254 @@
+/**
+ * Student Face Training Service
+ *
+ * Trains one student's face from captured images and keeps the captures in
+ * the private `face-captures` bucket until training succeeds. A failed run
+ * leaves the student marked with `face_training_status` so it can be retried
+ * from the Students page without recapturing.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { trainSingleStudent } from "@/services/faceRecognitionApi";
+
+// ============================================================
+// Types
+// ============================================================
+
+export type FaceTrainingStatus = "pending" | "failed";
+
+export type TrainingStage = "storing" | "training" | "done";
+
+/** `fraction` is the overall progress, 0-1 */
+export type TrainingProgressHandler = (stage: TrainingStage, fraction: number) => void;
+
+export interface TrainingTarget {
+  studentId: string;
+  rollNumber: string;
+}
+
+export interface StudentTrainingResult {
+  success: boolean;
+  message: string;
+  faceEmbeddingId?: string;
+}
+
+const BUCKET = "face-captures";
+
+// ============================================================
+// Captures
+// ============================================================
+
+async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Store captures for a student, replacing any earlier ones
+ */
+export async function storeFaceCaptures(
+  studentId: string,
+  images: string[],
+  onUploaded?: (count: number) => void,
+): Promise<void> {
+  await clearFaceCaptures(studentId);
+
+  for (let i = 0; i < images.length; i++) {
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(`${studentId}/${i + 1}.jpg`, await dataUrlToBlob(images[i]), {
+        contentType: "image/jpeg",
+        upsert: true,
+      });
+    if (error) throw error;
+    onUploaded?.(i + 1);
+  }
+}
+
+/**
+ * Stored captures for a student as data URLs, in capture order
+ */
+export async function loadFaceCaptures(studentId: string): Promise<string[]> {
+  const { data: files, error } = await supabase.storage.from(BUCKET).list(studentId);
+  if (error) throw error;
+
+  const names = (files || [])
+    .map((file) => file.name)
+    .sort((a, b) => parseInt(a, 10) - parseInt(b, 10));
+
+  const images: string[] = [];
+  for (const name of names) {
+    const { data, error: downloadError } = await supabase.storage
+      .from(BUCKET)
+      .download(`${studentId}/${name}`);
+    if (downloadError) throw downloadError;
+    images.push(await blobToDataUrl(data));
+  }
+  return images;
+}
+
+/**
+ * Delete a student's stored captures
+ */
+export async function clearFaceCaptures(studentId: string): Promise<void> {
+  const { data: files, error } = await supabase.storage.from(BUCKET).list(studentId);
+  if (error) throw error;
+  if (!files || files.length === 0) return;
+
+  const { error: removeError } = await supabase.storage
+    .from(BUCKET)
+    .remove(files.map((file) => `${studentId}/${file.name}`));
+  if (removeError) throw removeError;
+}
+
+// ============================================================
+// Training
+// ============================================================
+
+async function setTrainingStatus(
+  studentId: string,
+  status: FaceTrainingStatus,
+  message: string | null,
+): Promise<void> {
+  const { error } = await supabase
+    .from("students")
+    .update({ face_training_status: status, face_training_error: message })
+    .eq("id", studentId);
+  if (error) throw error;
+}
+
+/**
+ * Record a failed run. Callers report the failure itself, so not being able
+ * to record it is only logged.
+ */
+async function markTrainingFailed(studentId: string, message: string): Promise<void> {
+  try {
+    await setTrainingStatus(studentId, "failed", message);
+  } catch (error) {
+    console.error("Error recording face training failure:", error);
+  }
+}
+
+async function runTraining(
+  target: TrainingTarget,
+  images: string[],
+  onProgress: TrainingProgressHandler | undefined,
+  startAt: number,
+): Promise<StudentTrainingResult> {
+  onProgress?.("training", startAt);
+
+  let result: StudentTrainingResult;
+  try {
+    const response = await trainSingleStudent({
+      student_id: target.studentId,
+      roll_number: target.rollNumber,
+      images,
+    });
+    result = {
+      success: response.success,
+      message: response.success ? response.message : response.error || response.message || "Training failed",
+      faceEmbeddingId: response.face_embedding_id,
+    };
+  } catch (error) {
+    result = {
+      success: false,
+      message: error instanceof Error ? error.message : "Training failed",
+    };
+  }
+
+  if (!result.success) {
+    await markTrainingFailed(target.studentId, result.message);
+    return result;
+  }
+
+  const { error } = await supabase
+    .from("students")
+    .update({
+      face_registered: true,
+      face_embedding_id: result.faceEmbeddingId ?? null,
+      face_training_status: null,
+      face_training_error: null,
+    })
+    .eq("id", target.studentId);
+  if (error) {
+    // The captures are kept, so a retry can link the student up again
+    return {
+      success: false,
+      message: `The face was trained but the student record couldn't be updated: ${error.message}`,
+    };
+  }
+
+  // The backend has the embedding now; a leftover copy isn't worth failing over
+  await clearFaceCaptures(target.studentId).catch((clearError) =>
+    console.error("Error clearing face captures:", clearError),
+  );
+
+  onProgress?.("done", 1);
+  return result;
+}
+
+/**
+ * Train a just-registered student. Captures are stored first so that a
+ * failed run can be retried later; the student stays marked until it works.
+ * The student row already exists, so this reports failures in its result
+ * rather than throwing.
+ */
+export async function trainRegisteredStudent(
+  target: TrainingTarget,
+  images: string[],
+  onProgress?: TrainingProgressHandler,
+): Promise<StudentTrainingResult> {
+  try {
+    await setTrainingStatus(target.studentId, "pending", null);
+  } catch (error) {
+    // Training can still go ahead; the run marks the outcome either way
+    console.error("Error marking face training pending:", error);
+  }
+
+  onProgress?.("storing", 0);
+  let stored = true;
+  try {
+    await storeFaceCaptures(target.studentId, images, (count) =>
+      onProgress?.("storing", (count / images.length) * 0.5),
+    );
+  } catch (error) {
+    // Still worth training from memory; only a retry needs the stored copy
+    console.error("Error storing face captures:", error);
+    stored = false;
+  }
+
+  const result = await runTraining(target, images, onProgress, 0.5);
+  if (!result.success && !stored) {
+    const message = `${result.message}. The face images couldn't be saved, so they need to be recaptured.`;
+    await markTrainingFailed(target.studentId, message);
+    return { ...result, message };
+  }
+  return result;
+}
+
+/**
+ * Retry training for a student marked pending or failed, using the stored
+ * captures
+ */
+export async function retryStudentTraining(
+  target: TrainingTarget,
+  onProgress?: TrainingProgressHandler,
+): Promise<StudentTrainingResult> {
+  const images = await loadFaceCaptures(target.studentId);
+  if (images.length === 0) {
+    const message = "No stored face images. Capture new ones on the Face Training page.";
+    await markTrainingFailed(target.studentId, message);
+    return { success: false, message };
+  }
+
+  return runTraining(target, images, onProgress, 0);
+}
@@ -0,0 +1,94 @@
+/**
+ * System Settings API Service
+ *
+ * Reads and writes the institution-wide `system_settings` rows. Everyone
+ * signed in can read; RLS only lets admins write. Each write is recorded in
+ * `system_settings_history` by a database trigger.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  SystemSettings,
+  SystemSettingKey,
+  isSystemSettingKey,
+  settingsFromRows,
+} from "@/lib/systemSettings";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface SystemSettingChange {
+  id: string;
+  key: SystemSettingKey;
+  previousValue: unknown;
+  newValue: unknown;
+  changedBy: string | null;
+  changedByName: string | null;
+  changedAt: string;
+}
+
+// ============================================================
+// API Functions
+// ============================================================
+
+/**
+ * Current settings, with defaults for any key that has never been saved
+ */
+export async function fetchSystemSettings(): Promise<SystemSettings> {
+  const { data, error } = await supabase.from("system_settings").select("key, value");
+  if (error) throw error;
+  return settingsFromRows(data || []);
+}
+
+/**
+ * Upsert the given keys; unchanged keys should be left out so the history
+ * only records real edits
+ */
+export async function saveSystemSettings(
+  settings: SystemSettings,
+  keys: SystemSettingKey[],
+): Promise<void> {
+  if (keys.length === 0) return;
+
+  const rows = keys.map((key) => ({ key, value: settings[key] as unknown as Json }));
+  const { error } = await supabase.from("system_settings").upsert(rows, { onConflict: "key" });
+  if (error) throw error;
+}
+
+/**
+ * Most recent setting changes with the editor's name (admins only)
+ */
+export async function fetchSystemSettingsHistory(limit = 50): Promise<SystemSettingChange[]> {
+  const { data, error } = await supabase
+    .from("system_settings_history")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+
+  const editorIds = Array.from(
+    new Set((data || []).map((row) => row.changed_by).filter((id): id is string => !!id)),
+  );
+  const names = new Map<string, string>();
+  if (editorIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from("profiles")
+      .select("user_id, full_name")
+      .in("user_id", editorIds);
+    for (const profile of profiles || []) names.set(profile.user_id, profile.full_name);
+  }
+
+  return (data || [])
+    .filter((row) => isSystemSettingKey(row.key))
+    .map((row) => ({
+      id: row.id,
+      key: row.key as SystemSettingKey,
+      previousValue: row.previous_value,
+      newValue: row.new_value,
+      changedBy: row.changed_by,
+      changedByName: row.changed_by ? names.get(row.changed_by) ?? null : null,
+      changedAt: row.created_at,
+    }));
+}
@@ -0,0 +1,212 @@
+/**
+ * Timetable API Service
+ *
+ * Creates weekly class series and their `classes` occurrences in bulk, and
+ * edits either one occurrence or the rest of a series. Every write is checked
+ * for teacher/section clashes first via the `find_class_clashes` function.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { generateOccurrenceDates } from "@/lib/timetable";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface ClassClash {
+  classId: string;
+  classDate: string;
+  startTime: string;
+  endTime: string;
+  subjectName: string;
+  subjectCode: string;
+  clashType: "teacher" | "section";
+}
+
+export interface ClassSlot {
+  subjectId: string;
+  teacherId: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface ClassSeriesInput extends ClassSlot {
+  weekdays: number[];
+  termStart: string;
+  termEnd: string;
+  excludedDates: string[];
+}
+
+export interface CreateSeriesResult {
+  seriesCount: number;
+  classCount: number;
+}
+
+/** Raised when a write would double-book a teacher or a section */
+export class ClassClashError extends Error {
+  clashes: ClassClash[];
+
+  constructor(clashes: ClassClash[]) {
+    super(`${clashes.length} clashing class(es) found`);
+    this.name = "ClassClashError";
+    this.clashes = clashes;
+  }
+}
+
+// ============================================================
+// API Functions
+// ============================================================
+
+/**
+ * Existing classes overlapping `slot` on any of `dates`
+ */
+export async function findClassClashes(
+  slot: ClassSlot,
+  dates: string[],
+  excludeClassIds: string[] = [],
+): Promise<ClassClash[]> {
+  if (dates.length === 0) return [];
+
+  const { data, error } = await supabase.rpc("find_class_clashes", {
+    _dates: dates,
+    _start_time: slot.startTime,
+    _end_time: slot.endTime,
+    _teacher_id: slot.teacherId,
+    _subject_id: slot.subjectId,
+    _exclude_class_ids: excludeClassIds,
+  });
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    classId: row.class_id,
+    classDate: row.class_date,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    subjectName: row.subject_name,
+    subjectCode: row.subject_code,
+    clashType: row.clash_type === "teacher" ? "teacher" : "section",
+  }));
+}
+
+/**
+ * Schedule a single class after checking for clashes
+ */
+export async function createClass(slot: ClassSlot, classDate: string): Promise<void> {
+  const clashes = await findClassClashes(slot, [classDate]);
+  if (clashes.length > 0) throw new ClassClashError(clashes);
+
+  const { error } = await supabase.from("classes").insert({
+    subject_id: slot.subjectId,
+    class_date: classDate,
+    start_time: slot.startTime,
+    end_time: slot.endTime,
+    teacher_id: slot.teacherId,
+    status: "scheduled",
+  });
+  if (error) throw error;
+}
+
+/**
+ * Create one series per weekday and all of their occurrences in a single
+ * transaction. Nothing is written if any occurrence clashes or fails.
+ */
+export async function createClassSeries(input: ClassSeriesInput): Promise<CreateSeriesResult> {
+  const datesByWeekday = input.weekdays.map((weekday) => ({
+    weekday,
+    dates: generateOccurrenceDates(weekday, input.termStart, input.termEnd, input.excludedDates),
+  }));
+
+  const clashes = await findClassClashes(
+    input,
+    datesByWeekday.flatMap(({ dates }) => dates),
+  );
+  if (clashes.length > 0) throw new ClassClashError(clashes);
+
+  // One RPC so a failure on any weekday rolls back all of them
+  const { data: classCount, error } = await supabase.rpc("create_class_series", {
+    _subject_id: input.subjectId,
+    _teacher_id: input.teacherId,
+    _start_time: input.startTime,
+    _end_time: input.endTime,
+    _term_start: input.termStart,
+    _term_end: input.termEnd,
+    _excluded_dates: input.excludedDates,
+    _occurrences: datesByWeekday,
+  });
+  if (error) throw error;
+
+  return {
+    seriesCount: datesByWeekday.filter(({ dates }) => dates.length > 0).length,
+    classCount: classCount ?? 0,
+  };
+}
+
+/**
+ * Move or retime one occurrence. It is marked as an exception so later
+ * series-wide edits leave it alone. The optional reason is recorded in the
+ * class history and shown to students.
+ */
+export async function updateClassOccurrence(
+  classId: string,
+  slot: ClassSlot,
+  classDate: string,
+  reason?: string,
+): Promise<void> {
+  const clashes = await findClassClashes(slot, [classDate], [classId]);
+  if (clashes.length > 0) throw new ClassClashError(clashes);
+
+  const { error } = await supabase
+    .from("classes")
+    .update({
+      class_date: classDate,
+      start_time: slot.startTime,
+      end_time: slot.endTime,
+      is_series_exception: true,
+      reschedule_reason: reason?.trim() || null,
+    })
+    .eq("id", classId);
+  if (error) throw error;
+}
+
+/**
+ * Retime every scheduled, unedited occurrence of a series from `fromDate`
+ * onwards, together with the series itself, in a single update, so students
+ * get one notification for the whole edit. Returns the number of classes
+ * updated.
+ */
+export async function updateClassSeries(
+  seriesId: string,
+  slot: ClassSlot,
+  fromDate: string,
+  reason?: string,
+): Promise<number> {
+  const { data: occurrences, error: fetchError } = await supabase
+    .from("classes")
+    .select("id, class_date")
+    .eq("series_id", seriesId)
+    .eq("status", "scheduled")
+    .eq("is_series_exception", false)
+    .gte("class_date", fromDate);
+  if (fetchError) throw fetchError;
+  if (!occurrences || occurrences.length === 0) return 0;
+
+  const ids = occurrences.map((occurrence) => occurrence.id);
+  const clashes = await findClassClashes(
+    slot,
+    occurrences.map((occurrence) => occurrence.class_date),
+    ids,
+  );
+  if (clashes.length > 0) throw new ClassClashError(clashes);
+
+  // One RPC so the classes and the series definition can't end up disagreeing
+  const { data: classCount, error } = await supabase.rpc("update_class_series", {
+    _series_id: seriesId,
+    _start_time: slot.startTime,
+    _end_time: slot.endTime,
+    _from_date: fromDate,
+    _reason: reason?.trim() || null,
+  });
+  if (error) throw error;
+
+  return classCount ?? 0;
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { blockedDatesBetween, findBlockingEvent, findTermForDate } from "@/lib/academicCalendar";
+
+const terms = [
+  { id: "t2", name: "Spring 2027", startDate: "2027-01-10", endDate: "2027-05-31" },
+  { id: "t1", name: "Autumn 2026", startDate: "2026-08-01", endDate: "2026-12-15" },
+];
+
+const events = [
+  { id: "e1", name: "Diwali", kind: "holiday" as const, startDate: "2026-11-08", endDate: "2026-11-10" },
+  { id: "e2", name: "Midterms", kind: "exam_blackout" as const, startDate: "2026-10-20", endDate: "2026-10-20" },
+];
+
+describe("academicCalendar", () => {
+  it("finds the term containing a date", () => {
+    expect(findTermForDate(terms, "2026-10-19")?.id).toBe("t1");
+    expect(findTermForDate(terms, "2026-12-25")).toBeNull();
+  });
+
+  it("finds blocking events and expands them within a range", () => {
+    expect(findBlockingEvent(events, "2026-11-09")?.name).toBe("Diwali");
+    expect(findBlockingEvent(events, "2026-11-11")).toBeNull();
+    expect(blockedDatesBetween(events, "2026-10-01", "2026-11-09")).toEqual([
+      "2026-10-20",
+      "2026-11-08",
+      "2026-11-09",
+    ]);
+  });
+});
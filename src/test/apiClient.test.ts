@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { z } from "zod";
+import { ApiError, classifyStatus, createApiClient } from "@/services/apiClient";
+import { modelStatusResponseSchema } from "@/services/faceApiSchemas";
+
+const schema = z.object({ status: z.string() });
+const client = createApiClient({ baseUrl: "http://api", retryDelayMs: 0 });
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const fail = (request: Promise<unknown>) => request.then(() => null, (error: ApiError) => error);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("apiClient", () => {
+  it("classifies error statuses", () => {
+    expect(classifyStatus(401)).toBe("auth");
+    expect(classifyStatus(400, "face_not_detected")).toBe("validation");
+    expect(classifyStatus(409, "model_not_trained")).toBe("model_not_trained");
+    expect(classifyStatus(503)).toBe("unavailable");
+    expect(classifyStatus(500)).toBe("server");
+  });
+
+  it("retries idempotent calls on unavailability and returns the parsed body", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(json(503, {}))
+      .mockResolvedValueOnce(json(200, { status: "ok", extra: 1 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await client.request({ method: "GET", path: "/health", schema, timeoutMs: 1000, retries: 2 });
+    expect(result).toEqual({ status: "ok" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry rejected requests and keeps the backend's code and message", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(json(400, { error: "low_quality", message: "Image too dark" }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const error = await fail(client.request({ method: "GET", path: "/x", schema, timeoutMs: 1000, retries: 2 }));
+    expect(error).toMatchObject({ kind: "validation", code: "low_quality", message: "Image too dark", status: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects responses that don't match the schema", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(json(200, { status: 1 })));
+
+    const error = await fail(client.request({ method: "GET", path: "/health", schema, timeoutMs: 1000 }));
+    expect(error).toMatchObject({ kind: "invalid_response" });
+  });
+
+  it("reads null optional fields as missing", () => {
+    const status = { section_id: "s", is_trained: false, last_trained_at: null, students_count: 3, trained_students_count: 0 };
+    expect(modelStatusResponseSchema.parse(status).last_trained_at).toBeUndefined();
+  });
+
+  it("times out and cancels hung requests", async () => {
+    const hang = (_url: string, init: RequestInit) =>
+      new Promise<Response>((_, reject) => {
+        init.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+      });
+    vi.stubGlobal("fetch", vi.fn(hang));
+
+    const timedOut = await fail(client.request({ method: "POST", path: "/r", body: {}, schema, timeoutMs: 10 }));
+    expect(timedOut).toMatchObject({ kind: "timeout" });
+
+    const controller = new AbortController();
+    const pending = fail(client.request({ method: "POST", path: "/r", body: {}, schema, timeoutMs: 1000, signal: controller.signal }));
+    controller.abort();
+    expect(await pending).toMatchObject({ kind: "cancelled" });
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { classesCanMiss, classesNeededToReach, attendancePercentage } from "@/lib/attendanceMath";
+
+describe("attendanceMath", () => {
+  it("computes how many classes can still be missed", () => {
+    // 8 of 10 at 75%: missing one more gives 8/11 = 72.7%
+    expect(classesCanMiss(8, 10, 75)).toBe(0);
+    // 9 of 10 at 75%: missing two more gives 9/12 = 75% exactly
+    expect(classesCanMiss(9, 10, 75)).toBe(2);
+    expect(classesCanMiss(3, 10, 75)).toBe(0);
+  });
+
+  it("computes classes needed to reach the threshold", () => {
+    // 6 of 10 at 80%: (8 - 6) / 0.2 = 10 -> 16/20 = 80%
+    expect(classesNeededToReach(6, 10, 80)).toBe(10);
+    expect(classesNeededToReach(9, 10, 80)).toBe(0);
+  });
+
+  it("handles empty history", () => {
+    expect(attendancePercentage(0, 0)).toBe(0);
+    expect(classesNeededToReach(0, 0, 75)).toBe(0);
+  });
+});
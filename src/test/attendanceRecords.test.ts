@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { buildAttendanceRecords } from "@/lib/attendanceRecords";
+
+const submittedAt = "2026-10-19T09:40:00.000Z";
+
+describe("buildAttendanceRecords", () => {
+  const records = buildAttendanceRecords(
+    "class-1",
+    "teacher-1",
+    [
+      { id: "s1", status: "present", confidence: 0.92, firstSeenAt: "2026-10-19T09:02:00.000Z" },
+      { id: "s2", status: "late", confidence: 0.88, firstSeenAt: "2026-10-19T09:21:00.000Z" },
+      { id: "s3", status: "present", confidence: 1, isManual: true },
+    ],
+    ["s1", "s2", "s3", "s4", "s5"],
+    submittedAt,
+  );
+
+  it("marks roster students nobody marked as absent", () => {
+    expect(records).toHaveLength(5);
+    expect(records.filter((record) => record.status === "absent").map((record) => record.student_id))
+      .toEqual(["s4", "s5"]);
+  });
+
+  it("gives every row the same columns so a bulk insert sends no NULL defaults", () => {
+    const columns = Object.keys(records[0]).sort();
+    for (const record of records) {
+      expect(Object.keys(record).sort()).toEqual(columns);
+    }
+  });
+
+  it("always sets marked_at: first sighting when known, otherwise the submission time", () => {
+    expect(records.map((record) => record.marked_at)).toEqual([
+      "2026-10-19T09:02:00.000Z",
+      "2026-10-19T09:21:00.000Z",
+      submittedAt,
+      submittedAt,
+      submittedAt,
+    ]);
+  });
+
+  it("keeps face confidence for recognized students only", () => {
+    expect(records.map((record) => record.face_confidence)).toEqual([0.92, 0.88, null, null, null]);
+    expect(records.map((record) => record.is_manual_override)).toEqual([false, false, true, false, false]);
+  });
+});
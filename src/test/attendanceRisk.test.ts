@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { getRiskLevel, getRiskThresholds } from "@/lib/attendanceRisk";
+
+const settings = {
+  attendanceThreshold: 75,
+  lowAttendanceAlertThreshold: 60,
+  departmentThresholds: { eng: 85 },
+};
+
+describe("attendanceRisk", () => {
+  it("applies department overrides to the required minimum", () => {
+    expect(getRiskThresholds(settings, "eng")).toEqual({ required: 85, alert: 60 });
+    expect(getRiskThresholds(settings, "arts")).toEqual({ required: 75, alert: 60 });
+    expect(getRiskThresholds(settings)).toEqual({ required: 75, alert: 60 });
+  });
+
+  it("bands percentages against the thresholds", () => {
+    const thresholds = getRiskThresholds(settings, "eng");
+    expect(getRiskLevel(85, thresholds)).toBe("safe");
+    expect(getRiskLevel(80, thresholds)).toBe("warning");
+    expect(getRiskLevel(59, thresholds)).toBe("risk");
+  });
+});
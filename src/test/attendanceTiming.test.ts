@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { getArrivalStatus, getClassStart, getClassTiming, isPastCutoff } from "@/lib/attendanceTiming";
+
+const rule = { autoMarkAbsent: true, autoMarkAbsentAfterMinutes: 30 };
+const start = new Date(2026, 9, 19, 9, 0);
+const at = (hours: number, minutes: number, seconds = 0) => new Date(2026, 9, 19, hours, minutes, seconds);
+
+describe("getArrivalStatus", () => {
+  it("marks arrivals before the start and within the grace window present", () => {
+    expect(getArrivalStatus(at(8, 55), start, 10)).toBe("present");
+    expect(getArrivalStatus(at(9, 4), start, 10)).toBe("present");
+  });
+
+  it("counts exactly the end of the grace window as on time", () => {
+    expect(getArrivalStatus(at(9, 10), start, 10)).toBe("present");
+    expect(getArrivalStatus(at(9, 10, 1), start, 10)).toBe("late");
+  });
+
+  it("marks later arrivals late", () => {
+    expect(getArrivalStatus(at(9, 25), start, 10)).toBe("late");
+  });
+});
+
+describe("getClassTiming", () => {
+  it("builds the local start and the auto-absent cutoff", () => {
+    const timing = getClassTiming("2026-10-19", "09:00:00", rule);
+    expect(timing.start).toEqual(start);
+    expect(timing.cutoff).toEqual(at(9, 30));
+  });
+
+  it("closes arrivals only after the cutoff", () => {
+    const { cutoff } = getClassTiming("2026-10-19", "09:00", rule);
+    expect(isPastCutoff(at(9, 30), cutoff)).toBe(false);
+    expect(isPastCutoff(at(9, 30, 1), cutoff)).toBe(true);
+  });
+
+  it("has no cutoff when auto-absent is off", () => {
+    const { cutoff } = getClassTiming("2026-10-19", "09:00", { ...rule, autoMarkAbsent: false });
+    expect(cutoff).toBeNull();
+    expect(isPastCutoff(at(23, 0), cutoff)).toBe(false);
+  });
+
+  it("treats a class without a start time as open and never late", () => {
+    expect(getClassStart("2026-10-19", null)).toBeNull();
+    const timing = getClassTiming("2026-10-19", "", rule);
+    expect(timing).toEqual({ start: null, cutoff: null });
+    expect(getArrivalStatus(at(12, 0), timing.start, 10)).toBe("present");
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { buildTrendSeries, type TrendClass } from "@/lib/attendanceTrends";
+
+const classes: TrendClass[] = [
+  { classDate: "2026-10-12", subjectId: "math", subjectLabel: "Math", sectionId: "a", sectionLabel: "A", attended: 8, total: 10 },
+  { classDate: "2026-10-14", subjectId: "phys", subjectLabel: "Physics", sectionId: "a", sectionLabel: "A", attended: 5, total: 10 },
+  { classDate: "2026-10-20", subjectId: "math", subjectLabel: "Math", sectionId: "b", sectionLabel: "B", attended: 9, total: 10 },
+];
+
+describe("attendanceTrends", () => {
+  it("groups classes into Monday-based weeks", () => {
+    const { points } = buildTrendSeries(classes, "week", "overall");
+    expect(points.map((p) => p.bucket)).toEqual(["2026-10-12", "2026-10-19"]);
+    expect(points[0].percentage).toBe(65);
+    expect(points[1].percentage).toBe(90);
+  });
+
+  it("emits one series per subject with gaps as null", () => {
+    const { points, series } = buildTrendSeries(classes, "day", "subject");
+    expect(series.map((s) => s.label)).toEqual(["Math", "Physics"]);
+    expect(points[0].math).toBe(80);
+    expect(points[0].phys).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { FaceRecognitionProvider, setFaceProvider } from "@/services/faceRecognitionApi";
+import {
+  checkBackendNow,
+  getConnectivity,
+  nextHealthCheckDelay,
+  subscribeToConnectivity,
+} from "@/services/backendConnectivity";
+
+afterEach(() => {
+  setFaceProvider(null);
+});
+
+describe("backendConnectivity", () => {
+  it("polls steadily while up and backs off while down", () => {
+    expect(nextHealthCheckDelay(0)).toBe(30000);
+    expect(nextHealthCheckDelay(1)).toBe(2000);
+    expect(nextHealthCheckDelay(3)).toBe(8000);
+    expect(nextHealthCheckDelay(10)).toBe(30000);
+  });
+
+  it("tracks the backend going away and coming back", async () => {
+    const getHealth = vi.fn().mockResolvedValue({ status: "ok", version: "1.2.0" });
+    setFaceProvider({ name: "http", getHealth } as unknown as FaceRecognitionProvider);
+
+    const listener = vi.fn();
+    const unsubscribe = subscribeToConnectivity(listener);
+    await checkBackendNow();
+    expect(getConnectivity()).toMatchObject({ status: "online", failures: 0, health: { version: "1.2.0" } });
+
+    getHealth.mockRejectedValue(new Error("down"));
+    await checkBackendNow();
+    await checkBackendNow();
+    expect(getConnectivity()).toMatchObject({ status: "offline", failures: 2, checking: false });
+
+    getHealth.mockResolvedValue({ status: "ok" });
+    await checkBackendNow();
+    expect(getConnectivity()).toMatchObject({ status: "online", failures: 0 });
+    expect(listener).toHaveBeenCalled();
+
+    unsubscribe();
+  });
+});
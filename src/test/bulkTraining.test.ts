@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { ParsedStudent, applyTrainingResults, chunk, trainingReportRows } from "@/lib/bulkTraining";
+
+const student = (serialNo: number, status: ParsedStudent["status"] = "uploading"): ParsedStudent => ({
+  serialNo,
+  rollNumber: `21CS00${serialNo}`,
+  studentName: `Student ${serialNo}`,
+  branch: "CSE",
+  semester: "VIII",
+  gender: "F",
+  status,
+  hasImage: true,
+});
+
+describe("bulkTraining", () => {
+  it("splits into fixed-size chunks", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 10)).toEqual([]);
+  });
+
+  it("applies results to attempted students only and counts attempts", () => {
+    const students = [student(1), student(2), student(3, "pending")];
+    const updated = applyTrainingResults(students, [1, 2], [
+      { serial_no: 1, status: "success" },
+      { serial_no: 2, status: "failed", error: "No face detected" },
+    ]);
+
+    expect(updated.map((s) => [s.status, s.message, s.attempts])).toEqual([
+      ["success", undefined, 1],
+      ["failed", "No face detected", 1],
+      ["pending", undefined, undefined],
+    ]);
+  });
+
+  it("fails every student in a chunk whose request failed", () => {
+    const updated = applyTrainingResults([student(1, "failed"), student(2)], [1, 2], [], "Server error");
+    expect(updated.every((s) => s.status === "failed" && s.message === "Server error")).toBe(true);
+    expect(updated[0].attempts).toBe(1);
+  });
+
+  it("builds report rows with image counts", () => {
+    const rows = trainingReportRows([{ ...student(1, "success"), attempts: 2 }], new Map([[1, 3]]));
+    expect(rows[1]).toEqual([1, "21CS001", "Student 1", 3, "success", 2, undefined]);
+  });
+});
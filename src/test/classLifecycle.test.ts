@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { canTransition, isClassMissed } from "@/lib/classLifecycle";
+
+describe("canTransition", () => {
+  it("allows the forward lifecycle", () => {
+    expect(canTransition("scheduled", "in_progress")).toBe(true);
+    expect(canTransition("in_progress", "completed")).toBe(true);
+    expect(canTransition("scheduled", "cancelled")).toBe(true);
+  });
+
+  it("rejects re-opening final states", () => {
+    expect(canTransition("cancelled", "scheduled")).toBe(false);
+    expect(canTransition("completed", "in_progress")).toBe(false);
+    expect(canTransition("completed", "cancelled")).toBe(false);
+  });
+});
+
+describe("isClassMissed", () => {
+  const now = new Date("2026-10-19T12:00:00");
+
+  it("flags unfinished classes whose end time has passed", () => {
+    expect(isClassMissed({ class_date: "2026-10-19", end_time: "11:00", status: "scheduled" }, now)).toBe(true);
+    expect(isClassMissed({ class_date: "2026-10-18", end_time: "16:00", status: "in_progress" }, now)).toBe(true);
+  });
+
+  it("ignores upcoming, completed and cancelled classes", () => {
+    expect(isClassMissed({ class_date: "2026-10-19", end_time: "13:00", status: "scheduled" }, now)).toBe(false);
+    expect(isClassMissed({ class_date: "2026-10-18", end_time: "10:00", status: "completed" }, now)).toBe(false);
+    expect(isClassMissed({ class_date: "2026-10-18", end_time: "10:00", status: "cancelled" }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv, toCsv } from "@/lib/csv";
+
+describe("parseCsv", () => {
+  it("handles quoted commas, doubled quotes and embedded line breaks", () => {
+    const text = 'Roll,Name\r\n1,"Rao, K."\r\n2,"Said ""hi"""\r\n3,"Line\nbreak"';
+    expect(parseCsv(text)).toEqual([
+      ["Roll", "Name"],
+      ["1", "Rao, K."],
+      ["2", 'Said "hi"'],
+      ["3", "Line\nbreak"],
+    ]);
+  });
+
+  it("accepts LF and CR endings, drops a BOM and blank records", () => {
+    expect(parseCsv("\uFEFFa,b\n1,2\r\r\n3,\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", ""],
+    ]);
+  });
+
+  it("round-trips with toCsv", () => {
+    const rows = [["a", "b, c"], ['"q"', "x\r\ny"]];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
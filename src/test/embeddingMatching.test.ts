@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import {
+  GalleryEntry,
+  matchFaces,
+  normalizeEmbedding,
+  similarityToConfidence,
+} from "@/lib/embeddingMatching";
+
+const entry = (studentId: string, values: number[]): GalleryEntry => ({
+  studentId,
+  rollNumber: studentId.toUpperCase(),
+  studentName: studentId,
+  embedding: normalizeEmbedding(values),
+});
+
+const gallery = [entry("a", [1, 0, 0]), entry("b", [0, 1, 0])];
+
+describe("embeddingMatching", () => {
+  it("normalizes to unit length", () => {
+    expect(Array.from(normalizeEmbedding([3, 4]))).toEqual([0.6000000238418579, 0.800000011920929]);
+  });
+
+  it("matches each face to its nearest student above the threshold", () => {
+    const faces = [normalizeEmbedding([0.1, 1, 0]), normalizeEmbedding([0, 0, 1])];
+    const matches = matchFaces(faces, gallery, 0.5);
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ faceIndex: 0, entry: { studentId: "b" } });
+  });
+
+  it("gives a student to the closest face only", () => {
+    const faces = [normalizeEmbedding([0.8, 0.2, 0]), normalizeEmbedding([1, 0.05, 0])];
+    const matches = matchFaces(faces, gallery, 0.5);
+    expect(matches.map((match) => [match.faceIndex, match.entry.studentId])).toEqual([[1, "a"]]);
+  });
+
+  it("maps similarity to vote confidence", () => {
+    expect(similarityToConfidence(0.4, 0.45)).toBe(0);
+    expect(similarityToConfidence(0.45, 0.45)).toBe(0.5);
+    expect(similarityToConfidence(1, 0.45)).toBe(1);
+  });
+});
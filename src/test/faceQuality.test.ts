@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  GrayImage,
+  assessFaceQuality,
+  differenceHash,
+  hammingDistance,
+  laplacianVariance,
+  meanBrightness,
+  nextPosePrompt,
+} from "@/lib/faceQuality";
+
+const image = (width: number, height: number, pixel: (x: number, y: number) => number): GrayImage => {
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data[y * width + x] = pixel(x, y);
+  }
+  return { data, width, height };
+};
+
+const checkerboard = image(32, 32, (x, y) => ((x + y) % 2 === 0 ? 200 : 50));
+const flat = image(32, 32, () => 128);
+const gradient = image(32, 32, (x) => x * 8);
+
+const good = {
+  sharpness: 300,
+  brightness: 130,
+  faces: [{ x: 0.35, y: 0.3, width: 0.3, height: 0.4 }],
+  hash: "0".repeat(64),
+};
+
+describe("faceQuality", () => {
+  it("measures sharpness and brightness", () => {
+    expect(laplacianVariance(checkerboard)).toBeGreaterThan(10000);
+    expect(laplacianVariance(flat)).toBe(0);
+    expect(meanBrightness(flat)).toBe(128);
+    expect(meanBrightness(checkerboard, { x: 0, y: 0, width: 2, height: 1 })).toBe(125);
+  });
+
+  it("hashes identical images identically and different images apart", () => {
+    const hash = differenceHash(gradient);
+    expect(hash).toHaveLength(64);
+    expect(differenceHash(gradient)).toBe(hash);
+    const reversed = differenceHash(image(32, 32, (x) => 255 - x * 8));
+    expect(hammingDistance(hash, reversed)).toBe(64);
+  });
+
+  it("accepts a sharp, centred, well-lit face and asks for the next pose", () => {
+    const quality = assessFaceQuality(good, []);
+    expect(quality.acceptable).toBe(true);
+    expect(quality.score).toBeGreaterThan(90);
+    expect(quality.prompt).toBe(nextPosePrompt(1));
+  });
+
+  it("rejects blurry, dark, off-centre and missing faces with a prompt", () => {
+    expect(assessFaceQuality({ ...good, sharpness: 10 }, []).issues).toEqual(["blurry"]);
+    expect(assessFaceQuality({ ...good, brightness: 30 }, []).prompt).toMatch(/too dark/i);
+    expect(assessFaceQuality({ ...good, faces: [{ x: 0, y: 0, width: 0.3, height: 0.4 }] }, []).issues)
+      .toEqual(["off_centre"]);
+    expect(assessFaceQuality({ ...good, faces: [] }, []).issues[0]).toBe("no_face");
+  });
+
+  it("rejects near-duplicates of earlier captures", () => {
+    const quality = assessFaceQuality(good, ["0".repeat(62) + "11"]);
+    expect(quality.issues).toEqual(["duplicate"]);
+    expect(quality.prompt).toMatch(/earlier shot/);
+  });
+
+  it("skips face checks without a detector", () => {
+    const quality = assessFaceQuality({ ...good, faces: null }, []);
+    expect(quality.acceptable).toBe(true);
+    expect(quality.faceChecked).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { createMockFaceProvider, MockStudent } from "@/services/mockFaceProvider";
+import { cosineSimilarity, fakeEmbedding } from "@/lib/fakeFaceEmbeddings";
+
+const students: MockStudent[] = [
+  { id: "s1", roll_number: "21CS001", full_name: "Asha", face_registered: false },
+  { id: "s2", roll_number: "21CS002", full_name: "Ravi", face_registered: false },
+];
+
+const createProvider = () =>
+  createMockFaceProvider({ loadSectionStudents: async () => students, delayMs: 0 });
+
+describe("mockFaceProvider", () => {
+  it("derives stable unit embeddings", () => {
+    expect(fakeEmbedding("frame")).toEqual(fakeEmbedding("frame"));
+    expect(cosineSimilarity(fakeEmbedding("frame"), fakeEmbedding("frame"))).toBeCloseTo(1);
+  });
+
+  it("recognizes a student in a frame matching their training image", async () => {
+    const provider = createProvider();
+    await provider.trainStudent({ student_id: "s1", roll_number: "21CS001", images: ["data:image/jpeg;base64,AAA"] });
+
+    const request = { class_id: "c1", section_id: "sec1", image: "data:image/jpeg;base64,AAA", timestamp: "" };
+    const result = await provider.recognize(request);
+    expect(result.recognized[0]).toMatchObject({ student_id: "s1", student_name: "Asha", confidence: 0.99 });
+    expect(result.recognized.some((face) => face.student_id === "s2")).toBe(false);
+    expect(await provider.recognize(request)).toEqual(result);
+  });
+
+  it("trains bulk rosters by roll number and fails students without images", async () => {
+    const provider = createProvider();
+    const response = await provider.trainBulk({
+      section_id: "sec1",
+      students: [
+        { serial_no: 1, roll_number: "21cs001", student_name: "Asha", branch: "", semester: "", gender: "" },
+        { serial_no: 2, roll_number: "21CS002", student_name: "Ravi", branch: "", semester: "", gender: "" },
+      ],
+      images: { "1": ["a", "b"] },
+    });
+
+    expect(response).toMatchObject({ total: 2, trained: 1, failed: 1 });
+    expect(response.results[0]).toMatchObject({ status: "success", student_id: "s1" });
+    expect(response.results[1]).toMatchObject({ status: "failed", error: "No images provided" });
+
+    const status = await provider.getModelStatus("sec1");
+    expect(status).toMatchObject({ is_trained: false, students_count: 2, trained_students_count: 1 });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+async function loadAvailability(response: Response | Error, detectionSupported = true) {
+  vi.resetModules();
+  vi.doMock("@/lib/faceDetector", () => ({
+    detectFaces: vi.fn(),
+    isFaceDetectionSupported: () => detectionSupported,
+  }));
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(() => (response instanceof Error ? Promise.reject(response) : Promise.resolve(response))),
+  );
+  const { getOnDeviceUnavailableReason } = await import("@/services/onDeviceRecognition");
+  return getOnDeviceUnavailableReason;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.doUnmock("@/lib/faceDetector");
+});
+
+describe("getOnDeviceUnavailableReason", () => {
+  it("has no reason when the model is served", async () => {
+    const unavailableReason = await loadAvailability(
+      new Response(null, { status: 200, headers: { "content-type": "application/octet-stream" } }),
+    );
+    expect(await unavailableReason()).toBeNull();
+    expect(fetch).toHaveBeenCalledWith("/models/face-embedding.onnx", { method: "HEAD" });
+  });
+
+  it("reports a missing model, including an SPA fallback page", async () => {
+    const responses = [
+      new Response(null, { status: 404 }),
+      new Response(null, { status: 200, headers: { "content-type": "text/html" } }),
+      new Error("offline"),
+    ];
+    for (const response of responses) {
+      expect(await (await loadAvailability(response))()).toMatch(/model isn't installed/);
+    }
+  });
+
+  it("checks the model only once", async () => {
+    const unavailableReason = await loadAvailability(new Response(null, { status: 404 }));
+    await unavailableReason();
+    await unavailableReason();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a browser that can't detect faces", async () => {
+    const unavailableReason = await loadAvailability(new Response(null, { status: 200 }), false);
+    expect(await unavailableReason()).toMatch(/can't run face detection/);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { addFrameVotes, isVoteConfirmed, meanConfidence, partitionVotes } from "@/lib/recognitionVotes";
+import type { RecognizedFace } from "@/services/faceRecognitionApi";
+
+const face = (studentId: string, confidence: number): RecognizedFace => ({
+  student_id: studentId,
+  roll_number: `R-${studentId}`,
+  student_name: `Student ${studentId}`,
+  confidence,
+  bounding_box: { x: 0, y: 0, width: 10, height: 10 },
+});
+
+const criteria = { minHits: 3, minConfidence: 0.8 };
+
+describe("recognitionVotes", () => {
+  it("requires the configured number of frames", () => {
+    let votes = addFrameVotes({}, [face("a", 0.95)]);
+    votes = addFrameVotes(votes, [face("a", 0.9)]);
+    expect(isVoteConfirmed(votes.a, criteria)).toBe(false);
+
+    votes = addFrameVotes(votes, [face("a", 0.85)]);
+    expect(isVoteConfirmed(votes.a, criteria)).toBe(true);
+    expect(meanConfidence(votes.a)).toBeCloseTo(0.9);
+  });
+
+  it("keeps low mean confidence students tentative", () => {
+    let votes = {};
+    for (let i = 0; i < 5; i++) {
+      votes = addFrameVotes(votes, [face("b", 0.6)]);
+    }
+    const { confirmed, tentative } = partitionVotes(votes, criteria);
+    expect(confirmed).toHaveLength(0);
+    expect(tentative.map((v) => v.studentId)).toEqual(["b"]);
+  });
+
+  it("counts a student once per frame using the best match", () => {
+    const votes = addFrameVotes({}, [face("c", 0.5), face("c", 0.9)]);
+    expect(votes.c.hits).toBe(1);
+    expect(votes.c.confidenceSum).toBe(0.9);
+  });
+});
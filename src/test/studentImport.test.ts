@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { guessColumnMapping, mapImportRows, validateImportRows } from "@/lib/studentImport";
+
+describe("guessColumnMapping", () => {
+  it("maps the sample template headers", () => {
+    expect(guessColumnMapping(["S.No", "Roll.No", "Student Name", "Branch", "Semester", "Gender"])).toEqual({
+      serialNo: 0,
+      rollNumber: 1,
+      studentName: 2,
+      branch: 3,
+      semester: 4,
+      gender: 5,
+    });
+  });
+
+  it("leaves unknown fields unmapped", () => {
+    const mapping = guessColumnMapping(["Name", "Roll Number"]);
+    expect(mapping.studentName).toBe(0);
+    expect(mapping.rollNumber).toBe(1);
+    expect(mapping.gender).toBeNull();
+  });
+});
+
+describe("validateImportRows", () => {
+  const mapping = guessColumnMapping(["S.No", "Roll", "Name"]);
+  const rows = mapImportRows(
+    [
+      ["1", "R1", "Asha"],
+      ["2", "r1", "Ravi"],
+      ["3", "R3", ""],
+      ["4", "R4", "Meena"],
+      ["5", "R5", "Kiran"],
+    ],
+    mapping,
+  );
+  const existing = new Map([
+    ["R4", { sectionId: "other", sectionName: "B" }],
+    ["R5", { sectionId: "target", sectionName: "A" }],
+  ]);
+  const results = validateImportRows(rows, existing, "target");
+
+  it("flags duplicates, missing names and rolls in other sections", () => {
+    expect(results[0].errors).toEqual([]);
+    expect(results[1].errors).toEqual(["Duplicate roll number (first on row 2)"]);
+    expect(results[2].errors).toEqual(["Missing name"]);
+    expect(results[3].errors).toEqual(["Already registered in section B"]);
+  });
+
+  it("only warns when the roll is already in the target section", () => {
+    expect(results[4].errors).toEqual([]);
+    expect(results[4].warnings).toEqual(["Already registered in this section"]);
+  });
+});
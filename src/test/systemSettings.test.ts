@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_SYSTEM_SETTINGS, changedSettingKeys, settingsFromRows } from "@/lib/systemSettings";
+
+describe("systemSettings", () => {
+  it("merges saved rows over defaults and ignores bad values", () => {
+    const settings = settingsFromRows([
+      { key: "attendanceThreshold", value: 85 },
+      { key: "autoMarkAbsent", value: "yes" },
+      { key: "retiredSetting", value: 1 },
+      { key: "departmentThresholds", value: { eng: 90 } },
+    ]);
+    expect(settings.attendanceThreshold).toBe(85);
+    expect(settings.autoMarkAbsent).toBe(DEFAULT_SYSTEM_SETTINGS.autoMarkAbsent);
+    expect(settings.departmentThresholds).toEqual({ eng: 90 });
+    expect(settings).not.toHaveProperty("retiredSetting");
+  });
+
+  it("lists only the keys that changed", () => {
+    const next = { ...DEFAULT_SYSTEM_SETTINGS, lateGracePeriodMinutes: 5, departmentThresholds: { eng: 85 } };
+    expect(changedSettingKeys(DEFAULT_SYSTEM_SETTINGS, next)).toEqual(["lateGracePeriodMinutes", "departmentThresholds"]);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { generateOccurrenceDates } from "@/lib/timetable";
+
+describe("timetable", () => {
+  it("generates weekly dates inside the term, skipping holidays", () => {
+    // 2026-10-19 is a Monday; Wednesdays in range are the 21st, 28th and Nov 4th
+    expect(generateOccurrenceDates(3, "2026-10-19", "2026-11-04", ["2026-10-28"])).toEqual([
+      "2026-10-21",
+      "2026-11-04",
+    ]);
+  });
+
+  it("includes the term start when it falls on the weekday", () => {
+    expect(generateOccurrenceDates(1, "2026-10-19", "2026-10-26")).toEqual(["2026-10-19", "2026-10-26"]);
+    expect(generateOccurrenceDates(1, "2026-10-20", "2026-10-25")).toEqual([]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { buildXlsx, readXlsxSheets } from "@/lib/xlsx";
+
+describe("xlsx", () => {
+  it("round-trips typed columns as text, keeping leading zeros", async () => {
+    const buffer = await buildXlsx([
+      {
+        name: "Roster",
+        columns: [
+          { header: "Roll Number", type: "text" },
+          { header: "Name", type: "text" },
+          { header: "Classes", type: "number" },
+          { header: "Attendance", type: "percent" },
+          { header: "Joined", type: "date" },
+        ],
+        rows: [
+          ["0042", "Rao, K.", 12, 0.75, "2026-10-19"],
+          ["0043", "Meena", null, null, null],
+        ],
+      },
+      { name: "Notes", columns: [{ header: "Note", type: "text" }], rows: [] },
+    ]);
+
+    const sheets = await readXlsxSheets(buffer);
+    expect(sheets.map((sheet) => sheet.name)).toEqual(["Roster", "Notes"]);
+    expect(sheets[0].rows).toEqual([
+      ["Roll Number", "Name", "Classes", "Attendance", "Joined"],
+      ["0042", "Rao, K.", "12", "0.75", "2026-10-19"],
+      ["0043", "Meena", "", "", ""],
+    ]);
+    expect(sheets[1].rows).toEqual([["Note"]]);
+  });
+});
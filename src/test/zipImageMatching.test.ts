@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { matchZipImages } from "@/lib/zipImageMatching";
+
+const students = [
+  { serialNo: 1, rollNumber: "21CS045" },
+  { serialNo: 2, rollNumber: "21CS046" },
+  { serialNo: 3, rollNumber: "21-CS-047" },
+  { serialNo: 4, rollNumber: "21CS048" },
+];
+
+describe("matchZipImages", () => {
+  const result = matchZipImages(
+    [
+      "photos/21cs045.jpg",
+      "photos/21CS045_2.png",
+      "photos/21CS046/front.jpg",
+      "photos/21CS046/side.jpeg",
+      "21-CS-047 (1).webp",
+      "4.jpg",
+      "stranger.jpg",
+      "__MACOSX/photos/._21cs045.jpg",
+      "notes.txt",
+    ],
+    students,
+  );
+
+  it("matches by roll number, folder and serial number with multiple images each", () => {
+    expect(result.imagesBySerial.get(1)).toEqual(["photos/21cs045.jpg", "photos/21CS045_2.png"]);
+    expect(result.imagesBySerial.get(2)).toEqual(["photos/21CS046/front.jpg", "photos/21CS046/side.jpeg"]);
+    expect(result.imagesBySerial.get(3)).toEqual(["21-CS-047 (1).webp"]);
+    expect(result.imagesBySerial.get(4)).toEqual(["4.jpg"]);
+    expect(result.ruleByPath.get("photos/21CS046/front.jpg")).toBe("folder");
+    expect(result.ruleByPath.get("4.jpg")).toBe("serial_no");
+  });
+
+  it("reports unmatched images and ignores metadata and non-images", () => {
+    expect(result.unmatchedFiles).toEqual(["stranger.jpg"]);
+  });
+
+  it("lists students without photos", () => {
+    const partial = matchZipImages(["21CS045.jpg"], students);
+    expect(partial.studentsWithoutImages.map((student) => student.serialNo)).toEqual([2, 3, 4]);
+  });
+});
@@ -0,0 +1,12 @@
+-- Let staff resolve each other's names (e.g. attendance_logs.changed_by in the audit log).
+-- Teachers could previously only read their own profile.
+CREATE POLICY "Teachers can view staff profiles" ON public.profiles
+FOR SELECT USING (
+    public.has_role(auth.uid(), 'teacher') AND (
+        public.has_role(user_id, 'admin') OR public.has_role(user_id, 'teacher')
+    )
+);
+
+-- Speed up audit log filtering by date and by who made the change
+CREATE INDEX IF NOT EXISTS idx_attendance_logs_created_at ON public.attendance_logs (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_attendance_logs_changed_by ON public.attendance_logs (changed_by);
@@ -0,0 +1,91 @@
+-- Aggregated attendance summaries for Analytics.
+-- security_invoker makes each view apply the caller's RLS policies, so admins
+-- see everything, teachers see their own classes and students see themselves.
+-- Attendance percentages count 'present' and 'late' as attended and only
+-- completed classes of subjects taught to the student's own section.
+
+-- Supporting indexes for the joins below
+CREATE INDEX IF NOT EXISTS idx_subjects_section_id ON public.subjects (section_id);
+CREATE INDEX IF NOT EXISTS idx_students_section_id ON public.students (section_id);
+CREATE INDEX IF NOT EXISTS idx_classes_subject_status ON public.classes (subject_id, status);
+CREATE INDEX IF NOT EXISTS idx_attendance_student_id ON public.attendance (student_id);
+
+-- Per-student totals, scoped to the student's section
+CREATE OR REPLACE VIEW public.student_attendance_summary
+WITH (security_invoker = true) AS
+SELECT
+    st.id AS student_id,
+    st.roll_number,
+    st.full_name,
+    st.section_id,
+    sec.year_id,
+    y.department_id,
+    COALESCE(totals.total_classes, 0)::INTEGER AS total_classes,
+    COALESCE(totals.attended, 0)::INTEGER AS attended
+FROM public.students st
+JOIN public.sections sec ON sec.id = st.section_id
+JOIN public.years y ON y.id = sec.year_id
+LEFT JOIN LATERAL (
+    SELECT
+        COUNT(c.id) AS total_classes,
+        COUNT(a.id) FILTER (WHERE a.status IN ('present', 'late')) AS attended
+    FROM public.subjects sub
+    JOIN public.classes c ON c.subject_id = sub.id AND c.status = 'completed'
+    LEFT JOIN public.attendance a ON a.class_id = c.id AND a.student_id = st.id
+    WHERE sub.section_id = st.section_id
+) totals ON true;
+
+-- Per-subject totals across every student in the subject's section
+CREATE OR REPLACE VIEW public.subject_attendance_summary
+WITH (security_invoker = true) AS
+SELECT
+    sub.id AS subject_id,
+    sub.name,
+    sub.code,
+    sub.section_id,
+    sub.teacher_id,
+    COALESCE(cls.total_classes, 0)::INTEGER AS total_classes,
+    COALESCE(enrolled.student_count, 0)::INTEGER AS student_count,
+    COALESCE(att.attended, 0)::INTEGER AS attended,
+    (COALESCE(cls.total_classes, 0) * COALESCE(enrolled.student_count, 0))::INTEGER AS expected
+FROM public.subjects sub
+LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS total_classes
+    FROM public.classes c
+    WHERE c.subject_id = sub.id AND c.status = 'completed'
+) cls ON true
+LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS student_count
+    FROM public.students st
+    WHERE st.section_id = sub.section_id
+) enrolled ON true
+LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS attended
+    FROM public.classes c
+    JOIN public.attendance a ON a.class_id = c.id
+    JOIN public.students st ON st.id = a.student_id AND st.section_id = sub.section_id
+    WHERE c.subject_id = sub.id
+      AND c.status = 'completed'
+      AND a.status IN ('present', 'late')
+) att ON true;
+
+-- Per-section totals, rolled up from the subject summary
+CREATE OR REPLACE VIEW public.section_attendance_summary
+WITH (security_invoker = true) AS
+SELECT
+    sec.id AS section_id,
+    sec.name,
+    sec.year_id,
+    y.department_id,
+    COALESCE(SUM(s.total_classes), 0)::INTEGER AS total_classes,
+    COALESCE(MAX(s.student_count), 0)::INTEGER AS student_count,
+    COALESCE(SUM(s.attended), 0)::INTEGER AS attended,
+    COALESCE(SUM(s.expected), 0)::INTEGER AS expected
+FROM public.sections sec
+JOIN public.years y ON y.id = sec.year_id
+LEFT JOIN public.subject_attendance_summary s ON s.section_id = sec.id
+GROUP BY sec.id, sec.name, sec.year_id, y.department_id;
+
+GRANT SELECT ON public.student_attendance_summary TO authenticated;
+GRANT SELECT ON public.subject_attendance_summary TO authenticated;
+GRANT SELECT ON public.section_attendance_summary TO authenticated;
@@ -0,0 +1,69 @@
+-- Institution-wide settings, one row per setting key
+CREATE TABLE public.system_settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Every insert/update of a setting is recorded here
+CREATE TABLE public.system_settings_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    key TEXT NOT NULL,
+    previous_value JSONB,
+    new_value JSONB NOT NULL,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_system_settings_history_created_at
+    ON public.system_settings_history (created_at DESC);
+
+ALTER TABLE public.system_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.system_settings_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for system_settings
+CREATE POLICY "Authenticated users can view settings" ON public.system_settings
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can insert settings" ON public.system_settings
+FOR INSERT TO authenticated WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update settings" ON public.system_settings
+FOR UPDATE TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete settings" ON public.system_settings
+FOR DELETE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for system_settings_history (written only by the trigger below)
+CREATE POLICY "Admins can view settings history" ON public.system_settings_history
+FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Stamp the editor and record the change
+CREATE OR REPLACE FUNCTION public.log_system_setting_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_by = auth.uid();
+  NEW.updated_at = now();
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.system_settings_history (key, previous_value, new_value, changed_by)
+    VALUES (NEW.key, NULL, NEW.value, auth.uid());
+  ELSIF OLD.value IS DISTINCT FROM NEW.value THEN
+    INSERT INTO public.system_settings_history (key, previous_value, new_value, changed_by)
+    VALUES (NEW.key, OLD.value, NEW.value, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_system_setting_change
+  BEFORE INSERT OR UPDATE ON public.system_settings
+  FOR EACH ROW EXECUTE FUNCTION public.log_system_setting_change();
@@ -0,0 +1,81 @@
+-- Weekly timetable entries; each series generates one classes row per week
+CREATE TABLE public.class_series (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    subject_id UUID REFERENCES public.subjects(id) ON DELETE CASCADE NOT NULL,
+    teacher_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    term_start DATE NOT NULL,
+    term_end DATE NOT NULL,
+    excluded_dates DATE[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (end_time > start_time),
+    CHECK (term_end >= term_start)
+);
+
+-- Occurrences remember their series; an edited occurrence is detached from
+-- later series-wide edits
+ALTER TABLE public.classes
+    ADD COLUMN series_id UUID REFERENCES public.class_series(id) ON DELETE SET NULL,
+    ADD COLUMN is_series_exception BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_classes_series_id ON public.classes (series_id);
+CREATE INDEX idx_classes_date_time ON public.classes (class_date, start_time);
+
+ALTER TABLE public.class_series ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for class_series
+CREATE POLICY "Teachers can manage own class series" ON public.class_series
+FOR ALL USING (teacher_id = auth.uid());
+
+CREATE POLICY "Admins can manage class series" ON public.class_series
+FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+-- Classes that overlap the given slot on any of the given dates, either
+-- taught by the same teacher or held for the same section. Runs as definer
+-- because teachers can't otherwise see each other's classes.
+CREATE OR REPLACE FUNCTION public.find_class_clashes(
+  _dates DATE[],
+  _start_time TIME,
+  _end_time TIME,
+  _teacher_id UUID,
+  _subject_id UUID,
+  _exclude_class_ids UUID[] DEFAULT '{}'
+)
+RETURNS TABLE (
+  class_id UUID,
+  class_date DATE,
+  start_time TIME,
+  end_time TIME,
+  subject_name TEXT,
+  subject_code TEXT,
+  clash_type TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.class_date,
+    c.start_time,
+    c.end_time,
+    s.name,
+    s.code,
+    CASE WHEN c.teacher_id = _teacher_id THEN 'teacher' ELSE 'section' END
+  FROM public.classes c
+  JOIN public.subjects s ON s.id = c.subject_id
+  WHERE (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'teacher'))
+    AND c.class_date = ANY(_dates)
+    AND c.status <> 'cancelled'
+    AND c.start_time < _end_time
+    AND c.end_time > _start_time
+    AND NOT (c.id = ANY(_exclude_class_ids))
+    AND (
+      c.teacher_id = _teacher_id
+      OR s.section_id = (SELECT section_id FROM public.subjects WHERE id = _subject_id)
+    )
+  ORDER BY c.class_date, c.start_time
+$$;
@@ -0,0 +1,114 @@
+-- Academic calendar: terms plus holidays and exam blackout periods
+CREATE TABLE public.academic_terms (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (end_date >= start_date)
+);
+
+CREATE TABLE public.calendar_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('holiday', 'exam_blackout')),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_academic_terms_dates ON public.academic_terms (start_date, end_date);
+CREATE INDEX idx_calendar_events_dates ON public.calendar_events (start_date, end_date);
+
+ALTER TABLE public.academic_terms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.calendar_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for academic_terms
+CREATE POLICY "Authenticated users can view terms" ON public.academic_terms
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage terms" ON public.academic_terms
+FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for calendar_events
+CREATE POLICY "Authenticated users can view calendar events" ON public.calendar_events
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage calendar events" ON public.calendar_events
+FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+-- Refuse to schedule or move a class onto a holiday or blackout day.
+-- Classes already on a date that later becomes a holiday are left alone.
+CREATE OR REPLACE FUNCTION public.prevent_class_on_blocked_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_name TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.class_date IS NOT DISTINCT FROM OLD.class_date THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO _event_name
+  FROM public.calendar_events
+  WHERE NEW.class_date BETWEEN start_date AND end_date
+  LIMIT 1;
+
+  IF _event_name IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot schedule a class on % (%)', NEW.class_date, _event_name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_class_date_check
+  BEFORE INSERT OR UPDATE ON public.classes
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_class_on_blocked_date();
+
+-- Same shape as student_attendance_summary, restricted to classes held
+-- between _from and _to (inclusive). Runs as the caller so RLS still applies.
+CREATE OR REPLACE FUNCTION public.student_attendance_summary_between(_from DATE, _to DATE)
+RETURNS TABLE (
+  student_id UUID,
+  roll_number TEXT,
+  full_name TEXT,
+  section_id UUID,
+  year_id UUID,
+  department_id UUID,
+  total_classes INTEGER,
+  attended INTEGER
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    st.id,
+    st.roll_number,
+    st.full_name,
+    st.section_id,
+    sec.year_id,
+    y.department_id,
+    COALESCE(totals.total_classes, 0)::INTEGER,
+    COALESCE(totals.attended, 0)::INTEGER
+  FROM public.students st
+  JOIN public.sections sec ON sec.id = st.section_id
+  JOIN public.years y ON y.id = sec.year_id
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(c.id) AS total_classes,
+      COUNT(a.id) FILTER (WHERE a.status IN ('present', 'late')) AS attended
+    FROM public.subjects sub
+    JOIN public.classes c ON c.subject_id = sub.id
+      AND c.status = 'completed'
+      AND c.class_date BETWEEN _from AND _to
+    LEFT JOIN public.attendance a ON a.class_id = c.id AND a.student_id = st.id
+    WHERE sub.section_id = st.section_id
+  ) totals ON true
+  ORDER BY st.roll_number
+$$;
@@ -0,0 +1,44 @@
+-- Class lifecycle: scheduled -> in_progress -> completed, with cancellation
+-- allowed until attendance is submitted. completed and cancelled are final.
+ALTER TABLE public.classes
+    ADD COLUMN started_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN cancellation_reason TEXT;
+
+CREATE INDEX idx_classes_status_date ON public.classes (status, class_date);
+
+CREATE OR REPLACE FUNCTION public.enforce_class_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'scheduled' AND NEW.status IN ('in_progress', 'completed', 'cancelled'))
+    OR (OLD.status = 'in_progress' AND NEW.status IN ('completed', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Illegal class status change from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'in_progress' THEN
+    NEW.started_at = now();
+  ELSIF NEW.status = 'cancelled' THEN
+    IF COALESCE(btrim(NEW.cancellation_reason), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required to cancel a class';
+    END IF;
+    NEW.cancelled_at = now();
+    NEW.cancelled_by = auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_class_status_change
+  BEFORE UPDATE OF status ON public.classes
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_class_status_transition();
@@ -0,0 +1,153 @@
+-- Class changes: reschedules, cancellations and substitute teachers are
+-- recorded in class_changes, and students in the class's section get an
+-- in-app notification for each change to an upcoming class.
+
+-- A substitute takes over teacher_id for the session; the regular teacher is
+-- kept so they can still see the class and hand it back.
+ALTER TABLE public.classes
+    ADD COLUMN original_teacher_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE POLICY "Original teachers can manage substituted classes" ON public.classes
+FOR ALL USING (original_teacher_id = auth.uid());
+
+CREATE TABLE public.class_changes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE NOT NULL,
+    change_type TEXT NOT NULL CHECK (change_type IN ('rescheduled', 'cancelled', 'substitute_assigned')),
+    old_values JSONB NOT NULL DEFAULT '{}'::JSONB,
+    new_values JSONB NOT NULL DEFAULT '{}'::JSONB,
+    reason TEXT,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_class_changes_class_id ON public.class_changes (class_id, created_at DESC);
+
+ALTER TABLE public.class_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view class changes" ON public.class_changes
+FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Teachers can view changes to their classes" ON public.class_changes
+FOR SELECT USING (
+    class_id IN (
+        SELECT id FROM public.classes
+        WHERE teacher_id = auth.uid() OR original_teacher_id = auth.uid()
+    )
+);
+
+CREATE TABLE public.notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    link TEXT,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications" ON public.notifications
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark own notifications read" ON public.notifications
+FOR UPDATE USING (user_id = auth.uid());
+
+-- Teachers can't read user_roles, so substitute pickers go through this
+CREATE OR REPLACE FUNCTION public.list_teachers()
+RETURNS TABLE (user_id UUID, full_name TEXT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.user_id, p.full_name
+  FROM public.profiles p
+  JOIN public.user_roles ur ON ur.user_id = p.user_id AND ur.role = 'teacher'
+  WHERE public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'teacher')
+  ORDER BY p.full_name
+$$;
+
+-- Security definer: the editing teacher can't see the section's students'
+-- accounts, and nobody may insert history or notifications directly.
+CREATE OR REPLACE FUNCTION public.record_class_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _change_type TEXT;
+  _old JSONB;
+  _new JSONB;
+  _reason TEXT;
+  _subject_name TEXT;
+  _section_id UUID;
+  _body TEXT;
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    _change_type := 'cancelled';
+    _old := jsonb_build_object('status', OLD.status);
+    _new := jsonb_build_object('status', NEW.status);
+    _reason := NEW.cancellation_reason;
+  ELSIF NEW.class_date IS DISTINCT FROM OLD.class_date
+     OR NEW.start_time IS DISTINCT FROM OLD.start_time
+     OR NEW.end_time IS DISTINCT FROM OLD.end_time THEN
+    _change_type := 'rescheduled';
+    _old := jsonb_build_object('class_date', OLD.class_date, 'start_time', OLD.start_time, 'end_time', OLD.end_time);
+    _new := jsonb_build_object('class_date', NEW.class_date, 'start_time', NEW.start_time, 'end_time', NEW.end_time);
+  ELSIF NEW.teacher_id IS DISTINCT FROM OLD.teacher_id THEN
+    _change_type := 'substitute_assigned';
+    _old := jsonb_build_object('teacher_id', OLD.teacher_id);
+    _new := jsonb_build_object('teacher_id', NEW.teacher_id);
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.class_changes (class_id, change_type, old_values, new_values, reason, changed_by)
+  VALUES (NEW.id, _change_type, _old, _new, _reason, auth.uid());
+
+  -- Past sessions changing (e.g. a late cancellation) aren't worth a ping
+  IF GREATEST(OLD.class_date, NEW.class_date) < CURRENT_DATE THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT sub.name, sub.section_id INTO _subject_name, _section_id
+  FROM public.subjects sub
+  WHERE sub.id = NEW.subject_id;
+
+  _body := CASE _change_type
+    WHEN 'cancelled' THEN format('%s on %s is cancelled: %s',
+      _subject_name, to_char(NEW.class_date, 'Mon DD'), NEW.cancellation_reason)
+    WHEN 'rescheduled' THEN format('%s moved from %s %s to %s %s',
+      _subject_name,
+      to_char(OLD.class_date, 'Mon DD'), to_char(OLD.start_time, 'HH24:MI'),
+      to_char(NEW.class_date, 'Mon DD'), to_char(NEW.start_time, 'HH24:MI'))
+    ELSE format('%s on %s will be taken by %s',
+      _subject_name, to_char(NEW.class_date, 'Mon DD'),
+      COALESCE((SELECT full_name FROM public.profiles WHERE user_id = NEW.teacher_id), 'a substitute teacher'))
+  END;
+
+  INSERT INTO public.notifications (user_id, title, body, link)
+  SELECT st.user_id,
+         CASE _change_type
+           WHEN 'cancelled' THEN 'Class cancelled'
+           WHEN 'rescheduled' THEN 'Class rescheduled'
+           ELSE 'Substitute teacher'
+         END,
+         _body,
+         '/my-attendance'
+  FROM public.students st
+  WHERE st.section_id = _section_id
+    AND st.user_id IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_class_change
+  AFTER UPDATE ON public.classes
+  FOR EACH ROW EXECUTE FUNCTION public.record_class_change();
@@ -0,0 +1,16 @@
+-- Bulk import validation needs to know whether a roll number is already taken
+-- anywhere. Teachers can only read students in their own sections, so the
+-- lookup runs as definer and exposes just the roll number and section.
+CREATE OR REPLACE FUNCTION public.find_students_by_roll(_roll_numbers TEXT[])
+RETURNS TABLE (roll_number TEXT, section_id UUID, section_name TEXT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT st.roll_number, st.section_id, sec.name
+  FROM public.students st
+  LEFT JOIN public.sections sec ON sec.id = st.section_id
+  WHERE upper(st.roll_number) = ANY (SELECT upper(r) FROM unnest(_roll_numbers) AS r)
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'teacher'))
+$$;
@@ -0,0 +1,23 @@
+-- Face training for a newly registered student can fail after the student row
+-- exists (backend offline, no usable face). Instead of losing the captures,
+-- the student is marked for training and the images are kept in a private
+-- bucket until a retry from the Students page succeeds.
+ALTER TABLE public.students
+    ADD COLUMN face_training_status TEXT CHECK (face_training_status IN ('pending', 'failed')),
+    ADD COLUMN face_training_error TEXT;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('face-captures', 'face-captures', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects are stored as <student_id>/<n>.jpg
+CREATE POLICY "Staff can manage face captures" ON storage.objects
+FOR ALL TO authenticated
+USING (
+    bucket_id = 'face-captures' AND
+    (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'teacher'))
+)
+WITH CHECK (
+    bucket_id = 'face-captures' AND
+    (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'teacher'))
+);
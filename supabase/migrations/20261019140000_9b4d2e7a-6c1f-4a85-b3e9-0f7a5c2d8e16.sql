@@ -0,0 +1,89 @@
+-- Create a whole timetable entry (one class_series per weekday plus all of
+-- their classes) in a single transaction. Any failure, e.g. an occurrence on
+-- a blocked date or an RLS rejection, rolls back every weekday so the same
+-- form can simply be submitted again. Runs as the caller so RLS still applies.
+-- _occurrences: [{ "weekday": 1, "dates": ["2026-10-19", ...] }, ...]
+CREATE OR REPLACE FUNCTION public.create_class_series(
+  _subject_id UUID,
+  _teacher_id UUID,
+  _start_time TIME,
+  _end_time TIME,
+  _term_start DATE,
+  _term_end DATE,
+  _excluded_dates DATE[],
+  _occurrences JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _entry JSONB;
+  _series_id UUID;
+  _class_count INTEGER := 0;
+BEGIN
+  FOR _entry IN SELECT value FROM jsonb_array_elements(_occurrences) LOOP
+    CONTINUE WHEN jsonb_array_length(_entry->'dates') = 0;
+
+    INSERT INTO public.class_series (
+      subject_id, teacher_id, weekday, start_time, end_time, term_start, term_end, excluded_dates
+    )
+    VALUES (
+      _subject_id, _teacher_id, (_entry->>'weekday')::SMALLINT, _start_time, _end_time,
+      _term_start, _term_end, _excluded_dates
+    )
+    RETURNING id INTO _series_id;
+
+    INSERT INTO public.classes (subject_id, class_date, start_time, end_time, teacher_id, status, series_id)
+    SELECT _subject_id, class_date::DATE, _start_time, _end_time, _teacher_id, 'scheduled', _series_id
+    FROM jsonb_array_elements_text(_entry->'dates') AS class_date;
+
+    _class_count := _class_count + jsonb_array_length(_entry->'dates');
+  END LOOP;
+
+  RETURN _class_count;
+END;
+$$;
+
+-- Retime a series from _from_date onwards: its scheduled, unedited classes
+-- and the series definition change together or not at all. Security definer
+-- so both tables are written in one call; access mirrors the RLS policies
+-- (admins, or the series' teacher for the classes they still teach).
+CREATE OR REPLACE FUNCTION public.update_class_series(
+  _series_id UUID,
+  _start_time TIME,
+  _end_time TIME,
+  _from_date DATE
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+  _class_count INTEGER;
+BEGIN
+  IF NOT _is_admin AND NOT EXISTS (
+    SELECT 1 FROM public.class_series WHERE id = _series_id AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to edit this class series';
+  END IF;
+
+  UPDATE public.classes
+  SET start_time = _start_time, end_time = _end_time
+  WHERE series_id = _series_id
+    AND status = 'scheduled'
+    AND is_series_exception = false
+    AND class_date >= _from_date
+    AND (_is_admin OR teacher_id = auth.uid());
+  GET DIAGNOSTICS _class_count = ROW_COUNT;
+
+  UPDATE public.class_series
+  SET start_time = _start_time, end_time = _end_time
+  WHERE id = _series_id;
+
+  RETURN _class_count;
+END;
+$$;
@@ -0,0 +1,196 @@
+-- Class change notifications, take two: a series edit retimes every
+-- remaining occurrence in one UPDATE, and the row-level trigger notified each
+-- student once per row (one "Class rescheduled" per remaining week). History
+-- stays per class; notifications now come from a statement-level trigger
+-- that sends one per student for each kind of change in the statement.
+-- Reschedules also carry an optional reason, like cancellations do.
+
+ALTER TABLE public.classes
+    ADD COLUMN reschedule_reason TEXT;
+
+-- Per-class history only; notifying moves to notify_class_changes below
+CREATE OR REPLACE FUNCTION public.record_class_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _change_type TEXT;
+  _old JSONB;
+  _new JSONB;
+  _reason TEXT;
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    _change_type := 'cancelled';
+    _old := jsonb_build_object('status', OLD.status);
+    _new := jsonb_build_object('status', NEW.status);
+    _reason := NEW.cancellation_reason;
+  ELSIF NEW.class_date IS DISTINCT FROM OLD.class_date
+     OR NEW.start_time IS DISTINCT FROM OLD.start_time
+     OR NEW.end_time IS DISTINCT FROM OLD.end_time THEN
+    _change_type := 'rescheduled';
+    _old := jsonb_build_object('class_date', OLD.class_date, 'start_time', OLD.start_time, 'end_time', OLD.end_time);
+    _new := jsonb_build_object('class_date', NEW.class_date, 'start_time', NEW.start_time, 'end_time', NEW.end_time);
+    _reason := NEW.reschedule_reason;
+  ELSIF NEW.teacher_id IS DISTINCT FROM OLD.teacher_id THEN
+    _change_type := 'substitute_assigned';
+    _old := jsonb_build_object('teacher_id', OLD.teacher_id);
+    _new := jsonb_build_object('teacher_id', NEW.teacher_id);
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.class_changes (class_id, change_type, old_values, new_values, reason, changed_by)
+  VALUES (NEW.id, _change_type, _old, _new, _reason, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+-- One notification per student, per subject and kind of change, per UPDATE
+-- statement. Changes to past sessions (e.g. a late cancellation) are skipped.
+CREATE OR REPLACE FUNCTION public.notify_class_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _group RECORD;
+  _reason_suffix TEXT;
+  _body TEXT;
+BEGIN
+  FOR _group IN
+    SELECT
+      sub.section_id,
+      sub.name AS subject_name,
+      c.change_type,
+      count(*) AS class_count,
+      -- Details of the earliest affected class
+      (array_agg(c.old_date ORDER BY c.new_date, c.new_start))[1] AS old_date,
+      (array_agg(c.old_start ORDER BY c.new_date, c.new_start))[1] AS old_start,
+      (array_agg(c.new_date ORDER BY c.new_date, c.new_start))[1] AS new_date,
+      (array_agg(c.new_start ORDER BY c.new_date, c.new_start))[1] AS new_start,
+      (array_agg(c.teacher_id ORDER BY c.new_date, c.new_start))[1] AS teacher_id,
+      (array_agg(c.reason ORDER BY c.new_date, c.new_start))[1] AS reason
+    FROM (
+      SELECT
+        n.subject_id,
+        o.class_date AS old_date,
+        o.start_time AS old_start,
+        n.class_date AS new_date,
+        n.start_time AS new_start,
+        n.teacher_id,
+        CASE
+          WHEN n.status = 'cancelled' AND o.status IS DISTINCT FROM 'cancelled' THEN 'cancelled'
+          WHEN n.class_date IS DISTINCT FROM o.class_date
+            OR n.start_time IS DISTINCT FROM o.start_time
+            OR n.end_time IS DISTINCT FROM o.end_time THEN 'rescheduled'
+          WHEN n.teacher_id IS DISTINCT FROM o.teacher_id THEN 'substitute_assigned'
+        END AS change_type,
+        CASE
+          WHEN n.status = 'cancelled' THEN n.cancellation_reason
+          ELSE n.reschedule_reason
+        END AS reason
+      FROM new_rows n
+      JOIN old_rows o ON o.id = n.id
+      WHERE GREATEST(o.class_date, n.class_date) >= CURRENT_DATE
+    ) c
+    JOIN public.subjects sub ON sub.id = c.subject_id
+    WHERE c.change_type IS NOT NULL
+    GROUP BY sub.section_id, sub.name, c.change_type
+  LOOP
+    _reason_suffix := COALESCE(': ' || NULLIF(btrim(_group.reason), ''), '');
+
+    _body := CASE
+      WHEN _group.change_type = 'cancelled' AND _group.class_count = 1 THEN
+        format('%s on %s is cancelled%s',
+          _group.subject_name, to_char(_group.new_date, 'Mon DD'), _reason_suffix)
+      WHEN _group.change_type = 'cancelled' THEN
+        format('%s classes of %s from %s are cancelled%s',
+          _group.class_count, _group.subject_name, to_char(_group.new_date, 'Mon DD'), _reason_suffix)
+      WHEN _group.change_type = 'rescheduled' AND _group.class_count = 1 THEN
+        format('%s moved from %s %s to %s %s%s',
+          _group.subject_name,
+          to_char(_group.old_date, 'Mon DD'), to_char(_group.old_start, 'HH24:MI'),
+          to_char(_group.new_date, 'Mon DD'), to_char(_group.new_start, 'HH24:MI'),
+          _reason_suffix)
+      WHEN _group.change_type = 'rescheduled' THEN
+        format('%s moves to %s from %s (%s classes)%s',
+          _group.subject_name, to_char(_group.new_start, 'HH24:MI'),
+          to_char(_group.new_date, 'Mon DD'), _group.class_count, _reason_suffix)
+      ELSE
+        format('%s %s will be taken by %s',
+          _group.subject_name,
+          CASE WHEN _group.class_count = 1
+            THEN 'on ' || to_char(_group.new_date, 'Mon DD')
+            ELSE format('from %s (%s classes)', to_char(_group.new_date, 'Mon DD'), _group.class_count)
+          END,
+          COALESCE((SELECT full_name FROM public.profiles WHERE user_id = _group.teacher_id), 'a substitute teacher'))
+    END;
+
+    INSERT INTO public.notifications (user_id, title, body, link)
+    SELECT st.user_id,
+           CASE _group.change_type
+             WHEN 'cancelled' THEN 'Class cancelled'
+             WHEN 'rescheduled' THEN 'Class rescheduled'
+             ELSE 'Substitute teacher'
+           END,
+           _body,
+           '/my-attendance'
+    FROM public.students st
+    WHERE st.section_id = _group.section_id
+      AND st.user_id IS NOT NULL;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_class_change_notify
+  AFTER UPDATE ON public.classes
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION public.notify_class_changes();
+
+-- Series edits carry the reason too; it lands on every retimed class
+DROP FUNCTION IF EXISTS public.update_class_series(UUID, TIME, TIME, DATE);
+
+CREATE OR REPLACE FUNCTION public.update_class_series(
+  _series_id UUID,
+  _start_time TIME,
+  _end_time TIME,
+  _from_date DATE,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+  _class_count INTEGER;
+BEGIN
+  IF NOT _is_admin AND NOT EXISTS (
+    SELECT 1 FROM public.class_series WHERE id = _series_id AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to edit this class series';
+  END IF;
+
+  UPDATE public.classes
+  SET start_time = _start_time, end_time = _end_time, reschedule_reason = NULLIF(btrim(_reason), '')
+  WHERE series_id = _series_id
+    AND status = 'scheduled'
+    AND is_series_exception = false
+    AND class_date >= _from_date
+    AND (_is_admin OR teacher_id = auth.uid());
+  GET DIAGNOSTICS _class_count = ROW_COUNT;
+
+  UPDATE public.class_series
+  SET start_time = _start_time, end_time = _end_time
+  WHERE id = _series_id;
+
+  RETURN _class_count;
+END;
+$$;
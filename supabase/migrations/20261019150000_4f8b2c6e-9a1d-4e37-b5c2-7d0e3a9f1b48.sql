@@ -0,0 +1,30 @@
+-- Face embeddings are written by the face backend with the service role.
+-- On-device recognition reads them from the browser, so teachers get SELECT
+-- on the embeddings of students in sections they teach (including as a
+-- substitute), and nothing else.
+-- The table matches what the backend creates, for databases without one.
+CREATE TABLE IF NOT EXISTS public.face_embeddings (
+    id TEXT PRIMARY KEY,
+    embedding REAL[] NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.face_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view embeddings of students in their sections" ON public.face_embeddings
+FOR SELECT USING (
+    public.has_role(auth.uid(), 'teacher') AND
+    id::TEXT IN (
+        SELECT st.face_embedding_id
+        FROM public.students st
+        JOIN public.subjects s ON s.section_id = st.section_id
+        WHERE st.face_embedding_id IS NOT NULL
+          AND (
+            s.teacher_id = auth.uid()
+            OR EXISTS (SELECT 1 FROM public.classes c WHERE c.subject_id = s.id AND c.teacher_id = auth.uid())
+          )
+    )
+);
+
+CREATE POLICY "Admins can view face embeddings" ON public.face_embeddings
+FOR SELECT USING (public.has_role(auth.uid(), 'admin'));